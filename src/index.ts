@@ -1,6 +1,7 @@
 import { bootstrap } from "@vendure/core";
 import { config } from "./vendure-config";
 
-bootstrap(config).catch((err) => {
+// rawBody: el webhook de WooCommerce verifica la firma sobre el cuerpo original.
+bootstrap(config, { nestApplicationOptions: { rawBody: true } }).catch((err) => {
   console.log(err);
 });
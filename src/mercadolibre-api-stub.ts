@@ -0,0 +1,107 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+
+/**
+ * Servidor local que simula la API de ítems de MercadoLibre, para probar la
+ * sincronización sin tocar una cuenta real. Guarda los ítems en memoria y muestra cada
+ * solicitud en la consola.
+ *
+ * 1. Ejecuta `npm run stub:mercadolibre` (puerto `MERCADOLIBRE_STUB_PORT`, 4010 por
+ *    defecto).
+ * 2. Arranca el servidor y el worker con `MERCADOLIBRE_API_URL=http://localhost:4010`.
+ * 3. Crea una integración de MercadoLibre con cualquier access token y vincúlala a un
+ *    canal; al guardar un producto del canal, la solicitud aparece aquí.
+ */
+const port = Number(process.env.MERCADOLIBRE_STUB_PORT) || 4010;
+
+const items = new Map<string, Record<string, unknown>>();
+let nextItemId = 1;
+
+type StubResponse = { status: number; body: unknown };
+
+function notFound(path: string): StubResponse {
+  return {
+    status: 404,
+    body: { error: "not_found", message: `Stub has no resource ${path}` },
+  };
+}
+
+function handle(method: string, path: string, body: any): StubResponse {
+  if (method === "GET" && path === "/users/me") {
+    return {
+      status: 200,
+      body: { id: 1, nickname: "STUB_SELLER", site_id: "MLA" },
+    };
+  }
+
+  if (method === "POST" && path === "/items") {
+    const id = `MLA${nextItemId++}`;
+    const item = {
+      ...body,
+      id,
+      status: "active",
+      permalink: `http://localhost:${port}/items/${id}`,
+    };
+    items.set(id, item);
+    return { status: 201, body: item };
+  }
+
+  const match = path.match(/^\/items\/([^/]+)(\/description)?$/);
+  const item = match ? items.get(match[1]) : undefined;
+  if (!match || !item) {
+    return notFound(path);
+  }
+  if (match[2]) {
+    return method === "POST" || method === "PUT"
+      ? { status: 200, body: { plain_text: body?.plain_text ?? "" } }
+      : notFound(path);
+  }
+  if (method === "GET") {
+    return { status: 200, body: item };
+  }
+  if (method === "PUT") {
+    Object.assign(item, body);
+    return { status: 200, body: item };
+  }
+  return notFound(path);
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: ServerResponse, { status, body }: StubResponse) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const method = req.method ?? "GET";
+  const path = new URL(req.url ?? "/", `http://localhost:${port}`).pathname;
+  try {
+    const response = handle(method, path, await readBody(req));
+    console.log(`${method} ${path} -> ${response.status}`);
+    send(res, response);
+  } catch (error) {
+    console.error(`${method} ${path} -> 400`, error);
+    send(res, {
+      status: 400,
+      body: { error: "bad_request", message: "Invalid JSON body" },
+    });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`MercadoLibre API stub listening on http://localhost:${port}`);
+});
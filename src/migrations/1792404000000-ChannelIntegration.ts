@@ -0,0 +1,86 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Reemplaza el custom field `Channel.integrationId` (una integración por canal) por la
+ * tabla `channel_integration`. Los IDs son uuid (`UuidIdStrategy`) y el custom field era
+ * un entero, así que ningún valor guardado identifica una integración: si algún canal
+ * tiene uno, la migración se detiene para que se vacíe y el canal se vuelva a vincular
+ * desde el dashboard. Con `DB_SYNCHRONIZE` la tabla puede existir ya, y las columnas
+ * pueden haberse borrado: se comprueban antes.
+ */
+export class ChannelIntegration1792404000000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<any> {
+        if (await queryRunner.hasColumn("channel", "customFieldsIntegrationid")) {
+            const linked: Array<{ id: string }> = await queryRunner.query(
+                `SELECT "id" FROM "channel" WHERE "customFieldsIntegrationid" IS NOT NULL`,
+                undefined,
+            );
+            if (linked.length > 0) {
+                throw new Error(
+                    `Channels ${linked.map(row => row.id).join(", ")} are linked to an integration through the integer "customFieldsIntegrationid" column, which cannot reference uuid integrations. ` +
+                        `Set "customFieldsIntegrationid" to NULL on these channels, run the migration again and re-link them from the channel page of the dashboard.`,
+                );
+            }
+        }
+
+        if (!(await queryRunner.hasTable("channel_integration"))) {
+            await queryRunner.query(
+                `CREATE TABLE "channel_integration" ("createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "channelId" uuid NOT NULL, "integrationId" uuid NOT NULL, "enabled" boolean NOT NULL DEFAULT true, "enabledFeatures" text NOT NULL DEFAULT '[]', "priceChannelId" uuid, "id" uuid NOT NULL DEFAULT uuid_generate_v4(), CONSTRAINT "PK_3abc8ade87924d00423127cd39f" PRIMARY KEY ("id"))`,
+                undefined,
+            );
+            await queryRunner.query(
+                `CREATE INDEX "IDX_bda0a42295f014c773c5d13b06" ON "channel_integration" ("channelId") `,
+                undefined,
+            );
+            await queryRunner.query(
+                `CREATE INDEX "IDX_c5fbf190bbb5706ea33d3abe96" ON "channel_integration" ("integrationId") `,
+                undefined,
+            );
+            await queryRunner.query(
+                `CREATE UNIQUE INDEX "IDX_6668716d0312d1609e2f2e8c8f" ON "channel_integration" ("channelId", "integrationId") `,
+                undefined,
+            );
+        }
+
+        if (await queryRunner.hasColumn("channel", "customFieldsIntegrationid")) {
+            await queryRunner.query(
+                `ALTER TABLE "channel" DROP COLUMN "customFieldsIntegrationid"`,
+                undefined,
+            );
+        }
+        if (await queryRunner.hasColumn("channel", "customFieldsSyncedintegrationid")) {
+            await queryRunner.query(
+                `ALTER TABLE "channel" DROP COLUMN "customFieldsSyncedintegrationid"`,
+                undefined,
+            );
+        }
+    }
+
+    /**
+     * Un entero no puede guardar el uuid de la integración, así que los vínculos no se
+     * pueden copiar de vuelta: si hay alguno, la reversión se detiene en lugar de
+     * perderlos.
+     */
+    public async down(queryRunner: QueryRunner): Promise<any> {
+        const [{ count }]: Array<{ count: string }> = await queryRunner.query(
+            `SELECT COUNT(*) AS "count" FROM "channel_integration"`,
+            undefined,
+        );
+        if (Number(count) > 0) {
+            throw new Error(
+                `"channel_integration" has ${count} channel links that cannot be stored in the integer "customFieldsIntegrationid" column. ` +
+                    `Delete them from the channel page of the dashboard before reverting this migration.`,
+            );
+        }
+
+        await queryRunner.query(
+            `ALTER TABLE "channel" ADD "customFieldsSyncedintegrationid" integer`,
+            undefined,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "channel" ADD "customFieldsIntegrationid" integer`,
+            undefined,
+        );
+        await queryRunner.query(`DROP TABLE "channel_integration"`, undefined);
+    }
+}
@@ -10,6 +10,20 @@ export const adminApiExtensions = gql`
         config: JSON!
         enabled: Boolean!
         enabledFeatures: [String!]!
+        tokenStatus: IntegrationTokenStatus!
+        tokenExpiresAt: DateTime
+        tokenError: String
+        "Hasta cuándo las llamadas están pausadas por un 429 de la plataforma externa"
+        rateLimitedUntil: DateTime
+    }
+
+    enum IntegrationTokenStatus {
+        NOT_APPLICABLE
+        NOT_CONNECTED
+        VALID
+        EXPIRED
+        NO_REFRESH_TOKEN
+        ERROR
     }
 
     type IntegrationList {
@@ -32,6 +46,238 @@ export const adminApiExtensions = gql`
         features: [IntegrationFeature!]!
     }
 
+    type ProductQuestion implements Node {
+        id: ID!
+        createdAt: DateTime!
+        updatedAt: DateTime!
+        integrationId: ID!
+        externalQuestionId: String!
+        externalItemId: String!
+        productId: ID
+        product: Product
+        channelId: ID
+        text: String!
+        status: String!
+        buyerId: String
+        askedAt: DateTime!
+        answerText: String
+        answeredAt: DateTime
+    }
+
+    type ProductQuestionList implements PaginatedList {
+        items: [ProductQuestion!]!
+        totalItems: Int!
+    }
+
+    type UnansweredProductQuestionCount {
+        channelId: ID
+        channelCode: String
+        count: Int!
+    }
+
+    type ProductIntegrationMapping implements Node {
+        id: ID!
+        createdAt: DateTime!
+        updatedAt: DateTime!
+        integrationId: ID!
+        integration: Integration
+        vendureProductId: ID!
+        product: Product
+        externalProductId: String!
+        externalSku: String
+        externalUrl: String
+    }
+
+    type ChannelIntegration implements Node {
+        id: ID!
+        createdAt: DateTime!
+        updatedAt: DateTime!
+        channelId: ID!
+        integrationId: ID!
+        integration: Integration
+        enabled: Boolean!
+        enabledFeatures: [String!]!
+        priceChannelId: ID
+    }
+
+    type ProductIntegrationMappingList implements PaginatedList {
+        items: [ProductIntegrationMapping!]!
+        totalItems: Int!
+    }
+
+    type OrderIntegrationMapping {
+        id: ID!
+        integrationId: ID!
+        externalOrderId: String!
+        externalPackId: String
+        externalStatus: String
+    }
+
+    type OrderMessage implements Node {
+        id: ID!
+        createdAt: DateTime!
+        direction: String!
+        text: String!
+        attachments: [OrderMessageAttachment!]!
+        sentAt: DateTime!
+        readAt: DateTime
+        administratorId: ID
+    }
+
+    type OrderMessageAttachment {
+        name: String!
+        mimeType: String
+        assetId: ID
+        asset: Asset
+    }
+
+    type SyncLogEntry implements Node {
+        id: ID!
+        createdAt: DateTime!
+        integrationId: ID!
+        integration: Integration
+        productId: ID!
+        channelId: ID
+        operation: String!
+        externalId: String
+        requestSummary: String!
+        success: Boolean!
+        responseStatus: Int
+        error: String
+        durationMs: Int!
+    }
+
+    type SyncLogEntryList implements PaginatedList {
+        items: [SyncLogEntry!]!
+        totalItems: Int!
+    }
+
+    type SyncDeadLetter implements Node {
+        id: ID!
+        createdAt: DateTime!
+        updatedAt: DateTime!
+        integrationId: ID!
+        integration: Integration
+        productId: ID!
+        product: Product
+        channelId: ID!
+        eventType: String!
+        errorKind: String!
+        responseStatus: Int
+        error: String!
+        attempts: Int!
+        occurrences: Int!
+        status: String!
+        resolvedAt: DateTime
+    }
+
+    type SyncDeadLetterList implements PaginatedList {
+        items: [SyncDeadLetter!]!
+        totalItems: Int!
+    }
+
+    type MappingOperationReport implements Node {
+        id: ID!
+        createdAt: DateTime!
+        updatedAt: DateTime!
+        integrationId: ID!
+        operation: String!
+        status: String!
+        progress: Int!
+        success: Int!
+        failed: Int!
+        errors: [String!]!
+        completedAt: DateTime
+    }
+
+    type IntegrationPayloadTerm {
+        name: String!
+        "null si el término todavía no existe en la plataforma externa"
+        id: Int
+    }
+
+    type IntegrationPayloadDiff {
+        path: String!
+        local: JSON
+        remote: JSON
+    }
+
+    type IntegrationPayloadPreview {
+        integrationId: ID!
+        productId: ID!
+        channelId: ID!
+        externalProductId: String
+        "create, update o recreate"
+        action: String!
+        product: JSON!
+        variations: [JSON!]!
+        categories: [IntegrationPayloadTerm!]!
+        tags: [IntegrationPayloadTerm!]!
+        diff: [IntegrationPayloadDiff!]!
+        remoteError: String
+    }
+
+    type MappingOperationReportList implements PaginatedList {
+        items: [MappingOperationReport!]!
+        totalItems: Int!
+    }
+
+    type IntegrationResyncResult {
+        resyncId: String!
+        totalProducts: Int!
+        totalBatches: Int!
+    }
+
+    type IntegrationResyncProgress {
+        resyncId: String!
+        integrationId: ID!
+        channelId: ID!
+        totalProducts: Int!
+        totalBatches: Int!
+        remainingBatches: Int!
+        progress: Int!
+    }
+
+    type IntegrationConfigFieldError {
+        field: String!
+        code: String!
+        message: String!
+    }
+
+    type IntegrationConfigValidationError implements ErrorResult {
+        errorCode: ErrorCode!
+        message: String!
+        fieldErrors: [IntegrationConfigFieldError!]!
+    }
+
+    extend enum ErrorCode {
+        INTEGRATION_CONFIG_VALIDATION_ERROR
+    }
+
+    enum IntegrationPermissionScope {
+        NONE
+        READ
+        WRITE
+        READ_WRITE
+        UNKNOWN
+    }
+
+    type IntegrationConnectionTestResult {
+        success: Boolean!
+        reachable: Boolean!
+        authenticated: Boolean!
+        scope: IntegrationPermissionScope!
+        wordpressVersion: String
+        woocommerceVersion: String
+        accountId: String
+        accountName: String
+        error: String
+    }
+
+    union CreateIntegrationResult = Integration | IntegrationConfigValidationError
+    union UpdateIntegrationResult = Integration | IntegrationConfigValidationError
+    union TestIntegrationConfigResult = IntegrationConnectionTestResult | IntegrationConfigValidationError
+
     input CreateIntegrationInput {
         name: String!
         type: String!
@@ -39,6 +285,39 @@ export const adminApiExtensions = gql`
         enabledFeatures: [String!]
     }
 
+    input TestIntegrationConfigInput {
+        type: String!
+        config: String!
+        id: ID
+    }
+
+    input LinkProductMappingInput {
+        productId: ID!
+        integrationId: ID!
+        externalProductId: String!
+        externalSku: String
+    }
+
+    input CreateChannelIntegrationInput {
+        channelId: ID!
+        integrationId: ID!
+        enabled: Boolean
+        enabledFeatures: [String!]
+        priceChannelId: ID
+    }
+
+    input UpdateChannelIntegrationInput {
+        id: ID!
+        enabled: Boolean
+        enabledFeatures: [String!]
+        priceChannelId: ID
+    }
+
+    input IntegrationResyncOptions {
+        onlyUnmapped: Boolean
+        changedSince: DateTime
+    }
+
     input UpdateIntegrationInput {
         name: String
         config: String
@@ -49,12 +328,46 @@ export const adminApiExtensions = gql`
     extend type Query {
         integrations(options: IntegrationListOptions): IntegrationList!
         integration(id: ID!): Integration
+        mercadoLibreAuthorizationUrl(id: ID!, redirectUri: String): String!
+        productQuestions(options: ProductQuestionListOptions): ProductQuestionList!
+        productQuestion(id: ID!): ProductQuestion
+        unansweredProductQuestionCounts: [UnansweredProductQuestionCount!]!
+        orderIntegrationMapping(orderId: ID!): OrderIntegrationMapping
+        orderMessages(orderId: ID!): [OrderMessage!]!
+        syncLogEntries(options: SyncLogEntryListOptions): SyncLogEntryList!
+        syncDeadLetters(options: SyncDeadLetterListOptions): SyncDeadLetterList!
+        integrationResyncs: [IntegrationResyncProgress!]!
+        mappingOperationReports(options: MappingOperationReportListOptions): MappingOperationReportList!
+        mappingOperationReport(id: ID!): MappingOperationReport
+        productIntegrationMappings(options: ProductIntegrationMappingListOptions): ProductIntegrationMappingList!
+        previewIntegrationPayload(productId: ID!, integrationId: ID!): IntegrationPayloadPreview!
+        channelIntegrations(channelId: ID!): [ChannelIntegration!]!
     }
 
     extend type Mutation {
-        createIntegration(input: CreateIntegrationInput!): Integration!
-        updateIntegration(id: ID!, input: UpdateIntegrationInput!): Integration
+        createIntegration(input: CreateIntegrationInput!): CreateIntegrationResult!
+        updateIntegration(id: ID!, input: UpdateIntegrationInput!): UpdateIntegrationResult
         deleteIntegration(id: ID!): DeletionResponse!
+        testIntegrationConnection(id: ID!): IntegrationConnectionTestResult!
+        testIntegrationConfig(input: TestIntegrationConfigInput!): TestIntegrationConfigResult!
+        authorizeMercadoLibreIntegration(id: ID!, code: String!, redirectUri: String): Integration!
+        answerProductQuestion(id: ID!, text: String!): ProductQuestion!
+        syncOrderMessages(orderId: ID!): [OrderMessage!]!
+        sendOrderMessage(orderId: ID!, text: String!, assetIds: [ID!]): OrderMessage!
+        redriveSyncDeadLetter(id: ID!): SyncDeadLetter!
+        discardSyncDeadLetter(id: ID!): SyncDeadLetter!
+        resyncIntegration(integrationId: ID!, options: IntegrationResyncOptions): IntegrationResyncResult!
+        resyncChannelProducts(channelId: ID!, options: IntegrationResyncOptions, integrationId: ID): IntegrationResyncResult!
+        rebuildIntegrationMappings(integrationId: ID!): MappingOperationReport!
+        clearIntegrationMappings(integrationId: ID!): MappingOperationReport!
+        importWooCommerceCatalog(integrationId: ID!): MappingOperationReport!
+        linkProductMapping(input: LinkProductMappingInput!): ProductIntegrationMapping!
+        relinkProductMapping(id: ID!, externalProductId: String!): ProductIntegrationMapping!
+        unlinkProductMapping(id: ID!): DeletionResponse!
+        importWooCommerceOrders(integrationId: ID!, since: DateTime): Boolean!
+        createChannelIntegration(input: CreateChannelIntegrationInput!): ChannelIntegration!
+        updateChannelIntegration(input: UpdateChannelIntegrationInput!): ChannelIntegration!
+        deleteChannelIntegration(id: ID!): DeletionResponse!
     }
 
     input IntegrationListOptions {
@@ -80,4 +393,114 @@ export const adminApiExtensions = gql`
         type: StringOperators
         enabled: BooleanOperators
     }
+
+    input ProductQuestionListOptions {
+        skip: Int
+        take: Int
+        sort: ProductQuestionSortParameter
+        filter: ProductQuestionFilterParameter
+    }
+
+    input ProductQuestionSortParameter {
+        id: SortOrder
+        createdAt: SortOrder
+        askedAt: SortOrder
+        answeredAt: SortOrder
+        status: SortOrder
+    }
+
+    input ProductQuestionFilterParameter {
+        integrationId: StringOperators
+        channelId: StringOperators
+        status: StringOperators
+        text: StringOperators
+        askedAt: DateOperators
+    }
+
+    input SyncLogEntryListOptions {
+        skip: Int
+        take: Int
+        sort: SyncLogEntrySortParameter
+        filter: SyncLogEntryFilterParameter
+    }
+
+    input SyncLogEntrySortParameter {
+        id: SortOrder
+        createdAt: SortOrder
+        operation: SortOrder
+        durationMs: SortOrder
+    }
+
+    input SyncLogEntryFilterParameter {
+        integrationId: StringOperators
+        productId: StringOperators
+        channelId: StringOperators
+        operation: StringOperators
+        success: BooleanOperators
+        createdAt: DateOperators
+    }
+
+    input SyncDeadLetterListOptions {
+        skip: Int
+        take: Int
+        sort: SyncDeadLetterSortParameter
+        filter: SyncDeadLetterFilterParameter
+    }
+
+    input SyncDeadLetterSortParameter {
+        id: SortOrder
+        createdAt: SortOrder
+        updatedAt: SortOrder
+    }
+
+    input SyncDeadLetterFilterParameter {
+        integrationId: StringOperators
+        productId: StringOperators
+        status: StringOperators
+        errorKind: StringOperators
+        updatedAt: DateOperators
+    }
+
+    input MappingOperationReportListOptions {
+        skip: Int
+        take: Int
+        sort: MappingOperationReportSortParameter
+        filter: MappingOperationReportFilterParameter
+    }
+
+    input MappingOperationReportSortParameter {
+        id: SortOrder
+        createdAt: SortOrder
+        updatedAt: SortOrder
+    }
+
+    input MappingOperationReportFilterParameter {
+        integrationId: StringOperators
+        operation: StringOperators
+        status: StringOperators
+        createdAt: DateOperators
+    }
+
+    input ProductIntegrationMappingListOptions {
+        skip: Int
+        take: Int
+        sort: ProductIntegrationMappingSortParameter
+        filter: ProductIntegrationMappingFilterParameter
+    }
+
+    input ProductIntegrationMappingSortParameter {
+        id: SortOrder
+        createdAt: SortOrder
+        updatedAt: SortOrder
+        vendureProductId: SortOrder
+        externalProductId: SortOrder
+        externalSku: SortOrder
+    }
+
+    input ProductIntegrationMappingFilterParameter {
+        integrationId: IDOperators
+        vendureProductId: IDOperators
+        externalProductId: StringOperators
+        externalSku: StringOperators
+    }
 `;
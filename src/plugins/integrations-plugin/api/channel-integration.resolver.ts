@@ -0,0 +1,77 @@
+import {
+  Args,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from "@nestjs/graphql";
+import { Allow, Ctx, ID, Permission, RequestContext } from "@vendure/core";
+import { ChannelIntegration } from "../entities/channel-integration.entity";
+import { Integration } from "../entities/integration.entity";
+import {
+  ChannelIntegrationService,
+  CreateChannelIntegrationInput,
+  UpdateChannelIntegrationInput,
+} from "../services/channel-integration.service";
+import { IntegrationService } from "../services/integration.service";
+
+@Resolver()
+export class ChannelIntegrationAdminResolver {
+  constructor(private channelIntegrationService: ChannelIntegrationService) {}
+
+  @Query()
+  @Allow(Permission.ReadSettings)
+  async channelIntegrations(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { channelId: ID },
+  ): Promise<ChannelIntegration[]> {
+    return this.channelIntegrationService.findByChannel(ctx, args.channelId);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async createChannelIntegration(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { input: CreateChannelIntegrationInput },
+  ): Promise<ChannelIntegration> {
+    return this.channelIntegrationService.create(ctx, args.input);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async updateChannelIntegration(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { input: UpdateChannelIntegrationInput },
+  ): Promise<ChannelIntegration> {
+    return this.channelIntegrationService.update(ctx, args.input);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async deleteChannelIntegration(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID },
+  ): Promise<{ result: string; message: string }> {
+    const success = await this.channelIntegrationService.delete(ctx, args.id);
+    return {
+      result: success ? "DELETED" : "NOT_DELETED",
+      message: success
+        ? "Channel integration deleted successfully"
+        : "Channel integration not found",
+    };
+  }
+}
+
+@Resolver("ChannelIntegration")
+export class ChannelIntegrationEntityResolver {
+  constructor(private integrationService: IntegrationService) {}
+
+  @ResolveField()
+  async integration(
+    @Ctx() ctx: RequestContext,
+    @Parent() link: ChannelIntegration,
+  ): Promise<Integration | null> {
+    return this.integrationService.findOne(ctx, link.integrationId);
+  }
+}
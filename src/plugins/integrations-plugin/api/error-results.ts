@@ -0,0 +1,27 @@
+import { ErrorResult } from "@vendure/core";
+import { IntegrationConfigFieldError } from "../integration-features";
+
+/**
+ * Valores que el plugin agrega al enum `ErrorCode` (`extend enum ErrorCode` en
+ * `api-extensions.ts`).
+ */
+export type IntegrationErrorCode = "INTEGRATION_CONFIG_VALIDATION_ERROR";
+
+/**
+ * Resultado de `createIntegration`/`updateIntegration` cuando la configuración no
+ * cumple con la definición del tipo de integración.
+ */
+export class IntegrationConfigValidationError extends ErrorResult {
+  readonly __typename = "IntegrationConfigValidationError";
+  readonly errorCode: IntegrationErrorCode =
+    "INTEGRATION_CONFIG_VALIDATION_ERROR";
+  readonly message: string;
+
+  constructor(public readonly fieldErrors: IntegrationConfigFieldError[]) {
+    super();
+    this.message = `Invalid integration configuration: ${fieldErrors
+      .map((e) => e.field)
+      .filter((field, i, all) => all.indexOf(field) === i)
+      .join(", ")}`;
+  }
+}
@@ -0,0 +1,41 @@
+import { Parent, ResolveField, Resolver } from "@nestjs/graphql";
+import { Ctx, RequestContext } from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import { maskConfig } from "../integration-credentials";
+import { IntegrationRateLimiterService } from "../services/integration-rate-limiter.service";
+import {
+  IntegrationTokenStatus,
+  MercadoLibreAuthService,
+} from "../services/mercadolibre-auth.service";
+
+@Resolver("Integration")
+export class IntegrationEntityResolver {
+  constructor(
+    private mercadoLibreAuthService: MercadoLibreAuthService,
+    private integrationRateLimiterService: IntegrationRateLimiterService,
+  ) {}
+
+  /**
+   * Los secretos nunca salen por la API: se devuelven enmascarados.
+   */
+  @ResolveField()
+  config(@Parent() integration: Integration): Record<string, string> {
+    return maskConfig(integration.config);
+  }
+
+  @ResolveField()
+  tokenStatus(@Parent() integration: Integration): IntegrationTokenStatus {
+    return this.mercadoLibreAuthService.getTokenStatus(integration);
+  }
+
+  @ResolveField()
+  async rateLimitedUntil(
+    @Ctx() ctx: RequestContext,
+    @Parent() integration: Integration,
+  ): Promise<Date | null> {
+    return this.integrationRateLimiterService.getBlockedUntil(
+      ctx,
+      integration.id,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { Args, Query, Resolver } from "@nestjs/graphql";
+import { Allow, Ctx, ID, Permission, RequestContext } from "@vendure/core";
+import {
+  IntegrationPayloadPreview,
+  IntegrationPreviewService,
+} from "../services/integration-preview.service";
+
+@Resolver()
+export class IntegrationPreviewAdminResolver {
+  constructor(private integrationPreviewService: IntegrationPreviewService) {}
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async previewIntegrationPayload(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { productId: ID; integrationId: ID },
+  ): Promise<IntegrationPayloadPreview> {
+    return this.integrationPreviewService.previewWordPressPayload(
+      ctx,
+      args.productId,
+      args.integrationId,
+    );
+  }
+}
@@ -1,6 +1,14 @@
-import { Args, Mutation, Query, Resolver } from "@nestjs/graphql";
+import {
+  Args,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from "@nestjs/graphql";
 import {
   Ctx,
+  isGraphQlErrorResult,
   RequestContext,
   Allow,
   Permission,
@@ -9,14 +17,41 @@ import {
   UserInputError,
 } from "@vendure/core";
 import { IntegrationService } from "../services/integration.service";
+import { MercadoLibreAuthService } from "../services/mercadolibre-auth.service";
+import {
+  IntegrationConnectionService,
+  IntegrationConnectionTestResult,
+} from "../services/integration-connection.service";
 import { Integration, IntegrationType } from "../entities/integration.entity";
-import { IntegrationFeatureId } from "../integration-features";
+import {
+  IntegrationFeatureId,
+  validateIntegrationConfig,
+} from "../integration-features";
+import { mergeConfigUpdate } from "../integration-credentials";
+import { IntegrationConfigValidationError } from "./error-results";
 
 @Resolver()
 export class IntegrationAdminResolver {
-  constructor(private integrationService: IntegrationService) {}
+  constructor(
+    private integrationService: IntegrationService,
+    private mercadoLibreAuthService: MercadoLibreAuthService,
+    private integrationConnectionService: IntegrationConnectionService,
+  ) {}
+
+  private async getMercadoLibreIntegration(
+    ctx: RequestContext,
+    id: ID,
+  ): Promise<Integration> {
+    const integration = await this.integrationService.findOne(ctx, id);
+    if (!integration || integration.type !== "mercadolibre") {
+      throw new UserInputError(`MercadoLibre integration ${id} not found`);
+    }
+    return integration;
+  }
 
-  private parseConfig(config: string): Record<string, string> {
+  private parseConfig(
+    config: string,
+  ): Record<string, string> | IntegrationConfigValidationError {
     try {
       const parsed = JSON.parse(config);
       if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
@@ -24,7 +59,13 @@ export class IntegrationAdminResolver {
       }
       return parsed as Record<string, string>;
     } catch (e) {
-      throw new UserInputError("Invalid integration config JSON");
+      return new IntegrationConfigValidationError([
+        {
+          field: "config",
+          code: "INVALID_JSON",
+          message: "Config must be a JSON object",
+        },
+      ]);
     }
   }
 
@@ -46,6 +87,19 @@ export class IntegrationAdminResolver {
     return this.integrationService.findOne(ctx, args.id);
   }
 
+  @Query()
+  @Allow(Permission.UpdateSettings)
+  async mercadoLibreAuthorizationUrl(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID; redirectUri?: string },
+  ): Promise<string> {
+    const integration = await this.getMercadoLibreIntegration(ctx, args.id);
+    return this.mercadoLibreAuthService.getAuthorizationUrl(
+      integration,
+      args.redirectUri,
+    );
+  }
+
   @Mutation()
   @Allow(Permission.UpdateSettings)
   async createIntegration(
@@ -59,11 +113,24 @@ export class IntegrationAdminResolver {
         enabledFeatures?: string[];
       };
     },
-  ): Promise<Integration> {
+  ): Promise<Integration | IntegrationConfigValidationError> {
+    const config = this.parseConfig(args.input.config);
+    if (config instanceof IntegrationConfigValidationError) {
+      return config;
+    }
+    const errors = validateIntegrationConfig(
+      args.input.type,
+      config,
+      args.input.enabledFeatures,
+    );
+    if (errors.length > 0) {
+      return new IntegrationConfigValidationError(errors);
+    }
+
     return this.integrationService.create(ctx, {
       name: args.input.name,
       type: args.input.type,
-      config: this.parseConfig(args.input.config),
+      config,
       enabledFeatures: (args.input.enabledFeatures ||
         []) as IntegrationFeatureId[],
     });
@@ -83,12 +150,34 @@ export class IntegrationAdminResolver {
         enabledFeatures?: string[];
       };
     },
-  ): Promise<Integration | null> {
+  ): Promise<Integration | IntegrationConfigValidationError | null> {
+    const existing = await this.integrationService.findOne(ctx, args.id);
+    if (!existing) {
+      return null;
+    }
+
+    const config = args.input.config
+      ? this.parseConfig(args.input.config)
+      : undefined;
+    if (config instanceof IntegrationConfigValidationError) {
+      return config;
+    }
+    // Se valida la configuración resultante (los secretos enmascarados u omitidos
+    // conservan el valor guardado). Activar o desactivar la integración no la valida.
+    if (config || args.input.enabledFeatures) {
+      const errors = validateIntegrationConfig(
+        existing.type,
+        config ? mergeConfigUpdate(existing.config, config) : existing.config,
+        args.input.enabledFeatures ?? existing.enabledFeatures,
+      );
+      if (errors.length > 0) {
+        return new IntegrationConfigValidationError(errors);
+      }
+    }
+
     return this.integrationService.update(ctx, args.id, {
       name: args.input.name,
-      config: args.input.config
-        ? this.parseConfig(args.input.config)
-        : undefined,
+      config,
       enabled: args.input.enabled,
       enabledFeatures: args.input.enabledFeatures as
         | IntegrationFeatureId[]
@@ -110,4 +199,112 @@ export class IntegrationAdminResolver {
         : "Integration not found",
     };
   }
+
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async testIntegrationConnection(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID },
+  ): Promise<IntegrationConnectionTestResult> {
+    const integration = await this.integrationService.findOne(ctx, args.id);
+    if (!integration) {
+      throw new UserInputError(`Integration ${args.id} not found`);
+    }
+    return this.integrationConnectionService.testConnection(integration);
+  }
+
+  /**
+   * Prueba una configuración antes de guardarla. Con `id`, los secretos enmascarados
+   * u omitidos toman el valor guardado de esa integración.
+   */
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async testIntegrationConfig(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { input: { type: IntegrationType; config: string; id?: ID } },
+  ): Promise<IntegrationConnectionTestResult | IntegrationConfigValidationError> {
+    const parsed = this.parseConfig(args.input.config);
+    if (parsed instanceof IntegrationConfigValidationError) {
+      return parsed;
+    }
+
+    let config = parsed;
+    if (args.input.id) {
+      const existing = await this.integrationService.findOne(
+        ctx,
+        args.input.id,
+      );
+      if (!existing || existing.type !== args.input.type) {
+        throw new UserInputError(`Integration ${args.input.id} not found`);
+      }
+      config = mergeConfigUpdate(existing.config, parsed);
+    }
+
+    const errors = validateIntegrationConfig(args.input.type, config);
+    if (errors.length > 0) {
+      return new IntegrationConfigValidationError(errors);
+    }
+
+    // Entidad transitoria: sin id ni refresh token, la prueba no persiste cambios.
+    return this.integrationConnectionService.testConnection(
+      new Integration({ type: args.input.type, config }),
+    );
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateSettings)
+  async authorizeMercadoLibreIntegration(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID; code: string; redirectUri?: string },
+  ): Promise<Integration> {
+    const integration = await this.getMercadoLibreIntegration(ctx, args.id);
+    const result = await this.mercadoLibreAuthService.exchangeCode(
+      integration,
+      args.code,
+      args.redirectUri,
+    );
+    if (!result.success) {
+      throw new UserInputError(
+        `Could not authorize MercadoLibre integration: ${result.error}`,
+      );
+    }
+    return integration;
+  }
+}
+
+/**
+ * Vendure solo resuelve el tipo de sus propias uniones de resultados; las del plugin
+ * necesitan su `__resolveType`.
+ */
+@Resolver("CreateIntegrationResult")
+export class CreateIntegrationResultResolver {
+  @ResolveField()
+  __resolveType(
+    @Parent() value: Integration | IntegrationConfigValidationError,
+  ): string {
+    return isGraphQlErrorResult(value) ? value.__typename : "Integration";
+  }
+}
+
+@Resolver("UpdateIntegrationResult")
+export class UpdateIntegrationResultResolver {
+  @ResolveField()
+  __resolveType(
+    @Parent() value: Integration | IntegrationConfigValidationError,
+  ): string {
+    return isGraphQlErrorResult(value) ? value.__typename : "Integration";
+  }
+}
+
+@Resolver("TestIntegrationConfigResult")
+export class TestIntegrationConfigResultResolver {
+  @ResolveField()
+  __resolveType(
+    @Parent()
+    value: IntegrationConnectionTestResult | IntegrationConfigValidationError,
+  ): string {
+    return isGraphQlErrorResult(value)
+      ? value.__typename
+      : "IntegrationConnectionTestResult";
+  }
 }
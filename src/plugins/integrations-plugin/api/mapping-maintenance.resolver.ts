@@ -0,0 +1,77 @@
+import { Args, Mutation, Query, Resolver } from "@nestjs/graphql";
+import {
+  Allow,
+  Ctx,
+  ID,
+  PaginatedList,
+  Permission,
+  RequestContext,
+} from "@vendure/core";
+import { MappingOperationReport } from "../entities/mapping-operation-report.entity";
+import { MappingMaintenanceService } from "../services/mapping-maintenance.service";
+
+@Resolver()
+export class MappingMaintenanceAdminResolver {
+  constructor(private mappingMaintenanceService: MappingMaintenanceService) {}
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async mappingOperationReports(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { options?: any },
+  ): Promise<PaginatedList<MappingOperationReport>> {
+    return this.mappingMaintenanceService.findAll(ctx, args.options);
+  }
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async mappingOperationReport(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID },
+  ): Promise<MappingOperationReport | null> {
+    return this.mappingMaintenanceService.findOne(ctx, args.id);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async rebuildIntegrationMappings(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { integrationId: ID },
+  ): Promise<MappingOperationReport> {
+    return this.mappingMaintenanceService.start(
+      ctx,
+      args.integrationId,
+      "rebuild",
+    );
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async clearIntegrationMappings(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { integrationId: ID },
+  ): Promise<MappingOperationReport> {
+    return this.mappingMaintenanceService.start(
+      ctx,
+      args.integrationId,
+      "clear",
+    );
+  }
+
+  /**
+   * Crea en Vendure los productos de la tienda WooCommerce que todavía no están
+   * vinculados.
+   */
+  @Mutation()
+  @Allow(Permission.CreateCatalog)
+  async importWooCommerceCatalog(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { integrationId: ID },
+  ): Promise<MappingOperationReport> {
+    return this.mappingMaintenanceService.start(
+      ctx,
+      args.integrationId,
+      "import",
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { Body, Controller, HttpCode, Post } from "@nestjs/common";
+import { Ctx, Logger, RequestContext } from "@vendure/core";
+import {
+  MercadoLibreNotification,
+  MercadoLibreOrderService,
+} from "../services/mercadolibre-order.service";
+import { OrderMessageService } from "../services/order-message.service";
+import { ProductQuestionService } from "../services/product-question.service";
+
+const loggerCtx = "MercadoLibreNotificationController";
+
+/**
+ * URL de notificaciones configurada en la aplicación de MercadoLibre. ML reintenta
+ * las notificaciones que no reciben un 200 rápido, por lo que solo se encola el
+ * trabajo; el recurso se consulta luego a la API, nunca se confía en el cuerpo.
+ */
+@Controller("integrations/mercadolibre/notifications")
+export class MercadoLibreNotificationController {
+  constructor(
+    private mercadoLibreOrderService: MercadoLibreOrderService,
+    private productQuestionService: ProductQuestionService,
+    private orderMessageService: OrderMessageService,
+  ) {}
+
+  @Post()
+  @HttpCode(200)
+  async receive(
+    @Ctx() ctx: RequestContext,
+    @Body() notification: MercadoLibreNotification,
+  ) {
+    try {
+      switch (notification?.topic) {
+        case "orders_v2":
+          await this.mercadoLibreOrderService.handleOrderNotification(
+            ctx,
+            notification,
+          );
+          break;
+        case "questions":
+          await this.productQuestionService.handleQuestionNotification(
+            ctx,
+            notification,
+          );
+          break;
+        case "messages":
+          await this.orderMessageService.handleMessageNotification(
+            ctx,
+            notification,
+          );
+          break;
+        default:
+          Logger.debug(
+            `Ignoring MercadoLibre notification topic=${notification?.topic ?? "n/a"}`,
+            loggerCtx,
+          );
+      }
+    } catch (error) {
+      Logger.error(
+        `Error handling MercadoLibre notification topic=${notification?.topic ?? "n/a"}: ${error instanceof Error ? error.message : String(error)}`,
+        loggerCtx,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+    return { received: true };
+  }
+}
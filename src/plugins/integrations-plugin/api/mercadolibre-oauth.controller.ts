@@ -0,0 +1,61 @@
+import { Controller, Get, Query, Res } from "@nestjs/common";
+import { Ctx, Logger, RequestContext } from "@vendure/core";
+import { Response } from "express";
+import { IntegrationService } from "../services/integration.service";
+import { MercadoLibreAuthService } from "../services/mercadolibre-auth.service";
+
+const loggerCtx = "MercadoLibreOAuthController";
+
+/**
+ * Recibe la redirección de MercadoLibre tras autorizar la aplicación y vuelve al
+ * dashboard de integraciones con el resultado.
+ */
+@Controller("integrations/mercadolibre/oauth")
+export class MercadoLibreOAuthController {
+  constructor(
+    private integrationService: IntegrationService,
+    private mercadoLibreAuthService: MercadoLibreAuthService,
+  ) {}
+
+  @Get("callback")
+  async callback(
+    @Ctx() ctx: RequestContext,
+    @Query("code") code: string | undefined,
+    @Query("state") state: string | undefined,
+    @Query("error") error: string | undefined,
+    @Res() res: Response,
+  ) {
+    const integrationId = state
+      ? this.mercadoLibreAuthService.verifyState(state)
+      : null;
+
+    if (error || !code || !integrationId) {
+      Logger.warn(
+        `Rejected MercadoLibre OAuth callback error=${error ?? "n/a"} validState=${integrationId ? "yes" : "no"}`,
+        loggerCtx,
+      );
+      return res.redirect(this.getDashboardUrl("error"));
+    }
+
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration || integration.type !== "mercadolibre") {
+      return res.redirect(this.getDashboardUrl("error"));
+    }
+
+    const result = await this.mercadoLibreAuthService.exchangeCode(
+      integration,
+      code,
+    );
+    return res.redirect(
+      this.getDashboardUrl(result.success ? "connected" : "error"),
+    );
+  }
+
+  private getDashboardUrl(status: "connected" | "error"): string {
+    const appUrl = process.env.APP_URL?.replace(/\/+$/, "") || "";
+    return `${appUrl}/dashboard/integrations?mercadolibre=${status}`;
+  }
+}
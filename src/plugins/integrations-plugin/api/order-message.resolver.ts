@@ -0,0 +1,105 @@
+import {
+  Args,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from "@nestjs/graphql";
+import {
+  Allow,
+  Asset,
+  AssetService,
+  Ctx,
+  ID,
+  Permission,
+  RequestContext,
+  UserInputError,
+} from "@vendure/core";
+import { OrderIntegrationMapping } from "../entities/order-integration-mapping.entity";
+import {
+  OrderMessage,
+  OrderMessageAttachment,
+} from "../entities/order-message.entity";
+import { ExternalOrderService } from "../services/external-order.service";
+import { OrderMessageService } from "../services/order-message.service";
+
+@Resolver()
+export class OrderMessageAdminResolver {
+  constructor(
+    private orderMessageService: OrderMessageService,
+    private externalOrderService: ExternalOrderService,
+  ) {}
+
+  @Query()
+  @Allow(Permission.ReadOrder)
+  async orderIntegrationMapping(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { orderId: ID },
+  ): Promise<OrderIntegrationMapping | null> {
+    return this.externalOrderService.getMappingForOrder(ctx, args.orderId);
+  }
+
+  @Query()
+  @Allow(Permission.ReadOrder)
+  async orderMessages(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { orderId: ID },
+  ): Promise<OrderMessage[]> {
+    return this.orderMessageService.findForOrder(ctx, args.orderId);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateOrder)
+  async syncOrderMessages(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { orderId: ID },
+  ): Promise<OrderMessage[]> {
+    const result = await this.orderMessageService.syncOrderMessages(
+      ctx,
+      args.orderId,
+    );
+    if (!result.success || !result.data) {
+      throw new UserInputError(`Could not sync order messages: ${result.error}`);
+    }
+    return result.data;
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateOrder)
+  async sendOrderMessage(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { orderId: ID; text: string; assetIds?: ID[] },
+  ): Promise<OrderMessage> {
+    const text = args.text.trim();
+    if (!text) {
+      throw new UserInputError("The message cannot be empty");
+    }
+    const result = await this.orderMessageService.sendMessage(
+      ctx,
+      args.orderId,
+      text,
+      args.assetIds ?? [],
+    );
+    if (!result.success || !result.data) {
+      throw new UserInputError(`Could not send order message: ${result.error}`);
+    }
+    return result.data;
+  }
+}
+
+@Resolver("OrderMessageAttachment")
+export class OrderMessageAttachmentResolver {
+  constructor(private assetService: AssetService) {}
+
+  @ResolveField()
+  async asset(
+    @Ctx() ctx: RequestContext,
+    @Parent() attachment: OrderMessageAttachment,
+  ): Promise<Asset | undefined> {
+    if (!attachment.assetId) {
+      return undefined;
+    }
+    return this.assetService.findOne(ctx, attachment.assetId);
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  Args,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from "@nestjs/graphql";
+import {
+  Allow,
+  Ctx,
+  ID,
+  PaginatedList,
+  Permission,
+  Product,
+  ProductService,
+  RequestContext,
+  UserInputError,
+} from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import { ProductIntegrationMapping } from "../entities/product-integration-mapping.entity";
+import { IntegrationService } from "../services/integration.service";
+import { ProductMappingService } from "../services/product-mapping.service";
+import { WordPressService } from "../services/wordpress.service";
+
+interface LinkProductMappingInput {
+  productId: ID;
+  integrationId: ID;
+  externalProductId: string;
+  externalSku?: string | null;
+}
+
+@Resolver()
+export class ProductMappingAdminResolver {
+  constructor(
+    private productMappingService: ProductMappingService,
+    private integrationService: IntegrationService,
+    private productService: ProductService,
+    private wordPressService: WordPressService,
+  ) {}
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async productIntegrationMappings(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { options?: any },
+  ): Promise<PaginatedList<ProductIntegrationMapping>> {
+    return this.productMappingService.findAll(ctx, args.options);
+  }
+
+  /**
+   * Vincula el producto con el producto externo. Si el producto ya tenía un mapping
+   * con la integración, se reemplaza.
+   */
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async linkProductMapping(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { input: LinkProductMappingInput },
+  ): Promise<ProductIntegrationMapping> {
+    const { productId, integrationId } = args.input;
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration) {
+      throw new UserInputError(`Integration ${integrationId} not found`);
+    }
+    const product = await this.productService.findOne(ctx, productId);
+    if (!product) {
+      throw new UserInputError(`Product ${productId} not found`);
+    }
+    return this.link(
+      ctx,
+      integration,
+      product.id,
+      args.input.externalProductId,
+      args.input.externalSku,
+    );
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async relinkProductMapping(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID; externalProductId: string },
+  ): Promise<ProductIntegrationMapping> {
+    const mapping = await this.productMappingService.findOne(ctx, args.id);
+    if (!mapping) {
+      throw new UserInputError(`Product mapping ${args.id} not found`);
+    }
+    const integration = await this.integrationService.findOne(
+      ctx,
+      mapping.integrationId,
+    );
+    if (!integration) {
+      throw new UserInputError(
+        `Integration ${mapping.integrationId} not found`,
+      );
+    }
+    return this.link(
+      ctx,
+      integration,
+      mapping.vendureProductId,
+      args.externalProductId,
+    );
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async unlinkProductMapping(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID },
+  ): Promise<{ result: string; message: string }> {
+    const success = await this.productMappingService.deleteMappingById(
+      ctx,
+      args.id,
+    );
+    return {
+      result: success ? "DELETED" : "NOT_DELETED",
+      message: success
+        ? "Product mapping deleted successfully"
+        : "Product mapping not found",
+    };
+  }
+
+  /**
+   * Valida que el ID externo no esté vinculado a otro producto y, en WordPress, que
+   * el producto exista (de ahí se toma el SKU si no se indicó).
+   */
+  private async link(
+    ctx: RequestContext,
+    integration: Integration,
+    productId: ID,
+    externalProductId: string,
+    externalSku?: string | null,
+  ): Promise<ProductIntegrationMapping> {
+    const externalId = externalProductId.trim();
+    if (!externalId) {
+      throw new UserInputError("External product ID is required");
+    }
+
+    const existing = await this.productMappingService.getMappingByExternalId(
+      ctx,
+      integration.id,
+      externalId,
+    );
+    if (existing && String(existing.vendureProductId) !== String(productId)) {
+      throw new UserInputError(
+        `External product ${externalId} is already linked to product ${existing.vendureProductId}`,
+      );
+    }
+
+    let sku = externalSku ?? undefined;
+    if (integration.type === "wordpress") {
+      const result = await this.wordPressService.getProduct(
+        integration,
+        Number(externalId),
+      );
+      if (!result.success || !result.data) {
+        throw new UserInputError(
+          `WordPress product ${externalId} could not be loaded: ${result.error ?? "not found"}`,
+        );
+      }
+      sku = sku || result.data.sku || undefined;
+    }
+
+    return this.productMappingService.saveMapping(
+      ctx,
+      productId,
+      integration.id,
+      externalId,
+      sku,
+    );
+  }
+}
+
+@Resolver("ProductIntegrationMapping")
+export class ProductIntegrationMappingEntityResolver {
+  constructor(
+    private integrationService: IntegrationService,
+    private productService: ProductService,
+    private wordPressService: WordPressService,
+  ) {}
+
+  @ResolveField()
+  async integration(
+    @Ctx() ctx: RequestContext,
+    @Parent() mapping: ProductIntegrationMapping,
+  ): Promise<Integration | null> {
+    return this.integrationService.findOne(ctx, mapping.integrationId);
+  }
+
+  @ResolveField()
+  async product(
+    @Ctx() ctx: RequestContext,
+    @Parent() mapping: ProductIntegrationMapping,
+  ): Promise<Product | undefined> {
+    return this.productService.findOne(ctx, mapping.vendureProductId);
+  }
+
+  /**
+   * Enlace al producto en el admin de la plataforma externa, si se puede construir.
+   */
+  @ResolveField()
+  async externalUrl(
+    @Ctx() ctx: RequestContext,
+    @Parent() mapping: ProductIntegrationMapping,
+  ): Promise<string | null> {
+    const integration = await this.integrationService.findOne(
+      ctx,
+      mapping.integrationId,
+    );
+    if (integration?.type !== "wordpress") {
+      return null;
+    }
+    return this.wordPressService.getProductAdminUrl(
+      integration,
+      mapping.externalProductId,
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  Args,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from "@nestjs/graphql";
+import {
+  Allow,
+  Ctx,
+  ID,
+  PaginatedList,
+  Permission,
+  Product,
+  ProductService,
+  RequestContext,
+  UserInputError,
+} from "@vendure/core";
+import { ProductQuestion } from "../entities/product-question.entity";
+import {
+  ProductQuestionService,
+  UnansweredQuestionCount,
+} from "../services/product-question.service";
+
+@Resolver()
+export class ProductQuestionAdminResolver {
+  constructor(private productQuestionService: ProductQuestionService) {}
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async productQuestions(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { options?: any },
+  ): Promise<PaginatedList<ProductQuestion>> {
+    return this.productQuestionService.findAll(ctx, args.options);
+  }
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async productQuestion(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID },
+  ): Promise<ProductQuestion | null> {
+    return this.productQuestionService.findOne(ctx, args.id);
+  }
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async unansweredProductQuestionCounts(
+    @Ctx() ctx: RequestContext,
+  ): Promise<UnansweredQuestionCount[]> {
+    return this.productQuestionService.getUnansweredCounts(ctx);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async answerProductQuestion(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID; text: string },
+  ): Promise<ProductQuestion> {
+    const text = args.text.trim();
+    if (!text) {
+      throw new UserInputError("The answer cannot be empty");
+    }
+    const result = await this.productQuestionService.answer(ctx, args.id, text);
+    if (!result.success || !result.data) {
+      throw new UserInputError(
+        `Could not answer product question: ${result.error}`,
+      );
+    }
+    return result.data;
+  }
+}
+
+@Resolver("ProductQuestion")
+export class ProductQuestionEntityResolver {
+  constructor(private productService: ProductService) {}
+
+  @ResolveField()
+  productId(@Parent() question: ProductQuestion): ID | null {
+    return question.vendureProductId;
+  }
+
+  @ResolveField()
+  async product(
+    @Ctx() ctx: RequestContext,
+    @Parent() question: ProductQuestion,
+  ): Promise<Product | undefined> {
+    if (!question.vendureProductId) {
+      return undefined;
+    }
+    return this.productService.findOne(ctx, question.vendureProductId);
+  }
+}
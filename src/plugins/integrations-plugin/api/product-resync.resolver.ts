@@ -0,0 +1,51 @@
+import { Args, Mutation, Query, Resolver } from "@nestjs/graphql";
+import { Allow, Ctx, ID, Permission, RequestContext } from "@vendure/core";
+import {
+  IntegrationResyncOptions,
+  IntegrationResyncProgress,
+  IntegrationResyncResult,
+  ProductResyncService,
+} from "../services/product-resync.service";
+
+@Resolver()
+export class ProductResyncAdminResolver {
+  constructor(private productResyncService: ProductResyncService) {}
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async integrationResyncs(): Promise<IntegrationResyncProgress[]> {
+    return this.productResyncService.getActiveResyncs();
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async resyncIntegration(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { integrationId: ID; options?: IntegrationResyncOptions },
+  ): Promise<IntegrationResyncResult> {
+    return this.productResyncService.resyncIntegration(
+      ctx,
+      args.integrationId,
+      args.options ?? {},
+    );
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async resyncChannelProducts(
+    @Ctx() ctx: RequestContext,
+    @Args()
+    args: {
+      channelId: ID;
+      options?: IntegrationResyncOptions;
+      integrationId?: ID;
+    },
+  ): Promise<IntegrationResyncResult> {
+    return this.productResyncService.resyncChannel(
+      ctx,
+      args.channelId,
+      args.options ?? {},
+      args.integrationId,
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  Args,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from "@nestjs/graphql";
+import {
+  Allow,
+  Ctx,
+  ID,
+  PaginatedList,
+  Permission,
+  Product,
+  ProductService,
+  RequestContext,
+  UserInputError,
+} from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import { SyncDeadLetter } from "../entities/sync-dead-letter.entity";
+import { IntegrationService } from "../services/integration.service";
+import { ProductEventService } from "../services/product-event.service";
+import { SyncDeadLetterService } from "../services/sync-dead-letter.service";
+
+@Resolver()
+export class SyncDeadLetterAdminResolver {
+  constructor(
+    private syncDeadLetterService: SyncDeadLetterService,
+    private productEventService: ProductEventService,
+  ) {}
+
+  private async getPendingDeadLetter(
+    ctx: RequestContext,
+    id: ID,
+  ): Promise<SyncDeadLetter> {
+    const deadLetter = await this.syncDeadLetterService.findOne(ctx, id);
+    if (!deadLetter) {
+      throw new UserInputError(`Sync dead letter ${id} not found`);
+    }
+    if (deadLetter.status !== "PENDING") {
+      throw new UserInputError(
+        `Sync dead letter ${id} was already ${deadLetter.status.toLowerCase()}`,
+      );
+    }
+    return deadLetter;
+  }
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async syncDeadLetters(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { options?: any },
+  ): Promise<PaginatedList<SyncDeadLetter>> {
+    return this.syncDeadLetterService.findAll(ctx, args.options);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async redriveSyncDeadLetter(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID },
+  ): Promise<SyncDeadLetter> {
+    const deadLetter = await this.getPendingDeadLetter(ctx, args.id);
+    return this.productEventService.redriveDeadLetter(ctx, deadLetter);
+  }
+
+  @Mutation()
+  @Allow(Permission.UpdateCatalog)
+  async discardSyncDeadLetter(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { id: ID },
+  ): Promise<SyncDeadLetter> {
+    const deadLetter = await this.getPendingDeadLetter(ctx, args.id);
+    return this.syncDeadLetterService.resolve(ctx, deadLetter, "DISCARDED");
+  }
+}
+
+@Resolver("SyncDeadLetter")
+export class SyncDeadLetterEntityResolver {
+  constructor(
+    private integrationService: IntegrationService,
+    private productService: ProductService,
+  ) {}
+
+  @ResolveField()
+  async integration(
+    @Ctx() ctx: RequestContext,
+    @Parent() deadLetter: SyncDeadLetter,
+  ): Promise<Integration | null> {
+    return this.integrationService.findOne(ctx, deadLetter.integrationId);
+  }
+
+  @ResolveField()
+  async product(
+    @Ctx() ctx: RequestContext,
+    @Parent() deadLetter: SyncDeadLetter,
+  ): Promise<Product | undefined> {
+    return this.productService.findOne(ctx, deadLetter.productId);
+  }
+}
@@ -0,0 +1,39 @@
+import { Args, Parent, Query, ResolveField, Resolver } from "@nestjs/graphql";
+import {
+  Allow,
+  Ctx,
+  PaginatedList,
+  Permission,
+  RequestContext,
+} from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import { SyncLogEntry } from "../entities/sync-log-entry.entity";
+import { IntegrationService } from "../services/integration.service";
+import { SyncLogService } from "../services/sync-log.service";
+
+@Resolver()
+export class SyncLogAdminResolver {
+  constructor(private syncLogService: SyncLogService) {}
+
+  @Query()
+  @Allow(Permission.ReadCatalog)
+  async syncLogEntries(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { options?: any },
+  ): Promise<PaginatedList<SyncLogEntry>> {
+    return this.syncLogService.findAll(ctx, args.options);
+  }
+}
+
+@Resolver("SyncLogEntry")
+export class SyncLogEntryEntityResolver {
+  constructor(private integrationService: IntegrationService) {}
+
+  @ResolveField()
+  async integration(
+    @Ctx() ctx: RequestContext,
+    @Parent() entry: SyncLogEntry,
+  ): Promise<Integration | null> {
+    return this.integrationService.findOne(ctx, entry.integrationId);
+  }
+}
@@ -0,0 +1,24 @@
+import { Args, Mutation, Resolver } from "@nestjs/graphql";
+import { Allow, Ctx, ID, Permission, RequestContext } from "@vendure/core";
+import { WooCommerceOrderService } from "../services/woocommerce-order.service";
+
+@Resolver()
+export class WooCommerceOrderAdminResolver {
+  constructor(private wooCommerceOrderService: WooCommerceOrderService) {}
+
+  /**
+   * Importa las órdenes de WooCommerce modificadas desde `since` (todas si se omite).
+   */
+  @Mutation()
+  @Allow(Permission.CreateOrder)
+  async importWooCommerceOrders(
+    @Ctx() ctx: RequestContext,
+    @Args() args: { integrationId: ID; since?: Date | null },
+  ): Promise<boolean> {
+    return this.wooCommerceOrderService.startBackfill(
+      ctx,
+      args.integrationId,
+      args.since,
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  InternalServerErrorException,
+  Param,
+  Post,
+  RawBodyRequest,
+  Req,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { Ctx, Logger, RequestContext } from "@vendure/core";
+import { Request } from "express";
+import { IntegrationService } from "../services/integration.service";
+import { WooCommerceOrderService } from "../services/woocommerce-order.service";
+import {
+  WooCommerceStockOrder,
+  WooCommerceStockService,
+} from "../services/woocommerce-stock.service";
+import { verifyWooCommerceSignature } from "../woocommerce-webhooks";
+
+const loggerCtx = "WooCommerceWebhookController";
+
+/**
+ * URL de entrega de los webhooks de WooCommerce, una por integración. La firma se
+ * verifica con el secreto del webhook guardado en la configuración de la integración;
+ * el trabajo se encola para responder rápido. Si no se puede encolar se responde 500,
+ * para que WooCommerce registre la entrega como fallida.
+ */
+@Controller("integrations/woocommerce")
+export class WooCommerceWebhookController {
+  constructor(
+    private integrationService: IntegrationService,
+    private wooCommerceOrderService: WooCommerceOrderService,
+    private wooCommerceStockService: WooCommerceStockService,
+  ) {}
+
+  @Post(":integrationId/webhook")
+  @HttpCode(200)
+  async receive(
+    @Ctx() ctx: RequestContext,
+    @Param("integrationId") integrationId: string,
+    @Headers("x-wc-webhook-topic") topic: string | undefined,
+    @Headers("x-wc-webhook-signature") signature: string | undefined,
+    @Req() req: RawBodyRequest<Request>,
+    @Body() body: WooCommerceStockOrder,
+  ) {
+    // Al guardar el webhook, WooCommerce envía un ping (`webhook_id=...`) sin topic
+    // ni firma que debe responderse con 200 para que el webhook quede activo.
+    if (!topic) {
+      return { received: true };
+    }
+
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (
+      !integration ||
+      integration.type !== "wordpress" ||
+      !verifyWooCommerceSignature(
+        req.rawBody,
+        integration.config?.webhookSecret,
+        signature,
+      )
+    ) {
+      Logger.warn(
+        `Rejected WooCommerce webhook topic=${topic} integration=${integrationId}`,
+        loggerCtx,
+      );
+      throw new UnauthorizedException();
+    }
+
+    try {
+      switch (topic) {
+        case "order.created":
+        case "order.updated":
+          await this.wooCommerceOrderService.handleOrderWebhook(
+            integration,
+            body,
+          );
+          await this.wooCommerceStockService.handleOrderWebhook(
+            integration,
+            body,
+          );
+          break;
+        default:
+          Logger.debug(
+            `Ignoring WooCommerce webhook topic=${topic}`,
+            loggerCtx,
+          );
+      }
+    } catch (error) {
+      Logger.error(
+        `Error handling WooCommerce webhook topic=${topic}: ${error instanceof Error ? error.message : String(error)}`,
+        loggerCtx,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException();
+    }
+    return { received: true };
+  }
+}
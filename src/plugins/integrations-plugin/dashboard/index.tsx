@@ -14,13 +14,21 @@ import {
     SheetFooter,
     Input,
     Label,
+    DetailPageButton,
     api,
-    DashboardFormComponent,
 } from '@vendure/dashboard';
 import { graphql } from '@/gql';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { PlugIcon, CheckCircleIcon, PlusCircleIcon, TrashIcon, PowerIcon, PowerOffIcon, Loader2Icon } from 'lucide-react';
+import { PlugIcon, CheckCircleIcon, PlusCircleIcon, TrashIcon, PowerIcon, PowerOffIcon, Loader2Icon, KeyRoundIcon, ActivityIcon, TimerIcon } from 'lucide-react';
 import { useState } from 'react';
+import './product-questions';
+import './order-messages';
+import './sync-history';
+import './sync-dead-letters';
+import { IntegrationResyncControl } from './integration-resync';
+import { MappingMaintenanceControl } from './mapping-maintenance';
+import './integration-detail';
+import './product-mappings';
 
 // ==================== GRAPHQL ====================
 
@@ -34,6 +42,10 @@ const integrationsQuery = graphql(`
                 config
                 enabled
                 enabledFeatures
+                tokenStatus
+                tokenExpiresAt
+                tokenError
+                rateLimitedUntil
                 createdAt
             }
             totalItems
@@ -41,13 +53,29 @@ const integrationsQuery = graphql(`
     }
 `);
 
+const mercadoLibreAuthorizationUrlQuery = graphql(`
+    query GetMercadoLibreAuthorizationUrl($id: ID!) {
+        mercadoLibreAuthorizationUrl(id: $id)
+    }
+`);
+
 const createIntegrationMutation = graphql(`
     mutation CreateIntegration($input: CreateIntegrationInput!) {
         createIntegration(input: $input) {
-            id
-            name
-            type
-            enabled
+            ... on Integration {
+                id
+                name
+                type
+                enabled
+            }
+            ... on IntegrationConfigValidationError {
+                message
+                fieldErrors {
+                    field
+                    code
+                    message
+                }
+            }
         }
     }
 `);
@@ -55,9 +83,44 @@ const createIntegrationMutation = graphql(`
 const updateIntegrationMutation = graphql(`
     mutation UpdateIntegration($id: ID!, $input: UpdateIntegrationInput!) {
         updateIntegration(id: $id, input: $input) {
-            id
-            name
-            enabled
+            ... on Integration {
+                id
+                name
+                enabled
+            }
+            ... on IntegrationConfigValidationError {
+                message
+                fieldErrors {
+                    field
+                    code
+                    message
+                }
+            }
+        }
+    }
+`);
+
+const testIntegrationConfigMutation = graphql(`
+    mutation TestIntegrationConfig($input: TestIntegrationConfigInput!) {
+        testIntegrationConfig(input: $input) {
+            ... on IntegrationConnectionTestResult {
+                success
+                reachable
+                authenticated
+                scope
+                wordpressVersion
+                woocommerceVersion
+                accountName
+                error
+            }
+            ... on IntegrationConfigValidationError {
+                message
+                fieldErrors {
+                    field
+                    code
+                    message
+                }
+            }
         }
     }
 `);
@@ -71,6 +134,54 @@ const deleteIntegrationMutation = graphql(`
     }
 `);
 
+const channelIntegrationsQuery = graphql(`
+    query GetChannelIntegrations($channelId: ID!) {
+        channelIntegrations(channelId: $channelId) {
+            id
+            integrationId
+            enabled
+            enabledFeatures
+            priceChannelId
+        }
+    }
+`);
+
+const channelsForPriceListQuery = graphql(`
+    query GetChannelsForPriceList {
+        channels {
+            items {
+                id
+                code
+            }
+        }
+    }
+`);
+
+const createChannelIntegrationMutation = graphql(`
+    mutation CreateChannelIntegration($input: CreateChannelIntegrationInput!) {
+        createChannelIntegration(input: $input) {
+            id
+        }
+    }
+`);
+
+const updateChannelIntegrationMutation = graphql(`
+    mutation UpdateChannelIntegration($input: UpdateChannelIntegrationInput!) {
+        updateChannelIntegration(input: $input) {
+            id
+        }
+    }
+`);
+
+const deleteChannelIntegrationMutation = graphql(`
+    mutation DeleteChannelIntegration($id: ID!) {
+        deleteChannelIntegration(id: $id) {
+            result
+            message
+        }
+    }
+`);
+
 // ==================== TYPES ====================
 
 interface IntegrationTemplate {
@@ -88,9 +199,15 @@ interface Integration {
     config: Record<string, string>;
     enabled: boolean;
     enabledFeatures: string[];
+    tokenStatus: TokenStatus;
+    tokenExpiresAt: string | null;
+    tokenError: string | null;
+    rateLimitedUntil: string | null;
     createdAt: string;
 }
 
+type TokenStatus = 'NOT_APPLICABLE' | 'NOT_CONNECTED' | 'VALID' | 'EXPIRED' | 'NO_REFRESH_TOKEN' | 'ERROR';
+
 interface IntegrationFeature {
     id: string;
     name: string;
@@ -98,13 +215,54 @@ interface IntegrationFeature {
     icon: string;
 }
 
+interface IntegrationConfigField {
+    key: string;
+    label: string;
+    type: string;
+    placeholder?: string;
+    required?: boolean;
+    options?: Array<{ value: string; label: string }>;
+}
+
 interface IntegrationTypeDefinition {
     id: string;
     name: string;
     description: string;
     icon: string;
     features: IntegrationFeature[];
-    configFields: { key: string; label: string; type: string; placeholder?: string }[];
+    configFields: IntegrationConfigField[];
+}
+
+interface ConnectionTestResult {
+    success: boolean;
+    reachable: boolean;
+    authenticated: boolean;
+    scope: 'NONE' | 'READ' | 'WRITE' | 'READ_WRITE' | 'UNKNOWN';
+    wordpressVersion: string | null;
+    woocommerceVersion: string | null;
+    accountName: string | null;
+    error: string | null;
+}
+
+interface ChannelIntegration {
+    id: string;
+    integrationId: string;
+    enabled: boolean;
+    enabledFeatures: string[];
+    priceChannelId: string | null;
+}
+
+interface UpdateChannelIntegrationInput {
+    id: string;
+    enabled?: boolean;
+    enabledFeatures?: string[];
+    priceChannelId?: string | null;
+}
+
+interface IntegrationConfigFieldError {
+    field: string;
+    code: string;
+    message: string;
 }
 
 // ==================== DATA ====================
@@ -123,9 +281,26 @@ const INTEGRATION_TYPES: Record<string, IntegrationTypeDefinition> = {
         ],
         configFields: [
             { key: 'accountName', label: 'Nombre de la cuenta', type: 'text', placeholder: 'Ej: Mi Tienda ML' },
-            { key: 'clientId', label: 'Client ID', type: 'text', placeholder: 'Tu Client ID de MercadoLibre' },
-            { key: 'clientSecret', label: 'Client Secret', type: 'password', placeholder: 'Tu Client Secret' },
+            { key: 'clientId', label: 'Client ID', type: 'text', placeholder: 'Tu Client ID de MercadoLibre', required: true },
+            { key: 'clientSecret', label: 'Client Secret', type: 'password', placeholder: 'Tu Client Secret', required: true },
             { key: 'accessToken', label: 'Access Token', type: 'password', placeholder: 'Tu Access Token' },
+            { key: 'categoryId', label: 'Categoría por defecto', type: 'text', placeholder: 'Ej: MLA3530' },
+            { key: 'currencyId', label: 'Moneda', type: 'text', placeholder: 'Ej: ARS' },
+            { key: 'listingTypeId', label: 'Tipo de publicación', type: 'text', placeholder: 'Ej: gold_special' },
+            { key: 'shippingMethodCode', label: 'Método de envío para órdenes', type: 'text', placeholder: 'Código del método de envío en Vendure' },
+            { key: 'requestsPerMinute', label: 'Solicitudes por minuto', type: 'number', placeholder: 'Por defecto: 60' },
+            { key: 'maxConcurrency', label: 'Solicitudes simultáneas', type: 'number', placeholder: 'Por defecto: 2' },
+            {
+                key: 'removalPolicy',
+                label: 'Al quitar un producto del canal',
+                type: 'select',
+                placeholder: 'Pausar la publicación',
+                options: [
+                    { value: 'draft', label: 'Pausar la publicación' },
+                    { value: 'delete', label: 'Finalizar la publicación' },
+                    { value: 'keep', label: 'Mantener la publicación' },
+                ],
+            },
         ],
     },
     wordpress: {
@@ -135,18 +310,44 @@ const INTEGRATION_TYPES: Record<string, IntegrationTypeDefinition> = {
         icon: '📝',
         features: [
             { id: 'sync_products', name: 'Sincronizar Productos', description: 'Publica y actualiza productos en WooCommerce', icon: '📦' },
+            { id: 'sync_stock', name: 'Sincronizar Stock', description: 'Descuenta en Vendure el stock vendido en WooCommerce', icon: '📊' },
+            { id: 'sync_orders', name: 'Sincronizar Órdenes', description: 'Importa órdenes de WooCommerce a Vendure', icon: '🛍️' },
         ],
         configFields: [
             { key: 'siteName', label: 'Nombre del sitio', type: 'text', placeholder: 'Ej: Mi Blog WordPress' },
-            { key: 'siteUrl', label: 'URL del sitio', type: 'text', placeholder: 'https://tu-sitio.com' },
-            { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'Tu API Key de WooCommerce' },
-            { key: 'apiSecret', label: 'API Secret', type: 'password', placeholder: 'Tu API Secret' },
+            { key: 'siteUrl', label: 'URL del sitio', type: 'text', placeholder: 'https://tu-sitio.com', required: true },
+            { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'Tu API Key de WooCommerce', required: true },
+            { key: 'apiSecret', label: 'API Secret', type: 'password', placeholder: 'Tu API Secret', required: true },
+            { key: 'webhookSecret', label: 'Secreto del webhook', type: 'password', placeholder: 'Secreto configurado en el webhook de WooCommerce' },
+            { key: 'shippingMethodCode', label: 'Método de envío para órdenes', type: 'text', placeholder: 'Código del método de envío en Vendure' },
+            { key: 'requestsPerMinute', label: 'Solicitudes por minuto', type: 'number', placeholder: 'Por defecto: 60' },
+            { key: 'maxConcurrency', label: 'Solicitudes simultáneas', type: 'number', placeholder: 'Por defecto: 2' },
+            {
+                key: 'removalPolicy',
+                label: 'Al quitar un producto del canal',
+                type: 'select',
+                placeholder: 'Pasar a borrador',
+                options: [
+                    { value: 'draft', label: 'Pasar a borrador' },
+                    { value: 'out_of_stock', label: 'Dejar sin stock' },
+                    { value: 'delete', label: 'Eliminar el producto' },
+                    { value: 'keep', label: 'Mantener el producto' },
+                ],
+            },
         ],
     },
 };
 
 // ==================== HELPERS ====================
 
+/**
+ * Devuelve los errores de validación si la mutación respondió con
+ * `IntegrationConfigValidationError`.
+ */
+function getValidationErrors(result: any): IntegrationConfigFieldError[] | null {
+    return Array.isArray(result?.fieldErrors) ? result.fieldErrors : null;
+}
+
 function getTemplateIcon(type: string): string {
     const icons: Record<string, string> = {
         mercadolibre: '🛒',
@@ -156,14 +357,80 @@ function getTemplateIcon(type: string): string {
     return icons[type] || '🔌';
 }
 
+const TOKEN_STATUS_LABELS: Record<TokenStatus, { label: string; className: string }> = {
+    NOT_APPLICABLE: { label: '', className: '' },
+    NOT_CONNECTED: { label: 'Sin conectar', className: 'bg-gray-100 text-gray-600' },
+    VALID: { label: 'Token válido', className: 'bg-green-100 text-green-800' },
+    EXPIRED: { label: 'Token expirado (se renovará)', className: 'bg-yellow-100 text-yellow-800' },
+    NO_REFRESH_TOKEN: { label: 'Token manual (sin renovación)', className: 'bg-yellow-100 text-yellow-800' },
+    ERROR: { label: 'Reconexión necesaria', className: 'bg-red-100 text-red-800' },
+};
+
+function TokenStatusBadge({ integration }: { integration: Integration }) {
+    const status = TOKEN_STATUS_LABELS[integration.tokenStatus];
+    if (!status?.label) {
+        return null;
+    }
+    const expiresAt = integration.tokenExpiresAt ? new Date(integration.tokenExpiresAt).toLocaleString() : null;
+    const title = integration.tokenError || (expiresAt ? `Expira: ${expiresAt}` : undefined);
+    return (
+        <span title={title} className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${status.className}`}>
+            <KeyRoundIcon className="w-3 h-3" />
+            {status.label}
+        </span>
+    );
+}
+
+function RateLimitBadge({ integration }: { integration: Integration }) {
+    if (!integration.rateLimitedUntil) {
+        return null;
+    }
+    const until = new Date(integration.rateLimitedUntil).toLocaleTimeString();
+    return (
+        <span
+            title="La plataforma respondió 429 (demasiadas solicitudes); las llamadas se reanudan automáticamente"
+            className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800"
+        >
+            <TimerIcon className="w-3 h-3" />
+            Pausada hasta {until}
+        </span>
+    );
+}
+
 // ==================== COMPONENTS ====================
 
+const SCOPE_LABELS: Record<ConnectionTestResult['scope'], string> = {
+    NONE: 'Sin permisos',
+    READ: 'Solo lectura',
+    WRITE: 'Solo escritura',
+    READ_WRITE: 'Lectura y escritura',
+    UNKNOWN: 'No se pudo determinar',
+};
+
+function ConnectionTestSummary({ result }: { result: ConnectionTestResult }) {
+    return (
+        <div className={`rounded-md border p-3 text-sm space-y-1 ${result.success ? 'border-green-500/50' : 'border-destructive/50'}`}>
+            <p className="font-medium">
+                {result.success ? '✅ Conexión correcta' : '❌ La conexión no es válida'}
+            </p>
+            <p>Servidor accesible: {result.reachable ? 'Sí' : 'No'}</p>
+            <p>Credenciales válidas: {result.authenticated ? 'Sí' : 'No'}</p>
+            <p>Permisos: {SCOPE_LABELS[result.scope]}</p>
+            {result.accountName && <p>Cuenta: {result.accountName}</p>}
+            {result.wordpressVersion && <p>WordPress: {result.wordpressVersion}</p>}
+            {result.woocommerceVersion && <p>WooCommerce: {result.woocommerceVersion}</p>}
+            {result.error && <p className="text-xs text-destructive">{result.error}</p>}
+        </div>
+    );
+}
+
 function IntegrationCard({ 
     integration, 
     typeDef, 
     onToggle,
     onRemove,
     onConfigure,
+    onConnect,
     isDeleting,
 }: { 
     integration: Integration; 
@@ -171,6 +438,7 @@ function IntegrationCard({
     onToggle: (id: string, enabled: boolean) => void;
     onRemove: (id: string) => void;
     onConfigure: (integration: Integration) => void;
+    onConnect: (id: string) => void;
     isDeleting: boolean;
 }) {
     const icon = typeDef?.icon || getTemplateIcon(integration.type);
@@ -195,6 +463,8 @@ function IntegrationCard({
                             Inactiva
                         </span>
                     )}
+                    <TokenStatusBadge integration={integration} />
+                    <RateLimitBadge integration={integration} />
                 </div>
                 <p className="text-muted-foreground text-sm mt-1">{description}</p>
                 {totalFeatures > 0 && (
@@ -210,6 +480,17 @@ function IntegrationCard({
                     >
                         Configurar
                     </Button>
+                    <DetailPageButton href={`/integrations/${integration.id}`} label="Ver detalle y mapeos" />
+                    {integration.type === 'mercadolibre' && (
+                        <Button 
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onConnect(integration.id)}
+                        >
+                            <KeyRoundIcon className="w-4 h-4 mr-1" />
+                            {integration.tokenStatus === 'VALID' ? 'Reconectar' : 'Conectar con MercadoLibre'}
+                        </Button>
+                    )}
                     <Button 
                         variant="outline"
                         size="sm"
@@ -243,6 +524,17 @@ function IntegrationCard({
                         )}
                     </Button>
                 </div>
+                {integration.enabled && integration.enabledFeatures?.includes('sync_products') && (
+                    <div className="mt-3">
+                        <IntegrationResyncControl integrationId={integration.id} />
+                    </div>
+                )}
+                <div className="mt-3">
+                    <MappingMaintenanceControl
+                        integrationId={integration.id}
+                        canRebuild={integration.type === 'wordpress'}
+                    />
+                </div>
             </div>
         </Card>
     );
@@ -258,6 +550,8 @@ function IntegrationsPage() {
     const [formData, setFormData] = useState<Record<string, string>>({});
     const [enabledFeatures, setEnabledFeatures] = useState<string[]>([]);
     const [deletingId, setDeletingId] = useState<string | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<IntegrationConfigFieldError[]>([]);
+    const [connectionTest, setConnectionTest] = useState<ConnectionTestResult | null>(null);
 
     // Fetch integrations
     const { data, isLoading } = useQuery({
@@ -271,7 +565,12 @@ function IntegrationsPage() {
     const createMutation = useMutation({
         mutationFn: (input: { name: string; type: string; config: string; enabledFeatures: string[] }) => 
             api.mutate(createIntegrationMutation, { input }),
-        onSuccess: () => {
+        onSuccess: (result) => {
+            const errors = getValidationErrors((result as any)?.createIntegration);
+            if (errors) {
+                setFieldErrors(errors);
+                return;
+            }
             queryClient.invalidateQueries({ queryKey: ['integrations'] });
             handleCloseDrawer();
         },
@@ -279,14 +578,31 @@ function IntegrationsPage() {
 
     // Update mutation
     const updateMutation = useMutation({
-        mutationFn: ({ id, input }: { id: string; input: { enabled?: boolean; enabledFeatures?: string[] } }) => 
+        mutationFn: ({ id, input }: { id: string; input: { config?: string; enabled?: boolean; enabledFeatures?: string[] } }) => 
             api.mutate(updateIntegrationMutation, { id, input }),
-        onSuccess: () => {
+        onSuccess: (result) => {
+            const errors = getValidationErrors((result as any)?.updateIntegration);
+            if (errors) {
+                setFieldErrors(errors);
+                return;
+            }
             queryClient.invalidateQueries({ queryKey: ['integrations'] });
             handleCloseDrawer();
         },
     });
 
+    // Connection test (sin guardar la configuración)
+    const testConfigMutation = useMutation({
+        mutationFn: (input: { type: string; config: string; id?: string }) =>
+            api.mutate(testIntegrationConfigMutation, { input }),
+        onSuccess: (result) => {
+            const testResult = (result as any)?.testIntegrationConfig;
+            const errors = getValidationErrors(testResult);
+            setFieldErrors(errors || []);
+            setConnectionTest(errors ? null : testResult);
+        },
+    });
+
     // Delete mutation
     const deleteMutation = useMutation({
         mutationFn: (id: string) => api.mutate(deleteIntegrationMutation, { id }),
@@ -305,6 +621,8 @@ function IntegrationsPage() {
         setEditingIntegration(null);
         setFormData({});
         setEnabledFeatures(typeDef.features.map(f => f.id)); // All features enabled by default
+        setFieldErrors([]);
+        setConnectionTest(null);
         setIsDrawerOpen(true);
     };
 
@@ -314,11 +632,14 @@ function IntegrationsPage() {
         setEditingIntegration(integration);
         setFormData(integration.config || {});
         setEnabledFeatures(integration.enabledFeatures || []);
+        setFieldErrors([]);
+        setConnectionTest(null);
         setIsDrawerOpen(true);
     };
 
     const handleConfirmInstall = () => {
         if (!selectedType) return;
+        setFieldErrors([]);
         
         const name = formData.accountName || formData.siteName || formData.workspaceName || formData.phoneNumber || selectedType.name;
         
@@ -342,10 +663,28 @@ function IntegrationsPage() {
         }
     };
 
+    const handleTestConnection = () => {
+        if (!selectedType) return;
+        setConnectionTest(null);
+        testConfigMutation.mutate({
+            type: selectedType.id,
+            config: JSON.stringify(formData),
+            id: editingIntegration?.id,
+        });
+    };
+
     const handleToggle = (id: string, enabled: boolean) => {
         updateMutation.mutate({ id, input: { enabled } });
     };
 
+    const handleConnect = async (id: string) => {
+        const result = await api.query(mercadoLibreAuthorizationUrlQuery, { id });
+        const url = (result as any)?.mercadoLibreAuthorizationUrl;
+        if (url) {
+            window.location.href = url;
+        }
+    };
+
     const handleRemove = (id: string) => {
         setDeletingId(id);
         deleteMutation.mutate(id);
@@ -357,6 +696,8 @@ function IntegrationsPage() {
         setEditingIntegration(null);
         setFormData({});
         setEnabledFeatures([]);
+        setFieldErrors([]);
+        setConnectionTest(null);
     };
 
     const toggleFeature = (featureId: string) => {
@@ -393,6 +734,7 @@ function IntegrationsPage() {
                                         onToggle={handleToggle}
                                         onRemove={handleRemove}
                                         onConfigure={handleConfigureClick}
+                                        onConnect={handleConnect}
                                         isDeleting={deletingId === integration.id}
                                     />
                                 );
@@ -459,19 +801,74 @@ function IntegrationsPage() {
                     
                     <div className="py-6 space-y-6">
                         {/* Config fields - show always */}
+                        {fieldErrors.some(e => !selectedType?.configFields.some(f => f.key === e.field)) && (
+                            <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                                {fieldErrors
+                                    .filter(e => !selectedType?.configFields.some(f => f.key === e.field))
+                                    .map(e => <p key={`${e.field}-${e.code}`}>{e.message}</p>)}
+                            </div>
+                        )}
+
                         {selectedType?.configFields.map(field => (
                             <div key={field.key} className="space-y-2">
-                                <Label htmlFor={field.key}>{field.label}</Label>
-                                <Input
-                                    id={field.key}
-                                    type={field.type}
-                                    placeholder={field.placeholder}
-                                    value={formData[field.key] || ''}
-                                    onChange={(e) => setFormData(prev => ({ ...prev, [field.key]: e.target.value }))}
-                                />
+                                <Label htmlFor={field.key}>
+                                    {field.label}
+                                    {field.required && <span className="text-destructive"> *</span>}
+                                </Label>
+                                {field.options ? (
+                                    <select
+                                        id={field.key}
+                                        value={formData[field.key] || ''}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                        className="w-full px-3 py-2 border rounded-md bg-background"
+                                    >
+                                        <option value="">Por defecto: {field.placeholder}</option>
+                                        {field.options.map(option => (
+                                            <option key={option.value} value={option.value}>
+                                                {option.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <Input
+                                        id={field.key}
+                                        type={field.type}
+                                        placeholder={field.placeholder}
+                                        value={formData[field.key] || ''}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                    />
+                                )}
+                                {fieldErrors.filter(e => e.field === field.key).map(e => (
+                                    <p key={e.code} className="text-xs text-destructive">{e.message}</p>
+                                ))}
+                                {field.type === 'password' && editingIntegration && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Se guarda cifrado. Deja el valor enmascarado para conservar el actual.
+                                    </p>
+                                )}
                             </div>
                         ))}
 
+                        {/* Connection test */}
+                        {selectedType && (
+                            <div className="space-y-3">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleTestConnection}
+                                    disabled={testConfigMutation.isPending}
+                                >
+                                    {testConfigMutation.isPending ? (
+                                        <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                                    ) : (
+                                        <ActivityIcon className="w-4 h-4 mr-1" />
+                                    )}
+                                    Probar conexión
+                                </Button>
+                                {connectionTest && <ConnectionTestSummary result={connectionTest} />}
+                            </div>
+                        )}
+
                         {/* Feature toggles */}
                         {selectedType && selectedType.features.length > 0 && (
                             <div className="space-y-3">
@@ -531,15 +928,155 @@ function IntegrationsPage() {
 
 // ==================== INTEGRATION SELECTOR FOR CHANNEL ====================
 
-const IntegrationSelectorComponent: DashboardFormComponent = ({ value, onChange }) => {
-    const { data, isLoading } = useQuery({
+/**
+ * Una integración vinculada al canal: se puede pausar, limitar a algunas de las
+ * funcionalidades de la integración y elegir el canal cuyos precios se envían.
+ */
+function ChannelIntegrationRow({
+    link,
+    integration,
+    channels,
+    isSaving,
+    onUpdate,
+    onRemove,
+}: {
+    link: ChannelIntegration;
+    integration: Integration | undefined;
+    channels: Array<{ id: string; code: string }>;
+    isSaving: boolean;
+    onUpdate: (input: UpdateChannelIntegrationInput) => void;
+    onRemove: () => void;
+}) {
+    const features = (integration ? INTEGRATION_TYPES[integration.type]?.features ?? [] : []).filter(feature =>
+        integration?.enabledFeatures?.includes(feature.id)
+    );
+
+    const toggleFeature = (featureId: string) => {
+        const enabledFeatures = link.enabledFeatures.includes(featureId)
+            ? link.enabledFeatures.filter(f => f !== featureId)
+            : [...link.enabledFeatures, featureId];
+        onUpdate({ id: link.id, enabledFeatures });
+    };
+
+    return (
+        <div className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                    <span>{integration ? getTemplateIcon(integration.type) : '🔗'}</span>
+                    <span className="font-medium truncate">{integration?.name ?? `Integración #${link.integrationId}`}</span>
+                    {(!link.enabled || !integration?.enabled) && (
+                        <span className="text-xs text-muted-foreground">(inactiva)</span>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onUpdate({ id: link.id, enabled: !link.enabled })}
+                        disabled={isSaving}
+                    >
+                        {link.enabled ? <PowerOffIcon className="w-4 h-4" /> : <PowerIcon className="w-4 h-4" />}
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={onRemove} disabled={isSaving}>
+                        <TrashIcon className="w-4 h-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {features.length > 0 && (
+                <div className="space-y-1">
+                    {features.map(feature => (
+                        <label key={feature.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={link.enabledFeatures.includes(feature.id)}
+                                onChange={() => toggleFeature(feature.id)}
+                                disabled={isSaving}
+                                className="w-4 h-4 rounded border-gray-300"
+                            />
+                            <span>{feature.icon}</span>
+                            <span>{feature.name}</span>
+                        </label>
+                    ))}
+                    {link.enabledFeatures.length === 0 && (
+                        <p className="text-xs text-muted-foreground">
+                            Sin selección, el canal usa todas las funcionalidades activas de la integración.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            <div className="space-y-1">
+                <Label className="text-xs">Lista de precios</Label>
+                <select
+                    value={link.priceChannelId ?? ''}
+                    onChange={(e) => onUpdate({ id: link.id, priceChannelId: e.target.value || null })}
+                    disabled={isSaving}
+                    className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+                >
+                    <option value="">Precios de este canal</option>
+                    {channels.map(channel => (
+                        <option key={channel.id} value={channel.id}>
+                            {channel.code}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+}
+
+function ChannelIntegrationsBlock({ channelId }: { channelId: string | undefined }) {
+    const queryClient = useQueryClient();
+    const [selectedIntegrationId, setSelectedIntegrationId] = useState('');
+
+    const { data: integrationsData, isLoading } = useQuery({
         queryKey: ['integrations-for-selector'],
         queryFn: () => api.query(integrationsQuery),
     });
+    const { data: linksData } = useQuery({
+        queryKey: ['channel-integrations', channelId],
+        queryFn: () => api.query(channelIntegrationsQuery, { channelId } as any),
+        enabled: !!channelId,
+    });
+    const { data: channelsData } = useQuery({
+        queryKey: ['channels-for-price-list'],
+        queryFn: () => api.query(channelsForPriceListQuery),
+    });
 
-    const integrations: Integration[] = (data as any)?.integrations?.items || [];
-    const enabledIntegrations = integrations.filter(i => i.enabled);
+    const integrations: Integration[] = (integrationsData as any)?.integrations?.items || [];
+    const links: ChannelIntegration[] = (linksData as any)?.channelIntegrations || [];
+    const channels: Array<{ id: string; code: string }> = (channelsData as any)?.channels?.items || [];
+    const availableIntegrations = integrations.filter(
+        i => i.enabled && !links.some(link => link.integrationId === i.id)
+    );
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['channel-integrations', channelId] });
 
+    const createMutation = useMutation({
+        mutationFn: (integrationId: string) =>
+            api.mutate(createChannelIntegrationMutation, { input: { channelId, integrationId } } as any),
+        onSuccess: () => {
+            setSelectedIntegrationId('');
+            invalidate();
+        },
+    });
+    const updateMutation = useMutation({
+        mutationFn: (input: UpdateChannelIntegrationInput) =>
+            api.mutate(updateChannelIntegrationMutation, { input } as any),
+        onSuccess: invalidate,
+    });
+    const deleteMutation = useMutation({
+        mutationFn: (id: string) => api.mutate(deleteChannelIntegrationMutation, { id } as any),
+        onSuccess: invalidate,
+    });
+    const isSaving = createMutation.isPending || updateMutation.isPending || deleteMutation.isPending;
+    const error = createMutation.error ?? updateMutation.error ?? deleteMutation.error;
+
+    if (!channelId) {
+        return <p className="text-sm text-muted-foreground">Guarda el canal para vincularle integraciones.</p>;
+    }
     if (isLoading) {
         return (
             <div className="flex items-center gap-2 text-muted-foreground text-sm">
@@ -550,32 +1087,58 @@ const IntegrationSelectorComponent: DashboardFormComponent = ({ value, onChange
     }
 
     return (
-        <div className="space-y-2">
-            <select
-                value={value ?? ''}
-                onChange={(e) => onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
-                className="w-full px-3 py-2 border rounded-md bg-background"
-            >
-                <option value="">Sin integración</option>
-                {enabledIntegrations.map(integration => (
-                    <option key={integration.id} value={integration.id}>
-                        {getTemplateIcon(integration.type)} {integration.name}
-                    </option>
-                ))}
-            </select>
-            {enabledIntegrations.length === 0 && (
+        <div className="space-y-3">
+            {links.length === 0 && <p className="text-sm text-muted-foreground">Sin integraciones vinculadas.</p>}
+            {links.map(link => (
+                <ChannelIntegrationRow
+                    key={link.id}
+                    link={link}
+                    integration={integrations.find(i => i.id === link.integrationId)}
+                    channels={channels.filter(c => c.id !== channelId)}
+                    isSaving={isSaving}
+                    onUpdate={input => updateMutation.mutate(input)}
+                    onRemove={() => deleteMutation.mutate(link.id)}
+                />
+            ))}
+
+            {availableIntegrations.length > 0 ? (
+                <div className="flex gap-2">
+                    <select
+                        value={selectedIntegrationId}
+                        onChange={(e) => setSelectedIntegrationId(e.target.value)}
+                        className="flex-1 px-3 py-2 border rounded-md bg-background text-sm"
+                    >
+                        <option value="">Elegir integración...</option>
+                        {availableIntegrations.map(integration => (
+                            <option key={integration.id} value={integration.id}>
+                                {getTemplateIcon(integration.type)} {integration.name}
+                            </option>
+                        ))}
+                    </select>
+                    <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => createMutation.mutate(selectedIntegrationId)}
+                        disabled={!selectedIntegrationId || isSaving}
+                    >
+                        <PlusCircleIcon className="w-4 h-4 mr-1" />
+                        Vincular
+                    </Button>
+                </div>
+            ) : integrations.every(i => !i.enabled) ? (
                 <p className="text-xs text-muted-foreground">
                     No hay integraciones activas. <a href="/dashboard/integrations" className="text-primary underline">Crear una integración</a>
                 </p>
-            )}
-            {value && (
-                <p className="text-xs text-muted-foreground">
-                    Los cambios en productos de este canal se sincronizarán automáticamente con la integración seleccionada.
-                </p>
-            )}
+            ) : null}
+
+            {error && <p className="text-sm text-destructive">{error instanceof Error ? error.message : String(error)}</p>}
+            <p className="text-xs text-muted-foreground">
+                Los cambios se guardan al instante. Al vincular una integración se sincroniza el catálogo del canal; al
+                quitarla, la integración aplica su política para productos quitados.
+            </p>
         </div>
     );
-};
+}
 
 // ==================== DASHBOARD EXTENSION ====================
 
@@ -592,12 +1155,16 @@ export default defineDashboardExtension({
             },
         },
     ],
-    customFormComponents: {
-        customFields: [
-            {
-                id: 'integration-selector',
-                component: IntegrationSelectorComponent,
+    pageBlocks: [
+        {
+            id: 'integration-selector',
+            title: 'Integraciones',
+            location: {
+                pageId: 'channel-detail',
+                column: 'main',
+                position: { blockId: 'channel-defaults', order: 'after' },
             },
-        ],
-    },
+            component: ({ context }) => <ChannelIntegrationsBlock channelId={context.entity?.id} />,
+        },
+    ],
 });
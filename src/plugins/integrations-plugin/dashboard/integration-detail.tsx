@@ -0,0 +1,441 @@
+import {
+    defineDashboardExtension,
+    Page,
+    PageBlock,
+    PageLayout,
+    PageTitle,
+    Badge,
+    Button,
+    DetailPageButton,
+    Input,
+    Label,
+    Tabs,
+    TabsContent,
+    TabsList,
+    TabsTrigger,
+    api,
+    DashboardRouteDefinition,
+} from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    ExternalLinkIcon,
+    Link2Icon,
+    Loader2Icon,
+    PencilIcon,
+    Unlink2Icon,
+} from 'lucide-react';
+import { useState } from 'react';
+import { IntegrationResyncControl } from './integration-resync';
+import { MappingMaintenanceControl } from './mapping-maintenance';
+import { WooCommerceOrderImportControl } from './woocommerce-orders';
+
+// ==================== GRAPHQL ====================
+
+const integrationQuery = graphql(`
+    query GetIntegrationDetail($id: ID!) {
+        integration(id: $id) {
+            id
+            name
+            type
+            enabled
+            enabledFeatures
+            createdAt
+        }
+    }
+`);
+
+const productIntegrationMappingsQuery = graphql(`
+    query GetProductIntegrationMappings($options: ProductIntegrationMappingListOptions) {
+        productIntegrationMappings(options: $options) {
+            items {
+                id
+                updatedAt
+                vendureProductId
+                externalProductId
+                externalSku
+                externalUrl
+                product {
+                    id
+                    name
+                }
+            }
+            totalItems
+        }
+    }
+`);
+
+const linkProductMappingMutation = graphql(`
+    mutation LinkProductMapping($input: LinkProductMappingInput!) {
+        linkProductMapping(input: $input) {
+            id
+        }
+    }
+`);
+
+const relinkProductMappingMutation = graphql(`
+    mutation RelinkProductMapping($id: ID!, $externalProductId: String!) {
+        relinkProductMapping(id: $id, externalProductId: $externalProductId) {
+            id
+        }
+    }
+`);
+
+const unlinkProductMappingMutation = graphql(`
+    mutation UnlinkProductMapping($id: ID!) {
+        unlinkProductMapping(id: $id) {
+            result
+            message
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+interface IntegrationDetail {
+    id: string;
+    name: string;
+    type: string;
+    enabled: boolean;
+    enabledFeatures: string[];
+    createdAt: string;
+}
+
+interface ProductIntegrationMapping {
+    id: string;
+    updatedAt: string;
+    vendureProductId: string;
+    externalProductId: string;
+    externalSku: string | null;
+    externalUrl: string | null;
+    product: { id: string; name: string } | null;
+}
+
+type MappingSearchField = 'externalProductId' | 'externalSku' | 'vendureProductId';
+
+const SEARCH_FIELDS: { id: MappingSearchField; label: string }[] = [
+    { id: 'externalProductId', label: 'ID externo' },
+    { id: 'externalSku', label: 'SKU' },
+    { id: 'vendureProductId', label: 'ID de producto' },
+];
+
+const PAGE_SIZE = 20;
+
+// ==================== COMPONENTS ====================
+
+function getMappingFilter(integrationId: string, field: MappingSearchField, term: string) {
+    const filter: Record<string, any> = { integrationId: { eq: integrationId } };
+    const value = term.trim();
+    if (value) {
+        filter[field] = field === 'vendureProductId' ? { eq: value } : { contains: value };
+    }
+    return filter;
+}
+
+function MappingRow({ mapping }: { mapping: ProductIntegrationMapping }) {
+    const queryClient = useQueryClient();
+    const [isEditing, setIsEditing] = useState(false);
+    const [externalProductId, setExternalProductId] = useState(mapping.externalProductId);
+
+    const onSuccess = () => {
+        setIsEditing(false);
+        queryClient.invalidateQueries({ queryKey: ['product-integration-mappings'] });
+    };
+    const relinkMutation = useMutation({
+        mutationFn: () => api.mutate(relinkProductMappingMutation, { id: mapping.id, externalProductId }),
+        onSuccess,
+    });
+    const unlinkMutation = useMutation({
+        mutationFn: () => api.mutate(unlinkProductMappingMutation, { id: mapping.id }),
+        onSuccess,
+    });
+    const error = (relinkMutation.error || unlinkMutation.error) as Error | null;
+
+    const handleUnlink = () => {
+        if (window.confirm('Se eliminará el vínculo con el producto externo. ¿Continuar?')) {
+            unlinkMutation.mutate();
+        }
+    };
+
+    return (
+        <tr className="border-b last:border-0 align-top">
+            <td className="py-2 pr-4">
+                <DetailPageButton
+                    href={`/products/${mapping.vendureProductId}`}
+                    label={mapping.product?.name ?? `Producto ${mapping.vendureProductId}`}
+                    className="px-0"
+                />
+                <p className="text-xs text-muted-foreground">ID {mapping.vendureProductId}</p>
+            </td>
+            <td className="py-2 pr-4">
+                {isEditing ? (
+                    <div className="flex gap-2">
+                        <Input
+                            value={externalProductId}
+                            onChange={(e) => setExternalProductId(e.target.value)}
+                            className="h-8 w-32"
+                        />
+                        <Button size="sm" onClick={() => relinkMutation.mutate()} disabled={relinkMutation.isPending}>
+                            {relinkMutation.isPending && <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />}
+                            Guardar
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+                            Cancelar
+                        </Button>
+                    </div>
+                ) : mapping.externalUrl ? (
+                    <a
+                        href={mapping.externalUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 hover:underline"
+                    >
+                        #{mapping.externalProductId}
+                        <ExternalLinkIcon className="w-3 h-3" />
+                    </a>
+                ) : (
+                    <span>#{mapping.externalProductId}</span>
+                )}
+                {error && <p className="text-xs text-destructive mt-1">{error.message || 'Ocurrió un error'}</p>}
+            </td>
+            <td className="py-2 pr-4 text-muted-foreground">{mapping.externalSku || '—'}</td>
+            <td className="py-2 pr-4 text-xs text-muted-foreground whitespace-nowrap">
+                {new Date(mapping.updatedAt).toLocaleString()}
+            </td>
+            <td className="py-2 text-right whitespace-nowrap">
+                {!isEditing && (
+                    <div className="inline-flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                            <PencilIcon className="w-4 h-4 mr-1" />
+                            Revincular
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={handleUnlink} disabled={unlinkMutation.isPending}>
+                            <Unlink2Icon className="w-4 h-4 mr-1" />
+                            Desvincular
+                        </Button>
+                    </div>
+                )}
+            </td>
+        </tr>
+    );
+}
+
+function LinkMappingForm({ integrationId }: { integrationId: string }) {
+    const queryClient = useQueryClient();
+    const [productId, setProductId] = useState('');
+    const [externalProductId, setExternalProductId] = useState('');
+
+    const linkMutation = useMutation({
+        mutationFn: () =>
+            api.mutate(linkProductMappingMutation, {
+                input: { productId, integrationId, externalProductId },
+            }),
+        onSuccess: () => {
+            setProductId('');
+            setExternalProductId('');
+            queryClient.invalidateQueries({ queryKey: ['product-integration-mappings'] });
+        },
+    });
+
+    return (
+        <div className="border rounded-md p-3 space-y-2">
+            <div className="flex items-end gap-2 flex-wrap">
+                <div className="space-y-1">
+                    <Label htmlFor="mapping-product-id">ID de producto</Label>
+                    <Input
+                        id="mapping-product-id"
+                        value={productId}
+                        onChange={(e) => setProductId(e.target.value)}
+                        className="w-40"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="mapping-external-id">ID externo</Label>
+                    <Input
+                        id="mapping-external-id"
+                        value={externalProductId}
+                        onChange={(e) => setExternalProductId(e.target.value)}
+                        className="w-40"
+                    />
+                </div>
+                <Button
+                    size="sm"
+                    onClick={() => linkMutation.mutate()}
+                    disabled={!productId.trim() || !externalProductId.trim() || linkMutation.isPending}
+                >
+                    {linkMutation.isPending ? (
+                        <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                        <Link2Icon className="w-4 h-4 mr-1" />
+                    )}
+                    Vincular
+                </Button>
+            </div>
+            {linkMutation.isError && (
+                <p className="text-xs text-destructive">
+                    {(linkMutation.error as Error)?.message || 'Ocurrió un error'}
+                </p>
+            )}
+        </div>
+    );
+}
+
+function MappingsTab({ integrationId }: { integrationId: string }) {
+    const [searchField, setSearchField] = useState<MappingSearchField>('externalProductId');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [page, setPage] = useState(0);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['product-integration-mappings', integrationId, searchField, searchTerm, page],
+        queryFn: () =>
+            api.query(productIntegrationMappingsQuery, {
+                options: {
+                    skip: page * PAGE_SIZE,
+                    take: PAGE_SIZE,
+                    sort: { updatedAt: 'DESC' },
+                    filter: getMappingFilter(integrationId, searchField, searchTerm),
+                },
+            } as any),
+    });
+    const mappings: ProductIntegrationMapping[] = (data as any)?.productIntegrationMappings?.items || [];
+    const totalItems: number = (data as any)?.productIntegrationMappings?.totalItems ?? 0;
+    const pageCount = Math.max(1, Math.ceil(totalItems / PAGE_SIZE));
+
+    return (
+        <div className="space-y-4">
+            <LinkMappingForm integrationId={integrationId} />
+
+            <div className="flex gap-2">
+                <select
+                    value={searchField}
+                    onChange={(e) => {
+                        setSearchField(e.target.value as MappingSearchField);
+                        setPage(0);
+                    }}
+                    className="border rounded-md px-2 text-sm bg-background"
+                >
+                    {SEARCH_FIELDS.map(field => (
+                        <option key={field.id} value={field.id}>
+                            {field.label}
+                        </option>
+                    ))}
+                </select>
+                <Input
+                    placeholder="Buscar..."
+                    value={searchTerm}
+                    onChange={(e) => {
+                        setSearchTerm(e.target.value);
+                        setPage(0);
+                    }}
+                    className="max-w-xs"
+                />
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                    <Loader2Icon className="w-8 h-8 animate-spin text-muted-foreground" />
+                </div>
+            ) : mappings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No hay productos vinculados que coincidan con la búsqueda.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b text-left text-xs text-muted-foreground">
+                            <th className="py-2 pr-4 font-medium">Producto</th>
+                            <th className="py-2 pr-4 font-medium">ID externo</th>
+                            <th className="py-2 pr-4 font-medium">SKU</th>
+                            <th className="py-2 pr-4 font-medium">Actualizado</th>
+                            <th className="py-2" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {mappings.map(mapping => (
+                            <MappingRow key={mapping.id} mapping={mapping} />
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {totalItems > PAGE_SIZE && (
+                <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                    <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </Button>
+                    {page + 1} / {pageCount}
+                    <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount}>
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function IntegrationDetailPage({ route }: { route: Parameters<DashboardRouteDefinition['component']>[0] }) {
+    const integrationId: string = (route.useParams() as any).id;
+    const { data, isLoading } = useQuery({
+        queryKey: ['integration', integrationId],
+        queryFn: () => api.query(integrationQuery, { id: integrationId }),
+    });
+    const integration: IntegrationDetail | null = (data as any)?.integration ?? null;
+
+    return (
+        <Page pageId="integration-detail">
+            <PageTitle>{integration?.name ?? 'Integración'}</PageTitle>
+            <PageLayout>
+                <PageBlock column="main" blockId="integration-detail-tabs">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12">
+                            <Loader2Icon className="w-8 h-8 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : !integration ? (
+                        <p className="text-sm text-muted-foreground">La integración no existe.</p>
+                    ) : (
+                        <Tabs defaultValue="general">
+                            <TabsList>
+                                <TabsTrigger value="general">General</TabsTrigger>
+                                <TabsTrigger value="mappings">Mapeos</TabsTrigger>
+                            </TabsList>
+                            <TabsContent value="general" className="space-y-4 pt-4">
+                                <div className="flex items-center gap-2">
+                                    <Badge variant="outline">{integration.type}</Badge>
+                                    <Badge variant={integration.enabled ? 'success' : 'secondary'}>
+                                        {integration.enabled ? 'Activa' : 'Inactiva'}
+                                    </Badge>
+                                </div>
+                                {integration.enabled && integration.enabledFeatures.includes('sync_products') && (
+                                    <IntegrationResyncControl integrationId={integration.id} />
+                                )}
+                                {integration.type === 'wordpress' &&
+                                    integration.enabled &&
+                                    integration.enabledFeatures.includes('sync_orders') && (
+                                        <WooCommerceOrderImportControl integrationId={integration.id} />
+                                    )}
+                                <MappingMaintenanceControl
+                                    integrationId={integration.id}
+                                    canRebuild={integration.type === 'wordpress'}
+                                />
+                            </TabsContent>
+                            <TabsContent value="mappings" className="pt-4">
+                                <MappingsTab integrationId={integration.id} />
+                            </TabsContent>
+                        </Tabs>
+                    )}
+                </PageBlock>
+            </PageLayout>
+        </Page>
+    );
+}
+
+// ==================== DASHBOARD EXTENSION ====================
+
+defineDashboardExtension({
+    routes: [
+        {
+            path: '/integrations/$id',
+            component: (route) => <IntegrationDetailPage route={route} />,
+        },
+    ],
+});
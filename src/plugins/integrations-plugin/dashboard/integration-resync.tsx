@@ -0,0 +1,160 @@
+import {
+    defineDashboardExtension,
+    Button,
+    Input,
+    Label,
+    api,
+} from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2Icon, RefreshCwIcon } from 'lucide-react';
+import { useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const integrationResyncsQuery = graphql(`
+    query GetIntegrationResyncs {
+        integrationResyncs {
+            resyncId
+            integrationId
+            channelId
+            totalProducts
+            totalBatches
+            remainingBatches
+            progress
+        }
+    }
+`);
+
+const resyncIntegrationMutation = graphql(`
+    mutation ResyncIntegration($integrationId: ID!, $options: IntegrationResyncOptions) {
+        resyncIntegration(integrationId: $integrationId, options: $options) {
+            resyncId
+            totalProducts
+            totalBatches
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+interface IntegrationResyncProgress {
+    resyncId: string;
+    integrationId: string;
+    channelId: string;
+    totalProducts: number;
+    totalBatches: number;
+    remainingBatches: number;
+    progress: number;
+}
+
+interface IntegrationResyncResult {
+    resyncId: string;
+    totalProducts: number;
+    totalBatches: number;
+}
+
+// ==================== COMPONENTS ====================
+
+/**
+ * Botón de la tarjeta de integración que abre las opciones de la resincronización
+ * completa del catálogo y la encola.
+ */
+export function IntegrationResyncControl({ integrationId }: { integrationId: string }) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [onlyUnmapped, setOnlyUnmapped] = useState(false);
+    const [changedSince, setChangedSince] = useState('');
+    const [result, setResult] = useState<IntegrationResyncResult | null>(null);
+
+    const resyncMutation = useMutation({
+        mutationFn: () =>
+            api.mutate(resyncIntegrationMutation, {
+                integrationId,
+                options: {
+                    onlyUnmapped,
+                    changedSince: changedSince ? new Date(changedSince).toISOString() : null,
+                },
+            } as any),
+        onSuccess: (data) => {
+            setResult((data as any)?.resyncIntegration ?? null);
+            setIsOpen(false);
+        },
+    });
+
+    return (
+        <div className="w-full space-y-2">
+            <Button variant="outline" size="sm" onClick={() => setIsOpen(open => !open)}>
+                <RefreshCwIcon className="w-4 h-4 mr-1" />
+                Resincronizar catálogo
+            </Button>
+
+            {isOpen && (
+                <div className="border rounded-md p-3 space-y-3 text-sm">
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={onlyUnmapped}
+                            onChange={(e) => setOnlyUnmapped(e.target.checked)}
+                            className="w-4 h-4"
+                        />
+                        Solo productos que todavía no están vinculados
+                    </label>
+                    <div className="space-y-1">
+                        <Label htmlFor={`resync-changed-since-${integrationId}`}>Solo modificados desde</Label>
+                        <Input
+                            id={`resync-changed-since-${integrationId}`}
+                            type="date"
+                            value={changedSince}
+                            onChange={(e) => setChangedSince(e.target.value)}
+                        />
+                    </div>
+                    <Button size="sm" onClick={() => resyncMutation.mutate()} disabled={resyncMutation.isPending}>
+                        {resyncMutation.isPending && <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />}
+                        Iniciar resincronización
+                    </Button>
+                </div>
+            )}
+
+            {result && (
+                <p className="text-xs text-muted-foreground">
+                    {result.totalProducts > 0
+                        ? `${result.totalProducts} producto${result.totalProducts !== 1 ? 's' : ''} encolado${result.totalProducts !== 1 ? 's' : ''} en ${result.totalBatches} lote${result.totalBatches !== 1 ? 's' : ''}.`
+                        : 'No hay productos que coincidan con los filtros.'}
+                </p>
+            )}
+            {resyncMutation.isError && (
+                <p className="text-xs text-destructive">
+                    {(resyncMutation.error as Error)?.message || 'Ocurrió un error'}
+                </p>
+            )}
+        </div>
+    );
+}
+
+// ==================== DASHBOARD EXTENSION ====================
+
+defineDashboardExtension({
+    alerts: [
+        {
+            id: 'integration-resync-progress',
+            title: (resyncs: IntegrationResyncProgress[]) =>
+                resyncs.length === 1
+                    ? `Resincronización de catálogo en curso (${resyncs[0].progress}%)`
+                    : `${resyncs.length} resincronizaciones de catálogo en curso`,
+            description: (resyncs: IntegrationResyncProgress[]) =>
+                resyncs
+                    .map(
+                        resync =>
+                            `Canal ${resync.channelId}: ${resync.progress}% de ${resync.totalProducts} productos (${resync.remainingBatches} de ${resync.totalBatches} lotes pendientes)`,
+                    )
+                    .join(' · '),
+            severity: 'info',
+            check: async () => {
+                const data = await api.query(integrationResyncsQuery, {});
+                return ((data as any)?.integrationResyncs ?? []) as IntegrationResyncProgress[];
+            },
+            shouldShow: (resyncs: IntegrationResyncProgress[]) => resyncs.length > 0,
+            recheckInterval: 10_000,
+        },
+    ],
+});
@@ -0,0 +1,223 @@
+import { Badge, Button, api } from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DownloadIcon, EraserIcon, Link2Icon, Loader2Icon } from 'lucide-react';
+import { useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const latestMappingOperationReportQuery = graphql(`
+    query GetLatestMappingOperationReport($options: MappingOperationReportListOptions) {
+        mappingOperationReports(options: $options) {
+            items {
+                id
+                createdAt
+                operation
+                status
+                progress
+                success
+                failed
+                errors
+                completedAt
+            }
+        }
+    }
+`);
+
+const rebuildIntegrationMappingsMutation = graphql(`
+    mutation RebuildIntegrationMappings($integrationId: ID!) {
+        rebuildIntegrationMappings(integrationId: $integrationId) {
+            id
+            status
+        }
+    }
+`);
+
+const importWooCommerceCatalogMutation = graphql(`
+    mutation ImportWooCommerceCatalog($integrationId: ID!) {
+        importWooCommerceCatalog(integrationId: $integrationId) {
+            id
+            status
+        }
+    }
+`);
+
+const clearIntegrationMappingsMutation = graphql(`
+    mutation ClearIntegrationMappings($integrationId: ID!) {
+        clearIntegrationMappings(integrationId: $integrationId) {
+            id
+            status
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+interface MappingOperationReport {
+    id: string;
+    createdAt: string;
+    operation: 'rebuild' | 'clear' | 'import';
+    status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+    progress: number;
+    success: number;
+    failed: number;
+    errors: string[];
+    completedAt: string | null;
+}
+
+const STATUS_LABELS: Record<MappingOperationReport['status'], string> = {
+    PENDING: 'En cola',
+    RUNNING: 'En curso',
+    COMPLETED: 'Completada',
+    FAILED: 'Fallida',
+};
+
+const OPERATION_LABELS: Record<MappingOperationReport['operation'], string> = {
+    rebuild: 'Reconstrucción de mapeos',
+    clear: 'Borrado de mapeos',
+    import: 'Importación de catálogo',
+};
+
+const MAX_VISIBLE_ERRORS = 5;
+
+// ==================== COMPONENTS ====================
+
+function MappingOperationReportSummary({ report }: { report: MappingOperationReport }) {
+    const [showAllErrors, setShowAllErrors] = useState(false);
+    const isActive = report.status === 'PENDING' || report.status === 'RUNNING';
+    const errors = showAllErrors ? report.errors : report.errors.slice(0, MAX_VISIBLE_ERRORS);
+
+    return (
+        <div className="border rounded-md p-3 space-y-1 text-sm">
+            <div className="flex items-center gap-2">
+                <span className="font-medium">{OPERATION_LABELS[report.operation]}</span>
+                <Badge variant={report.status === 'FAILED' ? 'destructive' : report.status === 'COMPLETED' ? 'success' : 'secondary'}>
+                    {STATUS_LABELS[report.status]}
+                    {isActive && ` · ${report.progress}%`}
+                </Badge>
+                <span className="text-xs text-muted-foreground">
+                    {new Date(report.completedAt ?? report.createdAt).toLocaleString()}
+                </span>
+            </div>
+            {report.status === 'COMPLETED' && (
+                <p className="text-xs text-muted-foreground">
+                    {report.operation === 'rebuild'
+                        ? `${report.success} vinculados · ${report.failed} sin vincular`
+                        : report.operation === 'import'
+                          ? `${report.success} importados o vinculados · ${report.failed} con error`
+                          : `${report.success} mapeos eliminados`}
+                </p>
+            )}
+            {errors.length > 0 && (
+                <ul className="text-xs text-destructive space-y-0.5">
+                    {errors.map((error, index) => (
+                        <li key={index} className="break-all">{error}</li>
+                    ))}
+                </ul>
+            )}
+            {report.errors.length > MAX_VISIBLE_ERRORS && (
+                <button type="button" className="text-xs underline" onClick={() => setShowAllErrors(show => !show)}>
+                    {showAllErrors ? 'Ver menos' : `Ver los ${report.errors.length} errores`}
+                </button>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Acciones de mantenimiento de los mapeos de productos de la integración (y, en
+ * WordPress, la importación del catálogo), con el resultado de la última operación.
+ */
+export function MappingMaintenanceControl({
+    integrationId,
+    canRebuild,
+}: {
+    integrationId: string;
+    canRebuild: boolean;
+}) {
+    const queryClient = useQueryClient();
+    const queryKey = ['mapping-operation-report', integrationId];
+
+    const { data } = useQuery({
+        queryKey,
+        queryFn: () =>
+            api.query(latestMappingOperationReportQuery, {
+                options: {
+                    take: 1,
+                    sort: { createdAt: 'DESC' },
+                    filter: { integrationId: { eq: integrationId } },
+                },
+            } as any),
+        refetchInterval: (query) => {
+            const status = (query.state.data as any)?.mappingOperationReports?.items?.[0]?.status;
+            return status === 'PENDING' || status === 'RUNNING' ? 2000 : false;
+        },
+    });
+    const report: MappingOperationReport | undefined = (data as any)?.mappingOperationReports?.items?.[0];
+    const isActive = report?.status === 'PENDING' || report?.status === 'RUNNING';
+
+    const onSuccess = () => {
+        queryClient.invalidateQueries({ queryKey });
+    };
+    const rebuildMutation = useMutation({
+        mutationFn: () => api.mutate(rebuildIntegrationMappingsMutation, { integrationId }),
+        onSuccess,
+    });
+    const importMutation = useMutation({
+        mutationFn: () => api.mutate(importWooCommerceCatalogMutation, { integrationId }),
+        onSuccess,
+    });
+    const clearMutation = useMutation({
+        mutationFn: () => api.mutate(clearIntegrationMappingsMutation, { integrationId }),
+        onSuccess,
+    });
+    const isPending = isActive || rebuildMutation.isPending || importMutation.isPending || clearMutation.isPending;
+    const error = rebuildMutation.error || importMutation.error || clearMutation.error;
+
+    const handleClear = () => {
+        if (window.confirm('Se eliminarán todos los mapeos de productos de esta integración. ¿Continuar?')) {
+            clearMutation.mutate();
+        }
+    };
+
+    return (
+        <div className="w-full space-y-2">
+            <div className="flex gap-2 flex-wrap">
+                {canRebuild && (
+                    <Button variant="outline" size="sm" onClick={() => rebuildMutation.mutate()} disabled={isPending}>
+                        {rebuildMutation.isPending ? (
+                            <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                        ) : (
+                            <Link2Icon className="w-4 h-4 mr-1" />
+                        )}
+                        Reconstruir mapeos
+                    </Button>
+                )}
+                {canRebuild && (
+                    <Button variant="outline" size="sm" onClick={() => importMutation.mutate()} disabled={isPending}>
+                        {importMutation.isPending ? (
+                            <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                        ) : (
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                        )}
+                        Importar catálogo
+                    </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={handleClear} disabled={isPending}>
+                    {clearMutation.isPending ? (
+                        <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                        <EraserIcon className="w-4 h-4 mr-1" />
+                    )}
+                    Borrar mapeos
+                </Button>
+            </div>
+            {report && <MappingOperationReportSummary report={report} />}
+            {error && (
+                <p className="text-xs text-destructive">
+                    {(error as Error)?.message || 'Ocurrió un error'}
+                </p>
+            )}
+        </div>
+    );
+}
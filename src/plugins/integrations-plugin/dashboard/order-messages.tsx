@@ -0,0 +1,297 @@
+import {
+    defineDashboardExtension,
+    Button,
+    Textarea,
+    api,
+} from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2Icon, PaperclipIcon, RefreshCwIcon, SendIcon, XIcon } from 'lucide-react';
+import { useRef, useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const orderIntegrationMappingQuery = graphql(`
+    query GetOrderIntegrationMapping($orderId: ID!) {
+        orderIntegrationMapping(orderId: $orderId) {
+            id
+            externalOrderId
+            externalPackId
+        }
+    }
+`);
+
+const orderMessagesQuery = graphql(`
+    query GetOrderMessages($orderId: ID!) {
+        orderMessages(orderId: $orderId) {
+            id
+            direction
+            text
+            sentAt
+            readAt
+            attachments {
+                name
+                mimeType
+                asset {
+                    id
+                    source
+                }
+            }
+        }
+    }
+`);
+
+const syncOrderMessagesMutation = graphql(`
+    mutation SyncOrderMessages($orderId: ID!) {
+        syncOrderMessages(orderId: $orderId) {
+            id
+        }
+    }
+`);
+
+const sendOrderMessageMutation = graphql(`
+    mutation SendOrderMessage($orderId: ID!, $text: String!, $assetIds: [ID!]) {
+        sendOrderMessage(orderId: $orderId, text: $text, assetIds: $assetIds) {
+            id
+        }
+    }
+`);
+
+const uploadAttachmentsMutation = graphql(`
+    mutation UploadOrderMessageAttachments($input: [CreateAssetInput!]!) {
+        createAssets(input: $input) {
+            ... on Asset {
+                id
+            }
+            ... on MimeTypeError {
+                message
+            }
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+interface OrderMessage {
+    id: string;
+    direction: 'INBOUND' | 'OUTBOUND';
+    text: string;
+    sentAt: string;
+    readAt: string | null;
+    attachments: {
+        name: string;
+        mimeType: string | null;
+        asset: { id: string; source: string } | null;
+    }[];
+}
+
+// ==================== COMPONENTS ====================
+
+function MessageBubble({ message }: { message: OrderMessage }) {
+    const isOutbound = message.direction === 'OUTBOUND';
+    return (
+        <div className={`flex ${isOutbound ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${isOutbound ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                <p className="whitespace-pre-wrap">{message.text}</p>
+                {message.attachments.length > 0 && (
+                    <div className="mt-2 space-y-1">
+                        {message.attachments.map((attachment, index) => (
+                            attachment.asset ? (
+                                <a
+                                    key={index}
+                                    href={attachment.asset.source}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="flex items-center gap-1 underline text-xs"
+                                >
+                                    <PaperclipIcon className="w-3 h-3" />
+                                    {attachment.name}
+                                </a>
+                            ) : (
+                                <span key={index} className="flex items-center gap-1 text-xs opacity-70">
+                                    <PaperclipIcon className="w-3 h-3" />
+                                    {attachment.name} (no disponible)
+                                </span>
+                            )
+                        ))}
+                    </div>
+                )}
+                <p className="text-[10px] opacity-70 mt-1">
+                    {new Date(message.sentAt).toLocaleString()}
+                    {isOutbound && message.readAt && ' · Leído'}
+                </p>
+            </div>
+        </div>
+    );
+}
+
+function OrderMessagesBlock({ orderId }: { orderId: string }) {
+    const queryClient = useQueryClient();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [text, setText] = useState('');
+    const [files, setFiles] = useState<File[]>([]);
+
+    const { data: mappingData, isLoading: isLoadingMapping } = useQuery({
+        queryKey: ['order-integration-mapping', orderId],
+        queryFn: () => api.query(orderIntegrationMappingQuery, { orderId }),
+    });
+    const mapping = (mappingData as any)?.orderIntegrationMapping;
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['order-messages', orderId],
+        queryFn: () => api.query(orderMessagesQuery, { orderId }),
+        enabled: !!mapping,
+    });
+    const messages: OrderMessage[] = (data as any)?.orderMessages || [];
+
+    const syncMutation = useMutation({
+        mutationFn: () => api.mutate(syncOrderMessagesMutation, { orderId }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['order-messages', orderId] });
+        },
+    });
+
+    const sendMutation = useMutation({
+        mutationFn: async () => {
+            let assetIds: string[] = [];
+            if (files.length > 0) {
+                const upload = await api.mutate(uploadAttachmentsMutation, {
+                    input: files.map(file => ({ file })),
+                } as any);
+                const results: any[] = (upload as any)?.createAssets || [];
+                const failed = results.find(r => !r.id);
+                if (failed) {
+                    throw new Error(failed.message || 'No se pudo subir el adjunto');
+                }
+                assetIds = results.map(r => r.id);
+            }
+            return api.mutate(sendOrderMessageMutation, { orderId, text, assetIds });
+        },
+        onSuccess: () => {
+            setText('');
+            setFiles([]);
+            queryClient.invalidateQueries({ queryKey: ['order-messages', orderId] });
+        },
+    });
+
+    if (isLoadingMapping) {
+        return (
+            <div className="flex items-center justify-center py-6">
+                <Loader2Icon className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    if (!mapping) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                Esta orden no fue importada desde una integración.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                    Orden externa #{mapping.externalPackId || mapping.externalOrderId}
+                </p>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => syncMutation.mutate()}
+                    disabled={syncMutation.isPending}
+                >
+                    <RefreshCwIcon className={`w-4 h-4 mr-1 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+                    Actualizar
+                </Button>
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center py-6">
+                    <Loader2Icon className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+            ) : messages.length > 0 ? (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {messages.map(message => (
+                        <MessageBubble key={message.id} message={message} />
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">Sin mensajes con el comprador.</p>
+            )}
+
+            <div className="space-y-2">
+                <Textarea
+                    placeholder="Escribe un mensaje al comprador..."
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                />
+                {files.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {files.map((file, index) => (
+                            <span key={index} className="inline-flex items-center gap-1 text-xs bg-muted px-2 py-1 rounded-full">
+                                <PaperclipIcon className="w-3 h-3" />
+                                {file.name}
+                                <button onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}>
+                                    <XIcon className="w-3 h-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+                {(sendMutation.isError || syncMutation.isError) && (
+                    <p className="text-xs text-destructive">
+                        {((sendMutation.error || syncMutation.error) as Error)?.message || 'Ocurrió un error'}
+                    </p>
+                )}
+                <div className="flex justify-between">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            const selected = Array.from(e.target.files || []);
+                            setFiles(prev => [...prev, ...selected]);
+                            e.target.value = '';
+                        }}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                        <PaperclipIcon className="w-4 h-4 mr-1" />
+                        Adjuntar
+                    </Button>
+                    <Button
+                        size="sm"
+                        onClick={() => sendMutation.mutate()}
+                        disabled={!text.trim() || sendMutation.isPending}
+                    >
+                        {sendMutation.isPending ? (
+                            <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                        ) : (
+                            <SendIcon className="w-4 h-4 mr-1" />
+                        )}
+                        Enviar
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// ==================== DASHBOARD EXTENSION ====================
+
+defineDashboardExtension({
+    pageBlocks: [
+        {
+            id: 'order-messages',
+            title: 'Mensajes con el comprador',
+            location: {
+                pageId: 'order-detail',
+                column: 'main',
+                position: { blockId: 'order-history', order: 'before' },
+            },
+            component: ({ context }) => <OrderMessagesBlock orderId={context.entity?.id} />,
+        },
+    ],
+});
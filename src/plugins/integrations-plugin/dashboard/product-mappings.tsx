@@ -0,0 +1,305 @@
+import {
+    defineDashboardExtension,
+    Badge,
+    Button,
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    api,
+} from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useQuery } from '@tanstack/react-query';
+import { EyeIcon, ExternalLinkIcon, Loader2Icon } from 'lucide-react';
+import { useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const productMappingsQuery = graphql(`
+    query GetProductMappingsForProduct($options: ProductIntegrationMappingListOptions) {
+        productIntegrationMappings(options: $options) {
+            items {
+                id
+                externalProductId
+                externalUrl
+                integration {
+                    id
+                    name
+                }
+            }
+        }
+    }
+`);
+
+const wordPressIntegrationsQuery = graphql(`
+    query GetIntegrationsForPayloadPreview {
+        integrations {
+            items {
+                id
+                name
+                type
+                enabled
+            }
+        }
+    }
+`);
+
+const previewIntegrationPayloadQuery = graphql(`
+    query PreviewIntegrationPayload($productId: ID!, $integrationId: ID!) {
+        previewIntegrationPayload(productId: $productId, integrationId: $integrationId) {
+            externalProductId
+            action
+            product
+            variations
+            categories {
+                name
+                id
+            }
+            tags {
+                name
+                id
+            }
+            diff {
+                path
+                local
+                remote
+            }
+            remoteError
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+interface ProductMapping {
+    id: string;
+    externalProductId: string;
+    externalUrl: string | null;
+    integration: { id: string; name: string } | null;
+}
+
+interface PayloadTerm {
+    name: string;
+    id: number | null;
+}
+
+interface PayloadPreview {
+    externalProductId: string | null;
+    action: 'create' | 'update' | 'recreate';
+    product: Record<string, unknown>;
+    variations: Record<string, unknown>[];
+    categories: PayloadTerm[];
+    tags: PayloadTerm[];
+    diff: Array<{ path: string; local: unknown; remote: unknown }>;
+    remoteError: string | null;
+}
+
+const ACTION_LABELS: Record<PayloadPreview['action'], string> = {
+    create: 'Se creará el producto',
+    update: 'Se actualizará el producto',
+    recreate: 'Se recreará el producto (cambia el tipo simple/variable)',
+};
+
+// ==================== COMPONENTS ====================
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+        return '—';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function PayloadTerms({ label, terms }: { label: string; terms: PayloadTerm[] }) {
+    if (terms.length === 0) {
+        return null;
+    }
+    return (
+        <div className="flex flex-wrap items-center gap-1 text-sm">
+            <span className="text-muted-foreground mr-1">{label}:</span>
+            {terms.map(term => (
+                <Badge key={term.name} variant={term.id ? 'outline' : 'secondary'}>
+                    {term.name}
+                    {term.id ? ` #${term.id}` : ' (nueva)'}
+                </Badge>
+            ))}
+        </div>
+    );
+}
+
+function PayloadPreviewContent({ productId, integrationId }: { productId: string; integrationId: string }) {
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['integration-payload-preview', productId, integrationId],
+        queryFn: () => api.query(previewIntegrationPayloadQuery, { productId, integrationId }),
+        // Siempre se compara contra el estado actual de la plataforma externa.
+        gcTime: 0,
+    });
+    const preview: PayloadPreview | undefined = (data as any)?.previewIntegrationPayload;
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center py-12">
+                <Loader2Icon className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+    if (error || !preview) {
+        return <p className="text-sm text-destructive">{error instanceof Error ? error.message : 'No se pudo generar la vista previa.'}</p>;
+    }
+
+    return (
+        <div className="space-y-4 min-w-0">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={preview.action === 'update' ? 'outline' : 'secondary'}>{ACTION_LABELS[preview.action]}</Badge>
+                {preview.externalProductId && (
+                    <span className="text-muted-foreground">ID externo #{preview.externalProductId}</span>
+                )}
+            </div>
+            {preview.remoteError && <p className="text-sm text-destructive">{preview.remoteError}</p>}
+
+            <PayloadTerms label="Categorías" terms={preview.categories} />
+            <PayloadTerms label="Etiquetas" terms={preview.tags} />
+
+            {preview.action !== 'create' && (
+                <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Diferencias con el producto remoto</h4>
+                    {preview.diff.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Sin diferencias en los campos enviados.</p>
+                    ) : (
+                        <table className="w-full text-sm table-fixed">
+                            <thead>
+                                <tr className="border-b text-left text-xs text-muted-foreground">
+                                    <th className="py-2 pr-4 font-medium">Campo</th>
+                                    <th className="py-2 pr-4 font-medium">Vendure</th>
+                                    <th className="py-2 font-medium">Remoto</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {preview.diff.map(entry => (
+                                    <tr key={entry.path} className="border-b align-top">
+                                        <td className="py-2 pr-4 font-mono text-xs break-all">{entry.path}</td>
+                                        <td className="py-2 pr-4 break-words">{formatValue(entry.local)}</td>
+                                        <td className="py-2 break-words">{formatValue(entry.remote)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <h4 className="text-sm font-medium">Payload</h4>
+                <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {JSON.stringify({ product: preview.product, variations: preview.variations }, null, 2)}
+                </pre>
+            </div>
+        </div>
+    );
+}
+
+function PayloadPreviewDialog({ productId, integration }: { productId: string; integration: { id: string; name: string } }) {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-1">
+                    <EyeIcon className="w-3 h-3" />
+                    Vista previa {integration.name}
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Vista previa de sincronización con {integration.name}</DialogTitle>
+                </DialogHeader>
+                {open && <PayloadPreviewContent productId={productId} integrationId={integration.id} />}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function PayloadPreviewButtons({ productId }: { productId: string }) {
+    const { data } = useQuery({
+        queryKey: ['integrations-for-payload-preview'],
+        queryFn: () => api.query(wordPressIntegrationsQuery),
+    });
+    const integrations: Array<{ id: string; name: string; type: string; enabled: boolean }> =
+        (data as any)?.integrations?.items || [];
+    const wordPressIntegrations = integrations.filter(i => i.enabled && i.type === 'wordpress');
+
+    if (wordPressIntegrations.length === 0) {
+        return null;
+    }
+    return (
+        <div className="flex flex-wrap gap-2">
+            {wordPressIntegrations.map(integration => (
+                <PayloadPreviewDialog key={integration.id} productId={productId} integration={integration} />
+            ))}
+        </div>
+    );
+}
+
+function ProductMappingsBlock({ productId }: { productId: string }) {
+    const { data, isLoading } = useQuery({
+        queryKey: ['product-integration-mappings', 'product', productId],
+        queryFn: () =>
+            api.query(productMappingsQuery, {
+                options: { filter: { vendureProductId: { eq: productId } } },
+            } as any),
+        enabled: !!productId,
+    });
+    const mappings: ProductMapping[] = (data as any)?.productIntegrationMappings?.items || [];
+
+    if (isLoading) {
+        return null;
+    }
+    if (mappings.length === 0) {
+        return (
+            <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">Sin vincular con plataformas externas.</p>
+                <PayloadPreviewButtons productId={productId} />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+                {mappings.map(mapping => {
+                    const label = `${mapping.integration?.name ?? 'Integración eliminada'} #${mapping.externalProductId}`;
+                    return mapping.externalUrl ? (
+                        <a key={mapping.id} href={mapping.externalUrl} target="_blank" rel="noreferrer">
+                            <Badge variant="outline" className="gap-1">
+                                {label}
+                                <ExternalLinkIcon className="w-3 h-3" />
+                            </Badge>
+                        </a>
+                    ) : (
+                        <Badge key={mapping.id} variant="outline">
+                            {label}
+                        </Badge>
+                    );
+                })}
+            </div>
+            <PayloadPreviewButtons productId={productId} />
+        </div>
+    );
+}
+
+// ==================== DASHBOARD EXTENSION ====================
+
+defineDashboardExtension({
+    pageBlocks: [
+        {
+            id: 'product-integration-mappings',
+            title: 'Plataformas externas',
+            location: {
+                pageId: 'product-detail',
+                column: 'side',
+                position: { blockId: 'facet-values', order: 'after' },
+            },
+            component: ({ context }) => <ProductMappingsBlock productId={context.entity?.id} />,
+        },
+    ],
+});
@@ -0,0 +1,301 @@
+import {
+    defineDashboardExtension,
+    Page,
+    PageBlock,
+    PageLayout,
+    PageTitle,
+    Card,
+    Button,
+    Badge,
+    Textarea,
+    api,
+} from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2Icon, MessageCircleQuestionIcon, SendIcon } from 'lucide-react';
+import { useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const productQuestionsQuery = graphql(`
+    query GetProductQuestions($options: ProductQuestionListOptions) {
+        productQuestions(options: $options) {
+            items {
+                id
+                text
+                status
+                askedAt
+                answerText
+                answeredAt
+                channelId
+                externalItemId
+                product {
+                    id
+                    name
+                }
+            }
+            totalItems
+        }
+    }
+`);
+
+const unansweredCountsQuery = graphql(`
+    query GetUnansweredProductQuestionCounts {
+        unansweredProductQuestionCounts {
+            channelId
+            channelCode
+            count
+        }
+    }
+`);
+
+const answerProductQuestionMutation = graphql(`
+    mutation AnswerProductQuestion($id: ID!, $text: String!) {
+        answerProductQuestion(id: $id, text: $text) {
+            id
+            status
+            answerText
+            answeredAt
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+type StatusFilter = 'UNANSWERED' | 'ANSWERED' | 'ALL';
+
+interface ProductQuestion {
+    id: string;
+    text: string;
+    status: string;
+    askedAt: string;
+    answerText: string | null;
+    answeredAt: string | null;
+    channelId: string | null;
+    externalItemId: string;
+    product: { id: string; name: string } | null;
+}
+
+interface UnansweredCount {
+    channelId: string | null;
+    channelCode: string | null;
+    count: number;
+}
+
+const STATUS_FILTERS: { id: StatusFilter; label: string }[] = [
+    { id: 'UNANSWERED', label: 'Sin responder' },
+    { id: 'ANSWERED', label: 'Respondidas' },
+    { id: 'ALL', label: 'Todas' },
+];
+
+const STATUS_LABELS: Record<string, string> = {
+    UNANSWERED: 'Sin responder',
+    ANSWERED: 'Respondida',
+    CLOSED_UNANSWERED: 'Cerrada sin respuesta',
+    UNDER_REVIEW: 'En revisión',
+    BANNED: 'Bloqueada',
+    DELETED: 'Eliminada',
+    DISABLED: 'Deshabilitada',
+};
+
+// ==================== COMPONENTS ====================
+
+function QuestionCard({ question }: { question: ProductQuestion }) {
+    const queryClient = useQueryClient();
+    const [answer, setAnswer] = useState('');
+
+    const answerMutation = useMutation({
+        mutationFn: () => api.mutate(answerProductQuestionMutation, { id: question.id, text: answer }),
+        onSuccess: () => {
+            setAnswer('');
+            queryClient.invalidateQueries({ queryKey: ['product-questions'] });
+            queryClient.invalidateQueries({ queryKey: ['product-questions-unanswered-counts'] });
+        },
+    });
+
+    return (
+        <Card className="p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <p className="font-medium">{question.text}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                        {question.product ? (
+                            <a href={`/dashboard/products/${question.product.id}`} className="underline">
+                                {question.product.name}
+                            </a>
+                        ) : (
+                            `Publicación ${question.externalItemId} (sin producto vinculado)`
+                        )}
+                        {' · '}
+                        {new Date(question.askedAt).toLocaleString()}
+                    </p>
+                </div>
+                <Badge variant={question.status === 'UNANSWERED' ? 'destructive' : 'secondary'}>
+                    {STATUS_LABELS[question.status] ?? question.status}
+                </Badge>
+            </div>
+
+            {question.answerText && (
+                <div className="text-sm bg-muted/50 rounded-md p-3">
+                    <span className="font-medium">Respuesta: </span>
+                    {question.answerText}
+                </div>
+            )}
+
+            {question.status === 'UNANSWERED' && (
+                <div className="space-y-2">
+                    <Textarea
+                        placeholder="Escribe tu respuesta..."
+                        value={answer}
+                        onChange={(e) => setAnswer(e.target.value)}
+                    />
+                    {answerMutation.isError && (
+                        <p className="text-xs text-destructive">
+                            {(answerMutation.error as Error)?.message || 'No se pudo enviar la respuesta'}
+                        </p>
+                    )}
+                    <div className="flex justify-end">
+                        <Button
+                            size="sm"
+                            onClick={() => answerMutation.mutate()}
+                            disabled={!answer.trim() || answerMutation.isPending}
+                        >
+                            {answerMutation.isPending ? (
+                                <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                            ) : (
+                                <SendIcon className="w-4 h-4 mr-1" />
+                            )}
+                            Responder
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+}
+
+// ==================== PAGE ====================
+
+function ProductQuestionsPage() {
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('UNANSWERED');
+    const [channelId, setChannelId] = useState<string | null>(null);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['product-questions', statusFilter, channelId],
+        queryFn: () =>
+            api.query(productQuestionsQuery, {
+                options: {
+                    take: 50,
+                    sort: { askedAt: 'DESC' },
+                    filter: {
+                        ...(statusFilter !== 'ALL' ? { status: { eq: statusFilter } } : {}),
+                        ...(channelId ? { channelId: { eq: channelId } } : {}),
+                    },
+                },
+            } as any),
+    });
+
+    const { data: countsData } = useQuery({
+        queryKey: ['product-questions-unanswered-counts'],
+        queryFn: () => api.query(unansweredCountsQuery),
+    });
+
+    const questions: ProductQuestion[] = (data as any)?.productQuestions?.items || [];
+    const totalItems: number = (data as any)?.productQuestions?.totalItems ?? 0;
+    const counts: UnansweredCount[] = (countsData as any)?.unansweredProductQuestionCounts || [];
+    const totalUnanswered = counts.reduce((sum, c) => sum + c.count, 0);
+
+    return (
+        <Page pageId="product-questions">
+            <PageTitle>Preguntas de productos</PageTitle>
+            <PageLayout>
+                <PageBlock
+                    column="main"
+                    blockId="product-questions-list"
+                    title="Preguntas"
+                    description={`${totalItems} pregunta${totalItems !== 1 ? 's' : ''}`}
+                >
+                    <div className="flex gap-2 mb-4">
+                        {STATUS_FILTERS.map(filter => (
+                            <Button
+                                key={filter.id}
+                                size="sm"
+                                variant={statusFilter === filter.id ? 'default' : 'outline'}
+                                onClick={() => setStatusFilter(filter.id)}
+                            >
+                                {filter.label}
+                            </Button>
+                        ))}
+                    </div>
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12">
+                            <Loader2Icon className="w-8 h-8 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : questions.length > 0 ? (
+                        <div className="space-y-3">
+                            {questions.map(question => (
+                                <QuestionCard key={question.id} question={question} />
+                            ))}
+                        </div>
+                    ) : (
+                        <Card className="p-12">
+                            <div className="text-center">
+                                <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                                    <MessageCircleQuestionIcon className="w-8 h-8 text-muted-foreground/50" />
+                                </div>
+                                <h3 className="text-lg font-semibold mb-2">Sin preguntas</h3>
+                                <p className="text-muted-foreground text-sm">
+                                    Las preguntas de MercadoLibre aparecerán aquí cuando la integración tenga activa la funcionalidad de preguntas.
+                                </p>
+                            </div>
+                        </Card>
+                    )}
+                </PageBlock>
+
+                <PageBlock
+                    column="side"
+                    blockId="product-questions-channels"
+                    title="Sin responder por canal"
+                    description={`${totalUnanswered} pendiente${totalUnanswered !== 1 ? 's' : ''}`}
+                >
+                    <div className="space-y-2">
+                        <button
+                            onClick={() => setChannelId(null)}
+                            className={`w-full flex items-center justify-between p-3 rounded-lg text-left transition-colors ${channelId === null ? 'bg-muted' : 'bg-muted/50 hover:bg-muted'}`}
+                        >
+                            <span className="font-medium">Todos los canales</span>
+                            <Badge variant="secondary">{totalUnanswered}</Badge>
+                        </button>
+                        {counts.filter(c => c.channelId).map(c => (
+                            <button
+                                key={c.channelId}
+                                onClick={() => setChannelId(c.channelId)}
+                                className={`w-full flex items-center justify-between p-3 rounded-lg text-left transition-colors ${channelId === c.channelId ? 'bg-muted' : 'bg-muted/50 hover:bg-muted'}`}
+                            >
+                                <span>{c.channelCode ?? c.channelId}</span>
+                                <Badge variant="destructive">{c.count}</Badge>
+                            </button>
+                        ))}
+                    </div>
+                </PageBlock>
+            </PageLayout>
+        </Page>
+    );
+}
+
+// ==================== DASHBOARD EXTENSION ====================
+
+defineDashboardExtension({
+    routes: [
+        {
+            path: '/product-questions',
+            component: () => <ProductQuestionsPage />,
+            navMenuItem: {
+                id: 'product-questions',
+                sectionId: 'catalog',
+                title: 'Preguntas',
+                order: 450,
+            },
+        },
+    ],
+});
@@ -0,0 +1,241 @@
+import {
+    defineDashboardExtension,
+    Page,
+    PageBlock,
+    PageLayout,
+    PageTitle,
+    Card,
+    Button,
+    Badge,
+    api,
+} from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangleIcon, Loader2Icon, RotateCcwIcon, XIcon } from 'lucide-react';
+import { useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const syncDeadLettersQuery = graphql(`
+    query GetSyncDeadLetters($options: SyncDeadLetterListOptions) {
+        syncDeadLetters(options: $options) {
+            items {
+                id
+                updatedAt
+                eventType
+                errorKind
+                responseStatus
+                error
+                attempts
+                occurrences
+                status
+                resolvedAt
+                productId
+                product {
+                    id
+                    name
+                }
+                integration {
+                    id
+                    name
+                }
+            }
+            totalItems
+        }
+    }
+`);
+
+const redriveSyncDeadLetterMutation = graphql(`
+    mutation RedriveSyncDeadLetter($id: ID!) {
+        redriveSyncDeadLetter(id: $id) {
+            id
+            status
+        }
+    }
+`);
+
+const discardSyncDeadLetterMutation = graphql(`
+    mutation DiscardSyncDeadLetter($id: ID!) {
+        discardSyncDeadLetter(id: $id) {
+            id
+            status
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+type DeadLetterStatus = 'PENDING' | 'REDRIVEN' | 'DISCARDED';
+
+interface SyncDeadLetter {
+    id: string;
+    updatedAt: string;
+    eventType: string;
+    errorKind: 'transient' | 'permanent';
+    responseStatus: number | null;
+    error: string;
+    attempts: number;
+    occurrences: number;
+    status: DeadLetterStatus;
+    resolvedAt: string | null;
+    productId: string;
+    product: { id: string; name: string } | null;
+    integration: { id: string; name: string } | null;
+}
+
+const STATUS_FILTERS: { id: DeadLetterStatus; label: string }[] = [
+    { id: 'PENDING', label: 'Pendientes' },
+    { id: 'REDRIVEN', label: 'Reencoladas' },
+    { id: 'DISCARDED', label: 'Descartadas' },
+];
+
+// ==================== COMPONENTS ====================
+
+function DeadLetterCard({ deadLetter }: { deadLetter: SyncDeadLetter }) {
+    const queryClient = useQueryClient();
+
+    const onSuccess = () => {
+        queryClient.invalidateQueries({ queryKey: ['sync-dead-letters'] });
+    };
+    const redriveMutation = useMutation({
+        mutationFn: () => api.mutate(redriveSyncDeadLetterMutation, { id: deadLetter.id }),
+        onSuccess,
+    });
+    const discardMutation = useMutation({
+        mutationFn: () => api.mutate(discardSyncDeadLetterMutation, { id: deadLetter.id }),
+        onSuccess,
+    });
+    const isPending = redriveMutation.isPending || discardMutation.isPending;
+
+    return (
+        <Card className="p-4 space-y-2">
+            <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                        <span className="font-semibold">
+                            {deadLetter.product?.name ?? `Producto ${deadLetter.productId}`}
+                        </span>
+                        <Badge variant={deadLetter.errorKind === 'permanent' ? 'destructive' : 'secondary'}>
+                            {deadLetter.errorKind === 'permanent' ? 'Error permanente' : 'Reintentos agotados'}
+                        </Badge>
+                        {deadLetter.responseStatus && <Badge variant="outline">HTTP {deadLetter.responseStatus}</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        {deadLetter.integration?.name ?? 'Integración eliminada'} · evento {deadLetter.eventType} ·{' '}
+                        {deadLetter.attempts} intento{deadLetter.attempts !== 1 ? 's' : ''}
+                        {deadLetter.occurrences > 1 && ` · ${deadLetter.occurrences} veces`} ·{' '}
+                        {new Date(deadLetter.updatedAt).toLocaleString()}
+                    </p>
+                </div>
+                {deadLetter.status === 'PENDING' && (
+                    <div className="flex gap-2 flex-shrink-0">
+                        <Button size="sm" onClick={() => redriveMutation.mutate()} disabled={isPending}>
+                            {redriveMutation.isPending ? (
+                                <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />
+                            ) : (
+                                <RotateCcwIcon className="w-4 h-4 mr-1" />
+                            )}
+                            Reintentar
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => discardMutation.mutate()} disabled={isPending}>
+                            <XIcon className="w-4 h-4 mr-1" />
+                            Descartar
+                        </Button>
+                    </div>
+                )}
+            </div>
+            <p className="text-sm text-destructive break-all">{deadLetter.error}</p>
+            {(redriveMutation.isError || discardMutation.isError) && (
+                <p className="text-xs text-destructive">
+                    {((redriveMutation.error || discardMutation.error) as Error)?.message || 'Ocurrió un error'}
+                </p>
+            )}
+        </Card>
+    );
+}
+
+function SyncDeadLettersPage() {
+    const [statusFilter, setStatusFilter] = useState<DeadLetterStatus>('PENDING');
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['sync-dead-letters', statusFilter],
+        queryFn: () =>
+            api.query(syncDeadLettersQuery, {
+                options: {
+                    take: 50,
+                    sort: { updatedAt: 'DESC' },
+                    filter: { status: { eq: statusFilter } },
+                },
+            } as any),
+    });
+
+    const deadLetters: SyncDeadLetter[] = (data as any)?.syncDeadLetters?.items || [];
+    const totalItems: number = (data as any)?.syncDeadLetters?.totalItems ?? 0;
+
+    return (
+        <Page pageId="integration-sync-failures">
+            <PageTitle>Sincronizaciones fallidas</PageTitle>
+            <PageLayout>
+                <PageBlock
+                    column="main"
+                    blockId="integration-sync-failures-list"
+                    title="Sincronizaciones de productos"
+                    description={`${totalItems} registro${totalItems !== 1 ? 's' : ''}`}
+                >
+                    <div className="flex gap-2 mb-4">
+                        {STATUS_FILTERS.map(filter => (
+                            <Button
+                                key={filter.id}
+                                size="sm"
+                                variant={statusFilter === filter.id ? 'default' : 'outline'}
+                                onClick={() => setStatusFilter(filter.id)}
+                            >
+                                {filter.label}
+                            </Button>
+                        ))}
+                    </div>
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12">
+                            <Loader2Icon className="w-8 h-8 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : deadLetters.length > 0 ? (
+                        <div className="space-y-3">
+                            {deadLetters.map(deadLetter => (
+                                <DeadLetterCard key={deadLetter.id} deadLetter={deadLetter} />
+                            ))}
+                        </div>
+                    ) : (
+                        <Card className="p-12">
+                            <div className="text-center">
+                                <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                                    <AlertTriangleIcon className="w-8 h-8 text-muted-foreground/50" />
+                                </div>
+                                <h3 className="text-lg font-semibold mb-2">Sin sincronizaciones fallidas</h3>
+                                <p className="text-muted-foreground text-sm">
+                                    Las sincronizaciones que fallen con un error permanente o agoten los reintentos aparecerán aquí.
+                                </p>
+                            </div>
+                        </Card>
+                    )}
+                </PageBlock>
+            </PageLayout>
+        </Page>
+    );
+}
+
+// ==================== DASHBOARD EXTENSION ====================
+
+defineDashboardExtension({
+    routes: [
+        {
+            path: '/integration-sync-failures',
+            component: () => <SyncDeadLettersPage />,
+            navMenuItem: {
+                id: 'integration-sync-failures',
+                sectionId: 'settings',
+                title: 'Sincronizaciones fallidas',
+                order: 26,
+            },
+        },
+    ],
+});
@@ -0,0 +1,177 @@
+import {
+    defineDashboardExtension,
+    Badge,
+    Button,
+    api,
+} from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronLeftIcon, ChevronRightIcon, Loader2Icon } from 'lucide-react';
+import { useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const syncLogEntriesQuery = graphql(`
+    query GetSyncLogEntries($options: SyncLogEntryListOptions) {
+        syncLogEntries(options: $options) {
+            items {
+                id
+                createdAt
+                operation
+                externalId
+                requestSummary
+                success
+                responseStatus
+                error
+                durationMs
+                integration {
+                    id
+                    name
+                }
+            }
+            totalItems
+        }
+    }
+`);
+
+// ==================== TYPES ====================
+
+interface SyncLogEntry {
+    id: string;
+    createdAt: string;
+    operation: 'create' | 'update' | 'delete' | 'variation';
+    externalId: string | null;
+    requestSummary: string;
+    success: boolean;
+    responseStatus: number | null;
+    error: string | null;
+    durationMs: number;
+    integration: { id: string; name: string } | null;
+}
+
+const PAGE_SIZE = 10;
+
+const OPERATION_LABELS: Record<SyncLogEntry['operation'], string> = {
+    create: 'Alta',
+    update: 'Actualización',
+    delete: 'Baja',
+    variation: 'Variación',
+};
+
+// ==================== COMPONENTS ====================
+
+function formatSummary(summary: string): string {
+    try {
+        return Object.entries(JSON.parse(summary))
+            .filter(([, value]) => value !== null && value !== undefined)
+            .map(([key, value]) => `${key}: ${value}`)
+            .join(' · ');
+    } catch {
+        return summary;
+    }
+}
+
+function SyncHistoryBlock({ productId }: { productId: string }) {
+    const [page, setPage] = useState(0);
+    const [onlyErrors, setOnlyErrors] = useState(false);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['sync-log-entries', productId, page, onlyErrors],
+        queryFn: () =>
+            api.query(syncLogEntriesQuery, {
+                options: {
+                    skip: page * PAGE_SIZE,
+                    take: PAGE_SIZE,
+                    sort: { createdAt: 'DESC' },
+                    filter: {
+                        productId: { eq: productId },
+                        ...(onlyErrors ? { success: { eq: false } } : {}),
+                    },
+                },
+            } as any),
+        enabled: !!productId,
+    });
+    const entries: SyncLogEntry[] = (data as any)?.syncLogEntries?.items || [];
+    const totalItems: number = (data as any)?.syncLogEntries?.totalItems || 0;
+    const pageCount = Math.max(1, Math.ceil(totalItems / PAGE_SIZE));
+
+    return (
+        <div className="space-y-3">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                    type="checkbox"
+                    checked={onlyErrors}
+                    onChange={(e) => {
+                        setOnlyErrors(e.target.checked);
+                        setPage(0);
+                    }}
+                    className="w-3 h-3"
+                />
+                Solo errores
+            </label>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center py-6">
+                    <Loader2Icon className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+            ) : entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                    Este producto todavía no se sincronizó con ninguna integración.
+                </p>
+            ) : (
+                <div className="space-y-2">
+                    {entries.map(entry => (
+                        <div key={entry.id} className="border rounded-md p-2 text-sm space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2">
+                                    <Badge variant={entry.success ? 'success' : 'destructive'}>
+                                        {entry.success ? 'OK' : entry.responseStatus ?? 'Error'}
+                                    </Badge>
+                                    <span className="font-medium">{OPERATION_LABELS[entry.operation] ?? entry.operation}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                        {entry.integration?.name ?? 'Integración eliminada'}
+                                        {entry.externalId && ` · #${entry.externalId}`}
+                                    </span>
+                                </div>
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                    {new Date(entry.createdAt).toLocaleString()} · {entry.durationMs} ms
+                                </span>
+                            </div>
+                            <p className="text-xs text-muted-foreground break-all">{formatSummary(entry.requestSummary)}</p>
+                            {entry.error && <p className="text-xs text-destructive break-all">{entry.error}</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {totalItems > PAGE_SIZE && (
+                <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                    <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </Button>
+                    {page + 1} / {pageCount}
+                    <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount}>
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ==================== DASHBOARD EXTENSION ====================
+
+defineDashboardExtension({
+    pageBlocks: [
+        {
+            id: 'product-sync-history',
+            title: 'Historial de sincronización',
+            location: {
+                pageId: 'product-detail',
+                column: 'main',
+                position: { blockId: 'product-variants-table', order: 'after' },
+            },
+            component: ({ context }) => <SyncHistoryBlock productId={context.entity?.id} />,
+        },
+    ],
+});
@@ -0,0 +1,72 @@
+import { Button, Input, Label, api } from '@vendure/dashboard';
+import { graphql } from '@/gql';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2Icon, ShoppingBagIcon } from 'lucide-react';
+import { useState } from 'react';
+
+// ==================== GRAPHQL ====================
+
+const importWooCommerceOrdersMutation = graphql(`
+    mutation ImportWooCommerceOrders($integrationId: ID!, $since: DateTime) {
+        importWooCommerceOrders(integrationId: $integrationId, since: $since)
+    }
+`);
+
+// ==================== COMPONENTS ====================
+
+/**
+ * Importa las órdenes de WooCommerce que no llegaron por webhook (por ejemplo, las
+ * anteriores a activar la integración).
+ */
+export function WooCommerceOrderImportControl({ integrationId }: { integrationId: string }) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [since, setSince] = useState('');
+
+    const importMutation = useMutation({
+        mutationFn: () =>
+            api.mutate(importWooCommerceOrdersMutation, {
+                integrationId,
+                since: since ? new Date(since).toISOString() : null,
+            } as any),
+        onSuccess: () => setIsOpen(false),
+    });
+
+    return (
+        <div className="w-full space-y-2">
+            <Button variant="outline" size="sm" onClick={() => setIsOpen(open => !open)}>
+                <ShoppingBagIcon className="w-4 h-4 mr-1" />
+                Importar órdenes de WooCommerce
+            </Button>
+
+            {isOpen && (
+                <div className="border rounded-md p-3 space-y-3 text-sm">
+                    <div className="space-y-1">
+                        <Label htmlFor={`woocommerce-orders-since-${integrationId}`}>Modificadas desde</Label>
+                        <Input
+                            id={`woocommerce-orders-since-${integrationId}`}
+                            type="date"
+                            value={since}
+                            onChange={(e) => setSince(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">Si se deja vacío se revisan todas las órdenes.</p>
+                    </div>
+                    <Button size="sm" onClick={() => importMutation.mutate()} disabled={importMutation.isPending}>
+                        {importMutation.isPending && <Loader2Icon className="w-4 h-4 mr-1 animate-spin" />}
+                        Iniciar importación
+                    </Button>
+                </div>
+            )}
+
+            {importMutation.isSuccess && (
+                <p className="text-xs text-muted-foreground">
+                    Importación encolada. Las órdenes aparecerán en Vendure a medida que se procesen.
+                </p>
+            )}
+            {importMutation.isError && (
+                <p className="text-xs text-destructive">
+                    {(importMutation.error as Error)?.message || 'Ocurrió un error'}
+                </p>
+            )}
+        </div>
+    );
+}
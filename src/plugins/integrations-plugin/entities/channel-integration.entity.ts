@@ -0,0 +1,40 @@
+import { DeepPartial, EntityId, ID, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+import { IntegrationFeatureId } from '../integration-features';
+
+/**
+ * Vínculo entre un canal y una integración. Un canal puede alimentar varias
+ * plataformas externas, cada una con su propia configuración.
+ */
+@Entity()
+@Index(['channelId', 'integrationId'], { unique: true })
+export class ChannelIntegration extends VendureEntity {
+    constructor(input?: DeepPartial<ChannelIntegration>) {
+        super(input);
+    }
+
+    @Index()
+    @EntityId()
+    channelId: ID;
+
+    @Index()
+    @EntityId()
+    integrationId: ID;
+
+    @Column({ default: true })
+    enabled: boolean;
+
+    /**
+     * Funcionalidades de la integración activas para este canal. Una lista vacía
+     * hereda todas las de la integración.
+     */
+    @Column('simple-json', { default: '[]' })
+    enabledFeatures: IntegrationFeatureId[];
+
+    /**
+     * Canal cuyos precios se envían a la plataforma (lista de precios). `null` usa los
+     * del propio canal.
+     */
+    @EntityId({ nullable: true })
+    priceChannelId: ID | null;
+}
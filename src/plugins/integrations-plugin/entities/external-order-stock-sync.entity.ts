@@ -0,0 +1,38 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Stock descontado en Vendure por una orden de la plataforma externa. Guarda las
+ * cantidades ya aplicadas por variante, de modo que al recibir de nuevo la orden (un
+ * reintento o un cambio de estado) solo se ajusta la diferencia.
+ */
+@Entity()
+@Index(['integrationId', 'externalOrderId'], { unique: true })
+export class ExternalOrderStockSync extends VendureEntity {
+    constructor(input?: DeepPartial<ExternalOrderStockSync>) {
+        super(input);
+    }
+
+    @Index()
+    @Column()
+    integrationId: string;
+
+    @Column()
+    externalOrderId: string;
+
+    @Column({ type: 'varchar', nullable: true })
+    externalStatus: string | null;
+
+    /**
+     * Fecha de modificación de la versión de la orden aplicada. Las recepciones de una
+     * versión anterior, que pueden llegar fuera de orden, se ignoran.
+     */
+    @Column({ type: Date, nullable: true })
+    externalModifiedAt: Date | null;
+
+    /**
+     * Cantidad descontada por ID de variante de Vendure.
+     */
+    @Column('simple-json')
+    appliedQuantities: Record<string, number>;
+}
@@ -0,0 +1,48 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+export interface IntegrationRateLimitLease {
+    id: string;
+    /**
+     * Epoch en ms. Las leases vencidas (un proceso que murió a mitad de una llamada) se
+     * descartan al adquirir.
+     */
+    expiresAt: number;
+}
+
+/**
+ * Estado compartido del rate limiter de una integración (ver
+ * `IntegrationRateLimiterService`). Vive en la base de datos para que el servidor y los
+ * workers respeten el mismo límite.
+ */
+@Entity()
+export class IntegrationRateLimit extends VendureEntity {
+    constructor(input?: DeepPartial<IntegrationRateLimit>) {
+        super(input);
+    }
+
+    @Index({ unique: true })
+    @Column()
+    integrationId: string;
+
+    /**
+     * Tokens disponibles en el bucket al momento de `refilledAt`.
+     */
+    @Column('float')
+    tokens: number;
+
+    @Column({ type: Date })
+    refilledAt: Date;
+
+    /**
+     * Llamadas en curso, para limitar la concurrencia.
+     */
+    @Column('simple-json')
+    leases: IntegrationRateLimitLease[];
+
+    /**
+     * Hasta cuándo no se hacen llamadas, según el `Retry-After` de un 429.
+     */
+    @Column({ type: Date, nullable: true })
+    blockedUntil: Date | null;
+}
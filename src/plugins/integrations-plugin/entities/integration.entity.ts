@@ -1,6 +1,7 @@
 import { DeepPartial, VendureEntity, ID } from '@vendure/core';
 import { Column, Entity } from 'typeorm';
 import { IntegrationFeatureId } from '../integration-features';
+import { encryptedConfigTransformer, encryptedStringTransformer } from '../integration-credentials';
 
 export type IntegrationType = 'mercadolibre' | 'wordpress';
 
@@ -16,7 +17,11 @@ export class Integration extends VendureEntity {
     @Column()
     type: IntegrationType;
 
-    @Column('simple-json')
+    /**
+     * Los campos `password` se guardan cifrados (ver `integration-credentials.ts`);
+     * en memoria siempre están descifrados.
+     */
+    @Column('simple-json', { transformer: encryptedConfigTransformer })
     config: Record<string, string>;
 
     @Column({ default: true })
@@ -28,4 +33,26 @@ export class Integration extends VendureEntity {
      */
     @Column('simple-json', { default: '[]' })
     enabledFeatures: IntegrationFeatureId[];
+
+    /**
+     * Credenciales OAuth (MercadoLibre). El access token vigente se guarda en
+     * `config.accessToken`; aquí se persiste lo necesario para renovarlo.
+     */
+    @Column('text', { nullable: true, transformer: encryptedStringTransformer })
+    refreshToken: string | null;
+
+    @Column({ type: Date, nullable: true })
+    tokenExpiresAt: Date | null;
+
+    /**
+     * Último error al obtener o renovar el token. Se limpia al renovarlo con éxito.
+     */
+    @Column('text', { nullable: true })
+    tokenError: string | null;
+
+    /**
+     * ID del usuario/vendedor en la plataforma externa (ej: `user_id` de MercadoLibre).
+     */
+    @Column({ type: 'varchar', nullable: true })
+    externalUserId: string | null;
 }
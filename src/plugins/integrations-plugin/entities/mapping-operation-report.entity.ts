@@ -0,0 +1,50 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+export type MappingOperation = 'rebuild' | 'clear' | 'import';
+
+export type MappingOperationStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+/**
+ * Resultado de una operación de mantenimiento de los mappings de productos de una
+ * integración (reconstruir, borrar o importar el catálogo externo). Se crea al encolar
+ * la operación y se actualiza mientras el job avanza.
+ */
+@Entity()
+export class MappingOperationReport extends VendureEntity {
+    constructor(input?: DeepPartial<MappingOperationReport>) {
+        super(input);
+    }
+
+    @Index()
+    @Column()
+    integrationId: string;
+
+    @Column({ type: 'varchar' })
+    operation: MappingOperation;
+
+    @Column({ type: 'varchar', default: 'PENDING' })
+    status: MappingOperationStatus;
+
+    /**
+     * Porcentaje (0 - 100) de productos procesados.
+     */
+    @Column('int', { default: 0 })
+    progress: number;
+
+    /**
+     * En `rebuild`, productos vinculados; en `clear`, mappings eliminados; en `import`,
+     * productos creados o vinculados por SKU.
+     */
+    @Column('int', { default: 0 })
+    success: number;
+
+    @Column('int', { default: 0 })
+    failed: number;
+
+    @Column('simple-json')
+    errors: string[];
+
+    @Column({ type: Date, nullable: true })
+    completedAt: Date | null;
+}
@@ -0,0 +1,40 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Relaciona una orden importada desde una plataforma externa con la orden creada en
+ * Vendure. La restricción única sobre (integrationId, externalOrderId) garantiza que
+ * una misma orden externa nunca se importe dos veces.
+ */
+@Entity()
+@Index(['integrationId', 'externalOrderId'], { unique: true })
+export class OrderIntegrationMapping extends VendureEntity {
+    constructor(input?: DeepPartial<OrderIntegrationMapping>) {
+        super(input);
+    }
+
+    @Index()
+    @Column()
+    integrationId: string;
+
+    @Column()
+    externalOrderId: string;
+
+    /**
+     * Agrupador de la orden en la plataforma externa (por ejemplo, el pack de
+     * MercadoLibre, que reúne varias órdenes de un mismo carrito).
+     */
+    @Index()
+    @Column({ type: 'varchar', nullable: true })
+    externalPackId: string | null;
+
+    @Index()
+    @Column()
+    vendureOrderId: string;
+
+    @Column()
+    vendureOrderCode: string;
+
+    @Column({ type: 'varchar', nullable: true })
+    externalStatus: string | null;
+}
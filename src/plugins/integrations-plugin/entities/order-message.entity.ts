@@ -0,0 +1,58 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+export type OrderMessageDirection = 'INBOUND' | 'OUTBOUND';
+
+export interface OrderMessageAttachment {
+    /** Asset de Vendure donde se guardó el archivo. */
+    assetId: string | null;
+    /** Identificador del archivo en la plataforma externa. */
+    externalId: string;
+    name: string;
+    mimeType: string | null;
+}
+
+/**
+ * Mensaje post-venta entre el comprador y la tienda, asociado a una orden importada.
+ * Los adjuntos se guardan como assets, por lo que usan la estrategia de
+ * almacenamiento configurada en Vendure.
+ */
+@Entity()
+@Index(['integrationId', 'externalMessageId'], { unique: true })
+export class OrderMessage extends VendureEntity {
+    constructor(input?: DeepPartial<OrderMessage>) {
+        super(input);
+    }
+
+    @Index()
+    @Column()
+    integrationId: string;
+
+    @Index()
+    @Column()
+    vendureOrderId: string;
+
+    @Column()
+    externalMessageId: string;
+
+    @Column({ type: 'varchar' })
+    direction: OrderMessageDirection;
+
+    @Column('text')
+    text: string;
+
+    @Column('simple-json')
+    attachments: OrderMessageAttachment[];
+
+    @Column({ type: Date })
+    sentAt: Date;
+
+    @Column({ type: Date, nullable: true })
+    readAt: Date | null;
+
+    /**
+     * Administrador que envió el mensaje desde el dashboard (solo salientes).
+     */
+    @Column({ type: 'varchar', nullable: true })
+    administratorId: string | null;
+}
@@ -1,4 +1,4 @@
-import { DeepPartial, VendureEntity } from '@vendure/core';
+import { DeepPartial, EntityId, ID, VendureEntity } from '@vendure/core';
 import { Column, Entity, Index } from 'typeorm';
 
 @Entity()
@@ -9,16 +9,26 @@ export class ProductIntegrationMapping extends VendureEntity {
     }
 
     @Index()
-    @Column()
-    vendureProductId: number;
+    @EntityId()
+    vendureProductId: ID;
 
     @Index()
-    @Column()
-    integrationId: number;
+    @EntityId()
+    integrationId: ID;
 
     @Column()
     externalProductId: string;
 
     @Column({ nullable: true })
     externalSku: string;
+
+    /**
+     * Hashes del último payload sincronizado (ver `payload-hashes.ts`). `null` si el
+     * contenido remoto es desconocido y hay que enviar el payload completo.
+     */
+    @Column({ type: 'varchar', nullable: true })
+    contentHash: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    priceStockHash: string | null;
 }
@@ -0,0 +1,64 @@
+import { DeepPartial, EntityId, ID, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Estados de una pregunta tal como los informa MercadoLibre.
+ */
+export type ProductQuestionStatus =
+    | 'UNANSWERED'
+    | 'ANSWERED'
+    | 'CLOSED_UNANSWERED'
+    | 'UNDER_REVIEW'
+    | 'BANNED'
+    | 'DELETED'
+    | 'DISABLED';
+
+/**
+ * Pregunta de un comprador sobre una publicación externa. El producto de Vendure se
+ * resuelve a través de `ProductIntegrationMapping` y el canal es el vinculado a la
+ * integración al momento de recibirla.
+ */
+@Entity()
+@Index(['integrationId', 'externalQuestionId'], { unique: true })
+export class ProductQuestion extends VendureEntity {
+    constructor(input?: DeepPartial<ProductQuestion>) {
+        super(input);
+    }
+
+    @Index()
+    @Column()
+    integrationId: string;
+
+    @Column()
+    externalQuestionId: string;
+
+    @Column()
+    externalItemId: string;
+
+    @Index()
+    @EntityId({ nullable: true })
+    vendureProductId: ID | null;
+
+    @Index()
+    @Column({ type: 'varchar', nullable: true })
+    channelId: string | null;
+
+    @Column('text')
+    text: string;
+
+    @Index()
+    @Column({ type: 'varchar' })
+    status: ProductQuestionStatus;
+
+    @Column({ type: 'varchar', nullable: true })
+    buyerId: string | null;
+
+    @Column({ type: Date })
+    askedAt: Date;
+
+    @Column({ type: 'text', nullable: true })
+    answerText: string | null;
+
+    @Column({ type: Date, nullable: true })
+    answeredAt: Date | null;
+}
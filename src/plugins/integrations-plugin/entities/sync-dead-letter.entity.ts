@@ -0,0 +1,63 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+import { SyncErrorKind } from '../sync-errors';
+
+export type SyncDeadLetterStatus = 'PENDING' | 'REDRIVEN' | 'DISCARDED';
+
+/**
+ * Sincronización de producto que no se pudo completar: falló con un error permanente
+ * o agotó los reintentos. Queda pendiente hasta que un administrador la reencola
+ * (re-drive) o la descarta.
+ */
+@Entity()
+@Index(['integrationId', 'productId', 'channelId', 'status'])
+export class SyncDeadLetter extends VendureEntity {
+    constructor(input?: DeepPartial<SyncDeadLetter>) {
+        super(input);
+    }
+
+    @Index()
+    @Column()
+    integrationId: string;
+
+    @Column()
+    productId: string;
+
+    @Column()
+    channelId: string;
+
+    @Column({ type: 'varchar' })
+    eventType: string;
+
+    /**
+     * Datos del job original, para reencolarlo tal cual.
+     */
+    @Column('simple-json')
+    jobData: Record<string, any>;
+
+    @Column({ type: 'varchar' })
+    errorKind: SyncErrorKind;
+
+    @Column({ type: 'int', nullable: true })
+    responseStatus: number | null;
+
+    @Column('text')
+    error: string;
+
+    @Column('int')
+    attempts: number;
+
+    /**
+     * Cantidad de veces que la misma sincronización terminó aquí mientras estaba
+     * pendiente.
+     */
+    @Column('int', { default: 1 })
+    occurrences: number;
+
+    @Index()
+    @Column({ type: 'varchar', default: 'PENDING' })
+    status: SyncDeadLetterStatus;
+
+    @Column({ type: Date, nullable: true })
+    resolvedAt: Date | null;
+}
@@ -0,0 +1,58 @@
+import { DeepPartial, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+export type SyncLogOperation = 'create' | 'update' | 'delete' | 'variation';
+
+/**
+ * Resultado de una llamada de sincronización de productos contra una plataforma
+ * externa. Es el historial que se muestra en el detalle del producto.
+ */
+@Entity()
+@Index(['productId', 'integrationId'])
+export class SyncLogEntry extends VendureEntity {
+    constructor(input?: DeepPartial<SyncLogEntry>) {
+        super(input);
+    }
+
+    @Index()
+    @Column()
+    integrationId: string;
+
+    @Column()
+    productId: string;
+
+    @Column({ type: 'varchar', nullable: true })
+    channelId: string | null;
+
+    @Column({ type: 'varchar' })
+    operation: SyncLogOperation;
+
+    /**
+     * ID del producto (o de la variación) en la plataforma externa, si se conoce.
+     */
+    @Column({ type: 'varchar', nullable: true })
+    externalId: string | null;
+
+    /**
+     * Resumen legible de lo enviado (SKU, estado, cantidad de variaciones...), no el
+     * payload completo.
+     */
+    @Column('text')
+    requestSummary: string;
+
+    @Column()
+    success: boolean;
+
+    /**
+     * Código HTTP de la respuesta cuando la llamada falló; `null` si fue exitosa o no
+     * hubo respuesta.
+     */
+    @Column({ type: 'int', nullable: true })
+    responseStatus: number | null;
+
+    @Column('text', { nullable: true })
+    error: string | null;
+
+    @Column('int')
+    durationMs: number;
+}
@@ -0,0 +1,44 @@
+import { DeepPartial, EntityId, ID, VendureEntity } from '@vendure/core';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Vincula una variante de Vendure con la variación del producto externo, para
+ * actualizarla directamente y eliminarla cuando se borra la variante.
+ */
+@Entity()
+@Index(['vendureVariantId', 'integrationId'], { unique: true })
+@Index(['integrationId', 'externalProductId'])
+export class VariantIntegrationMapping extends VendureEntity {
+    constructor(input?: DeepPartial<VariantIntegrationMapping>) {
+        super(input);
+    }
+
+    @Index()
+    @EntityId()
+    vendureVariantId: ID;
+
+    @EntityId()
+    integrationId: ID;
+
+    /**
+     * ID del producto padre en la plataforma externa.
+     */
+    @Column()
+    externalProductId: string;
+
+    @Column()
+    externalVariationId: string;
+
+    @Column({ nullable: true })
+    externalSku: string;
+
+    /**
+     * Hashes del último payload sincronizado (ver `payload-hashes.ts`). `null` si el
+     * contenido remoto es desconocido y hay que enviar el payload completo.
+     */
+    @Column({ type: 'varchar', nullable: true })
+    contentHash: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    priceStockHash: string | null;
+}
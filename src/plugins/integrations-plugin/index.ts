@@ -1,2 +1,3 @@
 export * from './integrations.plugin';
 export * from './services/product-event.service';
+export * from './sync-errors';
@@ -0,0 +1,174 @@
+import { Logger } from '@vendure/core';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { ValueTransformer } from 'typeorm';
+import { INTEGRATION_TYPES } from './integration-features';
+
+/**
+ * Cifrado en reposo de las credenciales de las integraciones (AES-256-GCM).
+ *
+ * Se cifran los campos de `config` marcados como `type: 'password'` en
+ * `INTEGRATION_TYPES` y el refresh token. La clave se toma de
+ * `INTEGRATION_CREDENTIALS_KEY`; durante una rotación, las claves anteriores se
+ * indican en `INTEGRATION_CREDENTIALS_PREVIOUS_KEYS` (separadas por comas) para poder
+ * descifrar los valores que aún no se recifraron.
+ */
+
+const loggerCtx = 'IntegrationCredentials';
+const PREFIX = 'enc:v1';
+
+/**
+ * Valor que devuelve la Admin API en lugar de un secreto. Si `updateIntegration`
+ * recibe este valor, el secreto guardado se mantiene.
+ */
+export const MASKED_SECRET = '••••••••';
+
+interface CredentialKey {
+    id: string;
+    key: Buffer;
+}
+
+let warnedMissingKey = false;
+
+function toKey(secret: string): CredentialKey {
+    // Cualquier cadena sirve como clave: se deriva a 32 bytes con SHA-256.
+    const key = createHash('sha256').update(secret).digest();
+    return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+function getCurrentKey(): CredentialKey | null {
+    const secret = process.env.INTEGRATION_CREDENTIALS_KEY;
+    return secret ? toKey(secret) : null;
+}
+
+function getDecryptionKeys(): CredentialKey[] {
+    const previous = (process.env.INTEGRATION_CREDENTIALS_PREVIOUS_KEYS || '')
+        .split(',')
+        .map(s => s.trim())
+        .filter(Boolean)
+        .map(toKey);
+    const current = getCurrentKey();
+    return current ? [current, ...previous] : previous;
+}
+
+export function isEncryptedSecret(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptSecret(value: string): string {
+    if (!value || isEncryptedSecret(value)) {
+        return value;
+    }
+    const current = getCurrentKey();
+    if (!current) {
+        if (!warnedMissingKey) {
+            warnedMissingKey = true;
+            Logger.warn(
+                'INTEGRATION_CREDENTIALS_KEY is not set; integration credentials are stored unencrypted',
+                loggerCtx,
+            );
+        }
+        return value;
+    }
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', current.key, iv);
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return [
+        PREFIX,
+        current.id,
+        iv.toString('base64'),
+        cipher.getAuthTag().toString('base64'),
+        encrypted.toString('base64'),
+    ].join(':');
+}
+
+/**
+ * Devuelve el valor descifrado o, si ninguna clave disponible lo descifra, el valor
+ * cifrado sin cambios (así no se pierde al volver a guardarlo).
+ */
+export function decryptSecret(value: string): string {
+    if (!isEncryptedSecret(value)) {
+        return value;
+    }
+    const [, , keyId, iv, tag, data] = value.split(':');
+    const credentialKey = getDecryptionKeys().find(k => k.id === keyId);
+    if (!credentialKey) {
+        Logger.error(`No credentials key available to decrypt secret (keyId=${keyId})`, loggerCtx);
+        return value;
+    }
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', credentialKey.key, Buffer.from(iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64'));
+        return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+    } catch (e) {
+        Logger.error(`Could not decrypt secret (keyId=${keyId})`, loggerCtx);
+        return value;
+    }
+}
+
+/**
+ * Claves de `config` que se tratan como secretos: todos los campos `password` de
+ * cualquier tipo de integración.
+ */
+export function getSecretConfigKeys(): Set<string> {
+    return new Set(
+        Object.values(INTEGRATION_TYPES).flatMap(type =>
+            type.configFields.filter(field => field.type === 'password').map(field => field.key),
+        ),
+    );
+}
+
+function mapSecrets(
+    config: Record<string, string> | null | undefined,
+    fn: (value: string) => string,
+): Record<string, string> | null | undefined {
+    if (!config || typeof config !== 'object') {
+        return config;
+    }
+    const secretKeys = getSecretConfigKeys();
+    return Object.fromEntries(
+        Object.entries(config).map(([key, value]) => [
+            key,
+            secretKeys.has(key) && typeof value === 'string' ? fn(value) : value,
+        ]),
+    );
+}
+
+/**
+ * Reemplaza los secretos por `MASKED_SECRET` para exponer la configuración en la API.
+ */
+export function maskConfig(config: Record<string, string> | null | undefined): Record<string, string> {
+    return mapSecrets(config, value => (value ? MASKED_SECRET : value)) || {};
+}
+
+/**
+ * Combina la configuración recibida con la guardada: los secretos enmascarados o
+ * ausentes conservan su valor actual.
+ */
+export function mergeConfigUpdate(
+    existing: Record<string, string> | null | undefined,
+    incoming: Record<string, string>,
+): Record<string, string> {
+    const secretKeys = getSecretConfigKeys();
+    const merged = { ...incoming };
+    for (const key of secretKeys) {
+        const current = existing?.[key];
+        if (current !== undefined && (!(key in incoming) || incoming[key] === MASKED_SECRET)) {
+            merged[key] = current;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Transformer de la columna `config`: cifra los secretos al escribir y los descifra
+ * al leer. Se aplica también a los `update()` directos del repositorio.
+ */
+export const encryptedConfigTransformer: ValueTransformer = {
+    to: (value: Record<string, string> | null | undefined) => mapSecrets(value, encryptSecret),
+    from: (value: Record<string, string> | null | undefined) => mapSecrets(value, decryptSecret),
+};
+
+export const encryptedStringTransformer: ValueTransformer = {
+    to: (value: string | null | undefined) => (typeof value === 'string' ? encryptSecret(value) : value),
+    from: (value: string | null | undefined) => (typeof value === 'string' ? decryptSecret(value) : value),
+};
@@ -7,22 +7,83 @@ export type IntegrationFeatureId =
     | 'sync_products'
     | 'sync_product_questions'
     | 'sync_orders'
-    | 'sync_post_sale_messages';
+    | 'sync_post_sale_messages'
+    | 'sync_stock';
 
 export interface IntegrationFeature {
     id: IntegrationFeatureId;
     name: string;
     description: string;
     icon: string;
+    /**
+     * Solo se habilita si figura en `enabledFeatures`: una lista vacía no la incluye, así
+     * que las integraciones existentes no la activan al agregarse.
+     */
+    optIn?: boolean;
 }
 
+/**
+ * - `url`: debe ser una URL http(s) absoluta.
+ * - `secret`: si se envía, no puede estar vacío ni contener solo espacios.
+ * - `positive_integer`: entero mayor que cero.
+ */
+export type IntegrationConfigFieldFormat = 'url' | 'secret' | 'positive_integer';
+
+export interface IntegrationConfigFieldOption {
+    value: string;
+    label: string;
+}
+
+export interface IntegrationConfigField {
+    key: string;
+    label: string;
+    type: string;
+    placeholder?: string;
+    required?: boolean;
+    format?: IntegrationConfigFieldFormat;
+    /**
+     * Valores admitidos; el dashboard muestra el campo como un select.
+     */
+    options?: IntegrationConfigFieldOption[];
+}
+
+/**
+ * Qué hacer con la copia externa de un producto que se quita de un canal de la
+ * integración, o de todo el catálogo de un canal que se desvincula (campo
+ * `removalPolicy`):
+ * - `delete`: se elimina (en MercadoLibre, se finaliza la publicación).
+ * - `draft`: se pasa a borrador (en MercadoLibre, se pausa).
+ * - `out_of_stock`: se deja publicada con stock cero.
+ * - `keep`: no se modifica.
+ */
+export type ProductRemovalPolicy = 'delete' | 'draft' | 'out_of_stock' | 'keep';
+
+const DEFAULT_REMOVAL_POLICY: ProductRemovalPolicy = 'draft';
+
 export interface IntegrationTypeDefinition {
     id: string;
     name: string;
     description: string;
     icon: string;
     features: IntegrationFeature[];
-    configFields: { key: string; label: string; type: string; placeholder?: string }[];
+    configFields: IntegrationConfigField[];
+}
+
+export type IntegrationConfigErrorCode =
+    | 'UNKNOWN_TYPE'
+    | 'UNKNOWN_FEATURE'
+    | 'INVALID_JSON'
+    | 'INVALID_VALUE'
+    | 'REQUIRED'
+    | 'INVALID_URL'
+    | 'EMPTY_SECRET'
+    | 'INVALID_NUMBER'
+    | 'INVALID_OPTION';
+
+export interface IntegrationConfigFieldError {
+    field: string;
+    code: IntegrationConfigErrorCode;
+    message: string;
 }
 
 /**
@@ -52,6 +113,7 @@ export const INTEGRATION_TYPES: Record<string, IntegrationTypeDefinition> = {
                 name: 'Sincronizar Órdenes',
                 description: 'Importa órdenes de MercadoLibre a Vendure',
                 icon: '🛍️',
+                optIn: true,
             },
             {
                 id: 'sync_post_sale_messages',
@@ -62,9 +124,26 @@ export const INTEGRATION_TYPES: Record<string, IntegrationTypeDefinition> = {
         ],
         configFields: [
             { key: 'accountName', label: 'Nombre de la cuenta', type: 'text', placeholder: 'Ej: Mi Tienda ML' },
-            { key: 'clientId', label: 'Client ID', type: 'text', placeholder: 'Tu Client ID de MercadoLibre' },
-            { key: 'clientSecret', label: 'Client Secret', type: 'password', placeholder: 'Tu Client Secret' },
-            { key: 'accessToken', label: 'Access Token', type: 'password', placeholder: 'Tu Access Token' },
+            { key: 'clientId', label: 'Client ID', type: 'text', placeholder: 'Tu Client ID de MercadoLibre', required: true },
+            { key: 'clientSecret', label: 'Client Secret', type: 'password', placeholder: 'Tu Client Secret', required: true, format: 'secret' },
+            { key: 'accessToken', label: 'Access Token', type: 'password', placeholder: 'Tu Access Token', format: 'secret' },
+            { key: 'categoryId', label: 'Categoría por defecto', type: 'text', placeholder: 'Ej: MLA3530' },
+            { key: 'currencyId', label: 'Moneda', type: 'text', placeholder: 'Ej: ARS' },
+            { key: 'listingTypeId', label: 'Tipo de publicación', type: 'text', placeholder: 'Ej: gold_special' },
+            { key: 'shippingMethodCode', label: 'Método de envío para órdenes', type: 'text', placeholder: 'Código del método de envío en Vendure' },
+            { key: 'requestsPerMinute', label: 'Solicitudes por minuto', type: 'number', placeholder: 'Por defecto: 60', format: 'positive_integer' },
+            { key: 'maxConcurrency', label: 'Solicitudes simultáneas', type: 'number', placeholder: 'Por defecto: 2', format: 'positive_integer' },
+            {
+                key: 'removalPolicy',
+                label: 'Al quitar un producto del canal',
+                type: 'select',
+                placeholder: 'Pausar la publicación',
+                options: [
+                    { value: 'draft', label: 'Pausar la publicación' },
+                    { value: 'delete', label: 'Finalizar la publicación' },
+                    { value: 'keep', label: 'Mantener la publicación' },
+                ],
+            },
         ],
     },
     wordpress: {
@@ -79,16 +158,52 @@ export const INTEGRATION_TYPES: Record<string, IntegrationTypeDefinition> = {
                 description: 'Publica y actualiza productos en WooCommerce',
                 icon: '📦',
             },
+            {
+                id: 'sync_stock',
+                name: 'Sincronizar Stock',
+                description: 'Descuenta en Vendure el stock vendido en WooCommerce (webhook de órdenes)',
+                icon: '📊',
+                optIn: true,
+            },
+            {
+                id: 'sync_orders',
+                name: 'Sincronizar Órdenes',
+                description: 'Importa órdenes de WooCommerce a Vendure y las completa al enviarlas',
+                icon: '🛍️',
+                optIn: true,
+            },
         ],
         configFields: [
             { key: 'siteName', label: 'Nombre del sitio', type: 'text', placeholder: 'Ej: Mi Blog WordPress' },
-            { key: 'siteUrl', label: 'URL del sitio', type: 'text', placeholder: 'https://tu-sitio.com' },
-            { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'Tu API Key de WooCommerce' },
-            { key: 'apiSecret', label: 'API Secret', type: 'password', placeholder: 'Tu API Secret' },
+            { key: 'siteUrl', label: 'URL del sitio', type: 'text', placeholder: 'https://tu-sitio.com', required: true, format: 'url' },
+            { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'Tu API Key de WooCommerce', required: true, format: 'secret' },
+            { key: 'apiSecret', label: 'API Secret', type: 'password', placeholder: 'Tu API Secret', required: true, format: 'secret' },
+            { key: 'webhookSecret', label: 'Secreto del webhook', type: 'password', placeholder: 'Secreto configurado en el webhook de WooCommerce', format: 'secret' },
+            { key: 'shippingMethodCode', label: 'Método de envío para órdenes', type: 'text', placeholder: 'Código del método de envío en Vendure' },
+            { key: 'requestsPerMinute', label: 'Solicitudes por minuto', type: 'number', placeholder: 'Por defecto: 60', format: 'positive_integer' },
+            { key: 'maxConcurrency', label: 'Solicitudes simultáneas', type: 'number', placeholder: 'Por defecto: 2', format: 'positive_integer' },
+            {
+                key: 'removalPolicy',
+                label: 'Al quitar un producto del canal',
+                type: 'select',
+                placeholder: 'Pasar a borrador',
+                options: [
+                    { value: 'draft', label: 'Pasar a borrador' },
+                    { value: 'out_of_stock', label: 'Dejar sin stock' },
+                    { value: 'delete', label: 'Eliminar el producto' },
+                    { value: 'keep', label: 'Mantener el producto' },
+                ],
+            },
         ],
     },
 };
 
+const OPT_IN_FEATURES = new Set<IntegrationFeatureId>(
+    Object.values(INTEGRATION_TYPES).flatMap(type =>
+        type.features.filter(feature => feature.optIn).map(feature => feature.id),
+    ),
+);
+
 /**
  * Obtiene las funcionalidades disponibles para un tipo de integración
  */
@@ -102,3 +217,117 @@ export function getAvailableFeatures(integrationType: string): IntegrationFeatur
 export function getIntegrationType(integrationType: string): IntegrationTypeDefinition | undefined {
     return INTEGRATION_TYPES[integrationType];
 }
+
+/**
+ * Valida el tipo, la configuración y las funcionalidades de una integración contra el
+ * registro. Devuelve un error por cada campo inválido (lista vacía si es válida).
+ */
+export function validateIntegrationConfig(
+    integrationType: string,
+    config: Record<string, unknown>,
+    enabledFeatures?: string[],
+): IntegrationConfigFieldError[] {
+    const typeDef = getIntegrationType(integrationType);
+    if (!typeDef) {
+        return [{ field: 'type', code: 'UNKNOWN_TYPE', message: `Unknown integration type "${integrationType}"` }];
+    }
+
+    const errors: IntegrationConfigFieldError[] = [];
+    for (const field of typeDef.configFields) {
+        const value = config[field.key];
+        if (value !== undefined && value !== null && typeof value !== 'string') {
+            errors.push({ field: field.key, code: 'INVALID_VALUE', message: `${field.label} must be a string` });
+            continue;
+        }
+        const trimmed = (value ?? '').trim();
+        if (!trimmed) {
+            if (field.required) {
+                errors.push({ field: field.key, code: 'REQUIRED', message: `${field.label} is required` });
+            } else if (field.format === 'secret' && value) {
+                errors.push({ field: field.key, code: 'EMPTY_SECRET', message: `${field.label} cannot be blank` });
+            }
+            continue;
+        }
+        if (field.format === 'url' && !isHttpUrl(trimmed)) {
+            errors.push({ field: field.key, code: 'INVALID_URL', message: `${field.label} must be an http(s) URL` });
+        }
+        if (field.format === 'positive_integer' && !(/^\d+$/.test(trimmed) && Number(trimmed) > 0)) {
+            errors.push({ field: field.key, code: 'INVALID_NUMBER', message: `${field.label} must be a positive integer` });
+        }
+        if (field.options && !field.options.some(option => option.value === trimmed)) {
+            errors.push({
+                field: field.key,
+                code: 'INVALID_OPTION',
+                message: `${field.label} must be one of: ${field.options.map(option => option.value).join(', ')}`,
+            });
+        }
+    }
+
+    const featureIds = typeDef.features.map(f => f.id as string);
+    for (const feature of enabledFeatures || []) {
+        if (!featureIds.includes(feature)) {
+            errors.push({
+                field: 'enabledFeatures',
+                code: 'UNKNOWN_FEATURE',
+                message: `Feature "${feature}" is not available for ${typeDef.name}`,
+            });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Política configurada en la integración; `draft` si no hay ninguna.
+ */
+export function getProductRemovalPolicy(config: Record<string, string> | null | undefined): ProductRemovalPolicy {
+    const policy = config?.removalPolicy?.trim();
+    return policy === 'delete' || policy === 'draft' || policy === 'out_of_stock' || policy === 'keep'
+        ? policy
+        : DEFAULT_REMOVAL_POLICY;
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Indica si una funcionalidad está habilitada en la integración. Una lista vacía
+ * habilita todas sus funcionalidades salvo las `optIn`.
+ */
+export function isFeatureEnabled(
+    enabledFeatures: IntegrationFeatureId[] | null | undefined,
+    featureId: IntegrationFeatureId,
+): boolean {
+    const features = Array.isArray(enabledFeatures) ? enabledFeatures : [];
+    return features.length === 0 ? !OPT_IN_FEATURES.has(featureId) : features.includes(featureId);
+}
+
+/**
+ * Indica si el vínculo de un canal incluye una funcionalidad. Una lista vacía hereda
+ * todas las de la integración.
+ */
+export function isLinkFeatureEnabled(
+    channelFeatures: IntegrationFeatureId[] | null | undefined,
+    featureId: IntegrationFeatureId,
+): boolean {
+    const features = Array.isArray(channelFeatures) ? channelFeatures : [];
+    return features.length === 0 || features.includes(featureId);
+}
+
+/**
+ * Indica si una funcionalidad está habilitada en el vínculo de un canal con la
+ * integración: tiene que estarlo en la integración y en el vínculo.
+ */
+export function isChannelFeatureEnabled(
+    integrationFeatures: IntegrationFeatureId[] | null | undefined,
+    channelFeatures: IntegrationFeatureId[] | null | undefined,
+    featureId: IntegrationFeatureId,
+): boolean {
+    return isFeatureEnabled(integrationFeatures, featureId) && isLinkFeatureEnabled(channelFeatures, featureId);
+}
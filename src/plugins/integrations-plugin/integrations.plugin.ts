@@ -1,40 +1,134 @@
-import { LanguageCode, PluginCommonModule, VendurePlugin } from '@vendure/core';
+import { PluginCommonModule, VendurePlugin } from '@vendure/core';
 import { Integration } from './entities/integration.entity';
 import { ProductIntegrationMapping } from './entities/product-integration-mapping.entity';
+import { VariantIntegrationMapping } from './entities/variant-integration-mapping.entity';
+import { OrderIntegrationMapping } from './entities/order-integration-mapping.entity';
+import { ProductQuestion } from './entities/product-question.entity';
+import { OrderMessage } from './entities/order-message.entity';
+import { SyncLogEntry } from './entities/sync-log-entry.entity';
+import { SyncDeadLetter } from './entities/sync-dead-letter.entity';
+import { MappingOperationReport } from './entities/mapping-operation-report.entity';
+import { ExternalOrderStockSync } from './entities/external-order-stock-sync.entity';
+import { IntegrationRateLimit } from './entities/integration-rate-limit.entity';
+import { ChannelIntegration } from './entities/channel-integration.entity';
 import { IntegrationService } from './services/integration.service';
 import { ProductEventService } from './services/product-event.service';
 import { WordPressService } from './services/wordpress.service';
+import { MercadoLibreService } from './services/mercadolibre.service';
+import { MercadoLibreAuthService } from './services/mercadolibre-auth.service';
+import { IntegrationConnectionService } from './services/integration-connection.service';
+import { MercadoLibreOrderService } from './services/mercadolibre-order.service';
+import { ExternalOrderService } from './services/external-order.service';
+import { ProductQuestionService } from './services/product-question.service';
+import { OrderMessageService } from './services/order-message.service';
 import { ProductMapperService } from './services/product-mapper.service';
 import { ProductMappingService } from './services/product-mapping.service';
-import { IntegrationAdminResolver } from './api/integration.resolver';
+import { SyncLogService } from './services/sync-log.service';
+import { SyncDeadLetterService } from './services/sync-dead-letter.service';
+import { ProductResyncService } from './services/product-resync.service';
+import { MappingMaintenanceService } from './services/mapping-maintenance.service';
+import { WooCommerceStockService } from './services/woocommerce-stock.service';
+import { WooCommerceOrderService } from './services/woocommerce-order.service';
+import { WooCommerceCatalogImportService } from './services/woocommerce-catalog-import.service';
+import { IntegrationPreviewService } from './services/integration-preview.service';
+import { IntegrationRateLimiterService } from './services/integration-rate-limiter.service';
+import { ChannelIntegrationService } from './services/channel-integration.service';
+import {
+    CreateIntegrationResultResolver,
+    IntegrationAdminResolver,
+    TestIntegrationConfigResultResolver,
+    UpdateIntegrationResultResolver,
+} from './api/integration.resolver';
+import { IntegrationEntityResolver } from './api/integration-entity.resolver';
+import { ProductQuestionAdminResolver, ProductQuestionEntityResolver } from './api/product-question.resolver';
+import { OrderMessageAdminResolver, OrderMessageAttachmentResolver } from './api/order-message.resolver';
+import { SyncLogAdminResolver, SyncLogEntryEntityResolver } from './api/sync-log.resolver';
+import { SyncDeadLetterAdminResolver, SyncDeadLetterEntityResolver } from './api/sync-dead-letter.resolver';
+import { ProductResyncAdminResolver } from './api/product-resync.resolver';
+import { MappingMaintenanceAdminResolver } from './api/mapping-maintenance.resolver';
+import { ProductIntegrationMappingEntityResolver, ProductMappingAdminResolver } from './api/product-mapping.resolver';
+import { WooCommerceOrderAdminResolver } from './api/woocommerce-order.resolver';
+import { IntegrationPreviewAdminResolver } from './api/integration-preview.resolver';
+import { ChannelIntegrationAdminResolver, ChannelIntegrationEntityResolver } from './api/channel-integration.resolver';
+import { MercadoLibreOAuthController } from './api/mercadolibre-oauth.controller';
+import { MercadoLibreNotificationController } from './api/mercadolibre-notification.controller';
+import { WooCommerceWebhookController } from './api/woocommerce-webhook.controller';
+import { pollMercadoLibreOrdersTask } from './scheduled-tasks';
 import { adminApiExtensions } from './api/api-extensions';
 
 @VendurePlugin({
     imports: [PluginCommonModule],
     compatibility: '^3.0.0',
-    entities: [Integration, ProductIntegrationMapping],
+    entities: [
+        Integration,
+        ProductIntegrationMapping,
+        VariantIntegrationMapping,
+        OrderIntegrationMapping,
+        ProductQuestion,
+        OrderMessage,
+        SyncLogEntry,
+        SyncDeadLetter,
+        MappingOperationReport,
+        ExternalOrderStockSync,
+        IntegrationRateLimit,
+        ChannelIntegration,
+    ],
+    controllers: [MercadoLibreOAuthController, MercadoLibreNotificationController, WooCommerceWebhookController],
     providers: [
         IntegrationService, 
         ProductEventService,
         WordPressService,
+        MercadoLibreService,
+        MercadoLibreAuthService,
+        IntegrationConnectionService,
+        MercadoLibreOrderService,
+        ExternalOrderService,
+        ProductQuestionService,
+        OrderMessageService,
         ProductMapperService,
         ProductMappingService,
+        SyncLogService,
+        SyncDeadLetterService,
+        ProductResyncService,
+        MappingMaintenanceService,
+        WooCommerceStockService,
+        WooCommerceOrderService,
+        WooCommerceCatalogImportService,
+        IntegrationPreviewService,
+        IntegrationRateLimiterService,
+        ChannelIntegrationService,
     ],
     adminApiExtensions: {
         schema: adminApiExtensions,
-        resolvers: [IntegrationAdminResolver],
+        resolvers: [
+            IntegrationAdminResolver,
+            IntegrationEntityResolver,
+            CreateIntegrationResultResolver,
+            UpdateIntegrationResultResolver,
+            TestIntegrationConfigResultResolver,
+            ProductQuestionAdminResolver,
+            ProductQuestionEntityResolver,
+            OrderMessageAdminResolver,
+            OrderMessageAttachmentResolver,
+            SyncLogAdminResolver,
+            SyncLogEntryEntityResolver,
+            SyncDeadLetterAdminResolver,
+            SyncDeadLetterEntityResolver,
+            ProductResyncAdminResolver,
+            MappingMaintenanceAdminResolver,
+            ProductMappingAdminResolver,
+            ProductIntegrationMappingEntityResolver,
+            WooCommerceOrderAdminResolver,
+            IntegrationPreviewAdminResolver,
+            ChannelIntegrationAdminResolver,
+            ChannelIntegrationEntityResolver,
+        ],
     },
     configuration: (config) => {
-        config.customFields.Channel.push({
-            name: 'integrationId',
-            type: 'int',
-            nullable: true,
-            label: [{ languageCode: LanguageCode.en, value: 'Integration' }],
-            description: [{ languageCode: LanguageCode.en, value: 'Link this channel to an integration for automatic product sync' }],
-            ui: {
-                component: 'integration-selector',
-            },
-        });
+        config.schedulerOptions.tasks = [
+            ...(config.schedulerOptions.tasks ?? []),
+            pollMercadoLibreOrdersTask,
+        ];
         return config;
     },
     dashboard: './dashboard/index.tsx',
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+
+/**
+ * Campos del payload de WooCommerce que cambian con el precio o el stock. Cuando solo
+ * cambian estos, se envía únicamente este subconjunto.
+ */
+const PRICE_STOCK_FIELDS = [
+    'regular_price',
+    'sale_price',
+    'manage_stock',
+    'stock_quantity',
+    'stock_status',
+    'low_stock_amount',
+] as const;
+
+type PriceStockField = (typeof PRICE_STOCK_FIELDS)[number];
+
+/**
+ * Hashes del último payload sincronizado, guardados en el mapeo del producto o de la
+ * variante: `contentHash` cubre todo salvo precio y stock, que van en `priceStockHash`.
+ */
+export interface PayloadHashes {
+    contentHash: string;
+    priceStockHash: string;
+}
+
+/**
+ * - `none`: el payload es idéntico al sincronizado, no se envía nada.
+ * - `price_stock`: solo cambió el precio o el stock, se envían esos campos.
+ * - `content`: cambió el resto del contenido (o no hay hashes), se envía todo.
+ */
+export type PayloadChange = 'none' | 'price_stock' | 'content';
+
+export function hashPayload(payload: object): PayloadHashes {
+    const content: Record<string, unknown> = { ...payload };
+    const priceStock: Record<string, unknown> = {};
+    for (const field of PRICE_STOCK_FIELDS) {
+        priceStock[field] = content[field];
+        delete content[field];
+    }
+    return {
+        contentHash: sha256(stableStringify(content)),
+        priceStockHash: sha256(stableStringify(priceStock)),
+    };
+}
+
+export function comparePayloadHashes(
+    stored: { contentHash?: string | null; priceStockHash?: string | null } | null | undefined,
+    next: PayloadHashes,
+): PayloadChange {
+    if (!stored?.contentHash || stored.contentHash !== next.contentHash) {
+        return 'content';
+    }
+    return stored.priceStockHash === next.priceStockHash ? 'none' : 'price_stock';
+}
+
+export function pickPriceStockFields<T extends Partial<Record<PriceStockField, unknown>>>(
+    payload: T,
+): Pick<T, PriceStockField> {
+    const picked: Partial<T> = {};
+    for (const field of PRICE_STOCK_FIELDS) {
+        if (payload[field] !== undefined) {
+            picked[field] = payload[field];
+        }
+    }
+    return picked as Pick<T, PriceStockField>;
+}
+
+function sha256(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * JSON con las claves ordenadas, para que el hash no dependa del orden en que el mapper
+ * arma el objeto. Las claves `undefined` se omiten como en `JSON.stringify`.
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,16 @@
+import { ScheduledTask } from '@vendure/core';
+import { MercadoLibreOrderService } from './services/mercadolibre-order.service';
+
+/**
+ * Respaldo de las notificaciones de MercadoLibre: si alguna se pierde, la orden se
+ * importa igual en la siguiente ejecución.
+ */
+export const pollMercadoLibreOrdersTask = new ScheduledTask({
+    id: 'poll-mercadolibre-orders',
+    description: 'Importa las órdenes recientes de MercadoLibre que no llegaron por notificación',
+    schedule: cron => cron.every(15).minutes(),
+    async execute({ injector, scheduledContext }) {
+        await injector.get(MercadoLibreOrderService).pollRecentOrders(scheduledContext);
+        return { success: true };
+    },
+});
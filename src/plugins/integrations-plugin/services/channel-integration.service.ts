@@ -0,0 +1,399 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  Channel,
+  ChannelEvent,
+  EventBus,
+  ID,
+  Job,
+  JobQueue,
+  JobQueueService,
+  Logger,
+  Product,
+  RequestContext,
+  RequestContextService,
+  TransactionalConnection,
+  UserInputError,
+} from "@vendure/core";
+import { filter } from "rxjs/operators";
+import { ChannelIntegration } from "../entities/channel-integration.entity";
+import { Integration } from "../entities/integration.entity";
+import { ProductIntegrationMapping } from "../entities/product-integration-mapping.entity";
+import {
+  getAvailableFeatures,
+  getProductRemovalPolicy,
+  IntegrationFeatureId,
+  isFeatureEnabled,
+  isLinkFeatureEnabled,
+} from "../integration-features";
+import { IntegrationService } from "./integration.service";
+import { ProductEventService } from "./product-event.service";
+import { ProductResyncService } from "./product-resync.service";
+
+export interface CreateChannelIntegrationInput {
+  channelId: ID;
+  integrationId: ID;
+  enabled?: boolean | null;
+  enabledFeatures?: string[] | null;
+  priceChannelId?: ID | null;
+}
+
+export interface UpdateChannelIntegrationInput {
+  id: ID;
+  enabled?: boolean | null;
+  enabledFeatures?: string[] | null;
+  priceChannelId?: ID | null;
+}
+
+/**
+ * - `linked`: el canal empezó a sincronizar productos con la integración (o cambió
+ *   su lista de precios); se encola la sincronización completa de su catálogo.
+ * - `unlinked`: dejó de hacerlo; se aplica la `removalPolicy` de la integración.
+ */
+interface ChannelIntegrationChangeJobData {
+  channelId: ID;
+  integrationId: ID;
+  change: "linked" | "unlinked";
+}
+
+/**
+ * Vínculos entre canales e integraciones. Al vincular un canal, la integración recibe
+ * una sincronización completa de su catálogo; al desvincularlo, la integración aplica
+ * su `removalPolicy` a los productos del canal que tenía publicados.
+ */
+@Injectable()
+export class ChannelIntegrationService implements OnModuleInit {
+  private static readonly loggerCtx = "ChannelIntegrationService";
+  private changeQueue!: JobQueue<ChannelIntegrationChangeJobData>;
+
+  constructor(
+    private eventBus: EventBus,
+    private connection: TransactionalConnection,
+    private integrationService: IntegrationService,
+    private productEventService: ProductEventService,
+    private productResyncService: ProductResyncService,
+    private jobQueueService: JobQueueService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async onModuleInit() {
+    this.changeQueue = await this.jobQueueService.createQueue({
+      name: "integration-channel-change",
+      process: async (job) => this.processChangeJob(job),
+    });
+
+    this.eventBus
+      .ofType(ChannelEvent)
+      .pipe(filter((event) => event.type === "deleted"))
+      .subscribe(async (event) => {
+        await this.connection.rawConnection
+          .getRepository(ChannelIntegration)
+          .delete({ channelId: event.entity.id });
+      });
+  }
+
+  async findByChannel(
+    ctx: RequestContext,
+    channelId: ID,
+  ): Promise<ChannelIntegration[]> {
+    return this.integrationService.findChannelIntegrations(ctx, channelId);
+  }
+
+  async create(
+    ctx: RequestContext,
+    input: CreateChannelIntegrationInput,
+  ): Promise<ChannelIntegration> {
+    const channel = await this.getChannel(ctx, input.channelId);
+    const integration = await this.getIntegration(ctx, input.integrationId);
+    if (
+      await this.integrationService.findChannelIntegration(
+        ctx,
+        channel.id,
+        integration.id,
+      )
+    ) {
+      throw new UserInputError(
+        `Integration ${integration.name} is already linked to channel ${channel.code}`,
+      );
+    }
+
+    const link = await this.connection
+      .getRepository(ctx, ChannelIntegration)
+      .save(
+        new ChannelIntegration({
+          channelId: channel.id,
+          integrationId: integration.id,
+          enabled: input.enabled ?? true,
+          enabledFeatures: this.validateFeatures(
+            integration,
+            input.enabledFeatures,
+          ),
+          priceChannelId: await this.validatePriceChannel(
+            ctx,
+            input.priceChannelId,
+          ),
+        }),
+      );
+    await this.enqueueChange(null, link);
+    return link;
+  }
+
+  async update(
+    ctx: RequestContext,
+    input: UpdateChannelIntegrationInput,
+  ): Promise<ChannelIntegration> {
+    const repository = this.connection.getRepository(ctx, ChannelIntegration);
+    const link = await repository.findOne({ where: { id: input.id } });
+    if (!link) {
+      throw new UserInputError(`Channel integration ${input.id} not found`);
+    }
+    const integration = await this.getIntegration(ctx, link.integrationId);
+    const previous = new ChannelIntegration({ ...link });
+
+    if (input.enabled != null) {
+      link.enabled = input.enabled;
+    }
+    if (input.enabledFeatures) {
+      link.enabledFeatures = this.validateFeatures(
+        integration,
+        input.enabledFeatures,
+      );
+    }
+    if (input.priceChannelId !== undefined) {
+      link.priceChannelId = await this.validatePriceChannel(
+        ctx,
+        input.priceChannelId,
+      );
+    }
+
+    const saved = await repository.save(link);
+    await this.enqueueChange(previous, saved);
+    return saved;
+  }
+
+  async delete(ctx: RequestContext, id: ID): Promise<boolean> {
+    const repository = this.connection.getRepository(ctx, ChannelIntegration);
+    const link = await repository.findOne({ where: { id } });
+    if (!link) {
+      return false;
+    }
+    await repository.delete({ id: link.id });
+    await this.enqueueChange(link, null);
+    return true;
+  }
+
+  private async enqueueChange(
+    previous: ChannelIntegration | null,
+    next: ChannelIntegration | null,
+  ) {
+    const link = (next ?? previous) as ChannelIntegration;
+    const wasSyncing = !!previous && this.syncsProducts(previous);
+    const isSyncing = !!next && this.syncsProducts(next);
+    const priceListChanged =
+      !!previous &&
+      !!next &&
+      (previous.priceChannelId ?? null) !== (next.priceChannelId ?? null);
+
+    let change: ChannelIntegrationChangeJobData["change"] | null = null;
+    if (isSyncing && (!wasSyncing || priceListChanged)) {
+      change = "linked";
+    } else if (wasSyncing && !isSyncing) {
+      change = "unlinked";
+    }
+    if (!change) {
+      return;
+    }
+
+    await this.changeQueue.add(
+      {
+        channelId: link.channelId,
+        integrationId: link.integrationId,
+        change,
+      },
+      { retries: 2 },
+    );
+    Logger.info(
+      `[QUEUE] Enqueued channel integration change=${change} channelId=${link.channelId} integrationId=${link.integrationId}`,
+      ChannelIntegrationService.loggerCtx,
+    );
+  }
+
+  private async processChangeJob(job: Job<ChannelIntegrationChangeJobData>) {
+    const { channelId, integrationId, change } = job.data;
+    const channel = await this.connection.rawConnection
+      .getRepository(Channel)
+      .findOne({ where: { id: channelId } });
+    if (!channel) {
+      Logger.warn(
+        `[QUEUE] Channel not found channelId=${channelId}. Skipping integration change.`,
+        ChannelIntegrationService.loggerCtx,
+      );
+      return;
+    }
+
+    const ctx = await this.requestContextService.create({
+      apiType: "admin",
+      channelOrToken: channel.token,
+    });
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (
+      !integration ||
+      !integration.enabled ||
+      !isFeatureEnabled(integration.enabledFeatures, "sync_products")
+    ) {
+      Logger.info(
+        `[QUEUE] Integration ${integrationId} cannot sync products; skipping ${change} of channel ${channelId}`,
+        ChannelIntegrationService.loggerCtx,
+      );
+      return;
+    }
+
+    // Si el vínculo volvió a cambiar, el job de ese cambio hace el trabajo.
+    const link = await this.integrationService.findChannelIntegration(
+      ctx,
+      channelId,
+      integrationId,
+    );
+    const isSyncing = !!link && this.syncsProducts(link);
+    if (change === "linked" && isSyncing) {
+      await this.syncChannel(ctx, channelId, integration);
+    } else if (change === "unlinked" && !isSyncing) {
+      await this.cleanUpChannel(ctx, channelId, integration);
+    }
+  }
+
+  private async syncChannel(
+    ctx: RequestContext,
+    channelId: ID,
+    integration: Integration,
+  ) {
+    const result = await this.productResyncService.resyncChannel(
+      ctx,
+      channelId,
+      {},
+      integration.id,
+    );
+    Logger.info(
+      `[QUEUE] Initial sync of channel ${channelId} with integration ${integration.name}: resyncId=${result.resyncId} products=${result.totalProducts}`,
+      ChannelIntegrationService.loggerCtx,
+    );
+  }
+
+  private async cleanUpChannel(
+    ctx: RequestContext,
+    channelId: ID,
+    integration: Integration,
+  ) {
+    const policy = getProductRemovalPolicy(integration.config);
+    if (policy === "keep") {
+      Logger.info(
+        `[QUEUE] Keeping products of channel ${channelId} in integration ${integration.name} (removal policy keep)`,
+        ChannelIntegrationService.loggerCtx,
+      );
+      return;
+    }
+
+    const productIds = await this.getMappedProductIds(
+      ctx,
+      channelId,
+      integration.id,
+    );
+    await this.productEventService.enqueueRemovals(
+      ctx,
+      integration.id,
+      channelId,
+      productIds,
+    );
+    Logger.info(
+      `[QUEUE] Enqueued removal (${policy}) of ${productIds.length} products of channel ${channelId} from integration ${integration.name}`,
+      ChannelIntegrationService.loggerCtx,
+    );
+  }
+
+  /**
+   * Productos del canal publicados en la integración: los que no tienen mapeo no
+   * tienen nada que limpiar.
+   */
+  private async getMappedProductIds(
+    ctx: RequestContext,
+    channelId: ID,
+    integrationId: ID,
+  ): Promise<ID[]> {
+    const rows = await this.connection
+      .getRepository(ctx, Product)
+      .createQueryBuilder("product")
+      .innerJoin("product.channels", "channel", "channel.id = :channelId", {
+        channelId,
+      })
+      .innerJoin(
+        ProductIntegrationMapping,
+        "mapping",
+        "mapping.vendureProductId = product.id AND mapping.integrationId = :integrationId",
+        { integrationId },
+      )
+      .where("product.deletedAt IS NULL")
+      .select("product.id", "id")
+      .orderBy("product.id", "ASC")
+      .getRawMany<{ id: ID }>();
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Solo mira el vínculo; la integración se comprueba al procesar el cambio.
+   */
+  private syncsProducts(link: ChannelIntegration): boolean {
+    return (
+      link.enabled &&
+      isLinkFeatureEnabled(link.enabledFeatures, "sync_products")
+    );
+  }
+
+  private validateFeatures(
+    integration: Integration,
+    features: string[] | null | undefined,
+  ): IntegrationFeatureId[] {
+    const available = getAvailableFeatures(integration.type).map((f) => f.id);
+    for (const feature of features ?? []) {
+      if (!available.includes(feature as IntegrationFeatureId)) {
+        throw new UserInputError(
+          `Feature "${feature}" is not available for ${integration.name}`,
+        );
+      }
+    }
+    return (features ?? []) as IntegrationFeatureId[];
+  }
+
+  private async validatePriceChannel(
+    ctx: RequestContext,
+    priceChannelId: ID | null | undefined,
+  ): Promise<ID | null> {
+    if (priceChannelId == null) {
+      return null;
+    }
+    const channel = await this.getChannel(ctx, priceChannelId);
+    return channel.id;
+  }
+
+  private async getChannel(ctx: RequestContext, id: ID): Promise<Channel> {
+    const channel = await this.connection
+      .getRepository(ctx, Channel)
+      .findOne({ where: { id } });
+    if (!channel) {
+      throw new UserInputError(`Channel ${id} not found`);
+    }
+    return channel;
+  }
+
+  private async getIntegration(
+    ctx: RequestContext,
+    id: ID,
+  ): Promise<Integration> {
+    const integration = await this.integrationService.findOne(ctx, id);
+    if (!integration) {
+      throw new UserInputError(`Integration ${id} not found`);
+    }
+    return integration;
+  }
+}
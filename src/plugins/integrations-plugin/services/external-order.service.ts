@@ -0,0 +1,451 @@
+import { Injectable } from "@nestjs/common";
+import {
+  CustomerService,
+  ID,
+  isGraphQlErrorResult,
+  Logger,
+  Order,
+  OrderService,
+  ProductVariant,
+  RequestContext,
+  TransactionalConnection,
+} from "@vendure/core";
+import { IsNull } from "typeorm";
+import { Integration } from "../entities/integration.entity";
+import { OrderIntegrationMapping } from "../entities/order-integration-mapping.entity";
+import { ProductMappingService } from "./product-mapping.service";
+
+export interface ExternalOrderLineInput {
+  quantity: number;
+  sku?: string | null;
+  /** ID del producto en la plataforma externa (ver `ProductIntegrationMapping`). */
+  externalProductId?: string | null;
+  /** ID de la variación externa (ver `VariantIntegrationMapping`). */
+  externalVariationId?: string | null;
+  /** Atributos de la variación vendida, usados si el producto tiene varias variantes. */
+  attributes?: Array<{ name: string; value: string }>;
+  title?: string;
+}
+
+export interface ExternalOrderInput {
+  externalOrderId: string;
+  externalPackId?: string | null;
+  externalStatus: string;
+  /** La orden se importa solo cuando está pagada. */
+  paid: boolean;
+  cancelled: boolean;
+  customer: {
+    emailAddress: string;
+    firstName: string;
+    lastName: string;
+    phoneNumber?: string;
+  };
+  shippingAddress?: {
+    fullName?: string;
+    streetLine1: string;
+    streetLine2?: string;
+    city?: string;
+    province?: string;
+    postalCode?: string;
+    countryCode: string;
+    phoneNumber?: string;
+  };
+  lines: ExternalOrderLineInput[];
+  payment: {
+    method: string;
+    transactionId?: string;
+    metadata?: Record<string, any>;
+  };
+  note?: string;
+}
+
+export interface ExternalOrderImportResult {
+  success: boolean;
+  data?: {
+    order?: Order;
+    status: "created" | "updated" | "cancelled" | "skipped";
+  };
+  error?: string;
+}
+
+/**
+ * Crea órdenes de Vendure a partir de órdenes de plataformas externas. Es independiente
+ * de la plataforma: cada integración traduce su orden a `ExternalOrderInput`.
+ *
+ * La importación es idempotente sobre el ID externo: si ya existe un
+ * `OrderIntegrationMapping` solo se actualiza el estado (y se cancela la orden si
+ * corresponde), nunca se crea una segunda orden.
+ */
+@Injectable()
+export class ExternalOrderService {
+  private static readonly loggerCtx = "ExternalOrderService";
+
+  constructor(
+    private connection: TransactionalConnection,
+    private orderService: OrderService,
+    private customerService: CustomerService,
+    private productMappingService: ProductMappingService,
+  ) {}
+
+  async getMapping(
+    ctx: RequestContext,
+    integrationId: ID,
+    externalOrderId: string,
+  ): Promise<OrderIntegrationMapping | null> {
+    return this.connection
+      .getRepository(ctx, OrderIntegrationMapping)
+      .findOne({
+        where: {
+          integrationId: String(integrationId),
+          externalOrderId,
+        },
+      });
+  }
+
+  async getMappingForOrder(
+    ctx: RequestContext,
+    vendureOrderId: ID,
+  ): Promise<OrderIntegrationMapping | null> {
+    return this.connection
+      .getRepository(ctx, OrderIntegrationMapping)
+      .findOne({ where: { vendureOrderId: String(vendureOrderId) } });
+  }
+
+  /**
+   * Busca la orden por su ID externo o por el agrupador (pack) al que pertenece.
+   */
+  async getMappingByExternalReference(
+    ctx: RequestContext,
+    integrationId: ID,
+    externalId: string,
+  ): Promise<OrderIntegrationMapping | null> {
+    return this.connection
+      .getRepository(ctx, OrderIntegrationMapping)
+      .findOne({
+        where: [
+          { integrationId: String(integrationId), externalOrderId: externalId },
+          { integrationId: String(integrationId), externalPackId: externalId },
+        ],
+      });
+  }
+
+  /**
+   * Registra un estado que Vendure envió a la plataforma externa, para que la
+   * notificación de ese mismo cambio no se procese como una novedad.
+   */
+  async updateExternalStatus(
+    ctx: RequestContext,
+    integrationId: ID,
+    externalOrderId: string,
+    externalStatus: string,
+  ): Promise<void> {
+    await this.connection
+      .getRepository(ctx, OrderIntegrationMapping)
+      .update(
+        { integrationId: String(integrationId), externalOrderId },
+        { externalStatus },
+      );
+  }
+
+  /**
+   * `ctx` debe pertenecer al canal de la integración: la orden, el cliente y los
+   * precios se resuelven en ese canal.
+   */
+  async importOrder(
+    ctx: RequestContext,
+    integration: Integration,
+    input: ExternalOrderInput,
+  ): Promise<ExternalOrderImportResult> {
+    const label = `integration=${integration.id} externalOrderId=${input.externalOrderId}`;
+
+    try {
+      const existing = await this.getMapping(
+        ctx,
+        integration.id,
+        input.externalOrderId,
+      );
+      if (existing) {
+        return await this.updateExistingOrder(ctx, existing, input);
+      }
+
+      if (input.cancelled || !input.paid) {
+        Logger.info(
+          `[ORDER] Skipping ${label} status=${input.externalStatus}`,
+          ExternalOrderService.loggerCtx,
+        );
+        return { success: true, data: { status: "skipped" } };
+      }
+
+      const order = await this.connection.withTransaction(ctx, (txCtx) =>
+        this.createOrder(txCtx, integration, input),
+      );
+
+      Logger.info(
+        `[ORDER] Imported ${label} as order ${order.code}`,
+        ExternalOrderService.loggerCtx,
+      );
+      return { success: true, data: { order, status: "created" } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error(
+        `[ORDER] Failed to import ${label}: ${message}`,
+        ExternalOrderService.loggerCtx,
+        error instanceof Error ? error.stack : undefined,
+      );
+      return { success: false, error: message };
+    }
+  }
+
+  private async updateExistingOrder(
+    ctx: RequestContext,
+    mapping: OrderIntegrationMapping,
+    input: ExternalOrderInput,
+  ): Promise<ExternalOrderImportResult> {
+    const order = await this.orderService.findOne(ctx, mapping.vendureOrderId);
+    let status: "updated" | "cancelled" = "updated";
+
+    if (input.cancelled && order && order.state !== "Cancelled") {
+      const result = await this.orderService.cancelOrder(ctx, {
+        orderId: order.id,
+        reason: `Cancelada en la plataforma externa (${input.externalStatus})`,
+        cancelShipping: true,
+      });
+      if (isGraphQlErrorResult(result)) {
+        return { success: false, error: result.message };
+      }
+      status = "cancelled";
+      Logger.info(
+        `[ORDER] Cancelled order ${mapping.vendureOrderCode} externalOrderId=${mapping.externalOrderId}`,
+        ExternalOrderService.loggerCtx,
+      );
+    }
+
+    if (mapping.externalStatus !== input.externalStatus) {
+      mapping.externalStatus = input.externalStatus;
+      await this.connection
+        .getRepository(ctx, OrderIntegrationMapping)
+        .save(mapping);
+    }
+
+    return { success: true, data: { order, status } };
+  }
+
+  private async createOrder(
+    ctx: RequestContext,
+    integration: Integration,
+    input: ExternalOrderInput,
+  ): Promise<Order> {
+    const items: Array<{ productVariantId: ID; quantity: number }> = [];
+    for (const line of input.lines) {
+      const variant = await this.resolveVariant(ctx, integration, line);
+      if (!variant) {
+        throw new Error(
+          `Could not resolve line "${line.title ?? line.sku ?? line.externalProductId}" (sku=${line.sku ?? "n/a"} externalProductId=${line.externalProductId ?? "n/a"})`,
+        );
+      }
+      items.push({ productVariantId: variant.id, quantity: line.quantity });
+    }
+
+    const draft = await this.orderService.createDraft(ctx);
+
+    const customer = await this.customerService.createOrUpdate(
+      ctx,
+      input.customer,
+    );
+    if (isGraphQlErrorResult(customer)) {
+      throw new Error(customer.message);
+    }
+    await this.orderService.addCustomerToOrder(ctx, draft.id, customer);
+
+    const { errorResults } = await this.orderService.addItemsToOrder(
+      ctx,
+      draft.id,
+      items,
+    );
+    if (errorResults.length > 0) {
+      throw new Error(errorResults.map((e) => e.message).join("; "));
+    }
+
+    if (input.shippingAddress) {
+      await this.orderService.setShippingAddress(
+        ctx,
+        draft.id,
+        input.shippingAddress,
+      );
+      await this.orderService.setBillingAddress(
+        ctx,
+        draft.id,
+        input.shippingAddress,
+      );
+    }
+
+    await this.setShippingMethod(ctx, integration, draft.id);
+
+    const arranging = await this.orderService.transitionToState(
+      ctx,
+      draft.id,
+      "ArrangingPayment",
+    );
+    if (isGraphQlErrorResult(arranging)) {
+      throw new Error(arranging.transitionError || arranging.message);
+    }
+
+    const paid = await this.orderService.addManualPaymentToOrder(ctx, {
+      orderId: draft.id,
+      ...input.payment,
+    });
+    if (isGraphQlErrorResult(paid)) {
+      throw new Error(paid.message);
+    }
+
+    const settled = await this.orderService.transitionToState(
+      ctx,
+      draft.id,
+      "PaymentSettled",
+    );
+    if (isGraphQlErrorResult(settled)) {
+      throw new Error(settled.transitionError || settled.message);
+    }
+
+    if (input.note) {
+      await this.orderService.addNoteToOrder(ctx, {
+        id: draft.id,
+        note: input.note,
+        isPublic: false,
+      });
+    }
+
+    // La restricción única de la tabla evita duplicados si dos jobs importan la misma
+    // orden a la vez: el segundo falla y su transacción se revierte.
+    await this.connection.getRepository(ctx, OrderIntegrationMapping).save(
+      new OrderIntegrationMapping({
+        integrationId: String(integration.id),
+        externalOrderId: input.externalOrderId,
+        externalPackId: input.externalPackId ?? null,
+        vendureOrderId: String(settled.id),
+        vendureOrderCode: settled.code,
+        externalStatus: input.externalStatus,
+      }),
+    );
+
+    return settled;
+  }
+
+  /**
+   * Usa el método de envío configurado en la integración (`shippingMethodCode`) o, si
+   * no hay ninguno, el primero elegible para la orden.
+   */
+  private async setShippingMethod(
+    ctx: RequestContext,
+    integration: Integration,
+    orderId: ID,
+  ) {
+    const quotes = await this.orderService.getEligibleShippingMethods(
+      ctx,
+      orderId,
+    );
+    const code = integration.config?.shippingMethodCode;
+    const quote = code ? quotes.find((q) => q.code === code) : quotes[0];
+    if (!quote) {
+      throw new Error(
+        code
+          ? `Shipping method "${code}" is not eligible for this order`
+          : "No eligible shipping method for this order",
+      );
+    }
+
+    const result = await this.orderService.setShippingMethod(ctx, orderId, [
+      quote.id,
+    ]);
+    if (isGraphQlErrorResult(result)) {
+      throw new Error(result.message);
+    }
+  }
+
+  /**
+   * Resuelve la variante por SKU; si no coincide, por el mapeo de la variación externa
+   * o, en su defecto, por el mapeo del producto externo y los atributos de la
+   * variación vendida.
+   */
+  private async resolveVariant(
+    ctx: RequestContext,
+    integration: Integration,
+    line: ExternalOrderLineInput,
+  ): Promise<ProductVariant | null> {
+    if (line.sku) {
+      const bySku = await this.connection
+        .getRepository(ctx, ProductVariant)
+        .findOne({
+          where: {
+            sku: line.sku,
+            deletedAt: IsNull(),
+            channels: { id: ctx.channelId },
+          },
+        });
+      if (bySku) {
+        return bySku;
+      }
+    }
+
+    if (!line.externalProductId) {
+      return null;
+    }
+
+    if (line.externalVariationId) {
+      const variantMapping = (
+        await this.productMappingService.getVariantMappings(
+          ctx,
+          integration.id,
+          line.externalProductId,
+        )
+      ).find((m) => m.externalVariationId === line.externalVariationId);
+      const byVariantMapping = variantMapping
+        ? await this.connection.getRepository(ctx, ProductVariant).findOne({
+            where: { id: variantMapping.vendureVariantId, deletedAt: IsNull() },
+          })
+        : null;
+      if (byVariantMapping) {
+        return byVariantMapping;
+      }
+    }
+
+    const mapping = await this.productMappingService.getMappingByExternalId(
+      ctx,
+      integration.id,
+      line.externalProductId,
+    );
+    if (!mapping) {
+      return null;
+    }
+
+    const variants = await this.connection
+      .getRepository(ctx, ProductVariant)
+      .find({
+        where: {
+          productId: mapping.vendureProductId,
+          deletedAt: IsNull(),
+        },
+        relations: ["options", "options.translations"],
+      });
+
+    if (variants.length === 1) {
+      return variants[0];
+    }
+
+    const attributes = (line.attributes || []).map((a) =>
+      a.value.trim().toLowerCase(),
+    );
+    if (attributes.length === 0) {
+      return null;
+    }
+
+    return (
+      variants.find((variant) => {
+        const optionNames = (variant.options || []).flatMap((option) =>
+          (option.translations || []).map((t) => t.name.trim().toLowerCase()),
+        );
+        return attributes.every((value) => optionNames.includes(value));
+      }) ?? null
+    );
+  }
+}
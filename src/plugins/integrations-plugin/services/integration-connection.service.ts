@@ -0,0 +1,145 @@
+import { Injectable } from "@nestjs/common";
+import { Logger } from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import { getMercadoLibreApiBaseUrl } from "./mercadolibre-auth.service";
+import { MercadoLibreService } from "./mercadolibre.service";
+import { WordPressService } from "./wordpress.service";
+
+export type IntegrationPermissionScope =
+  | "NONE"
+  | "READ"
+  | "WRITE"
+  | "READ_WRITE"
+  | "UNKNOWN";
+
+export interface IntegrationConnectionTestResult {
+  success: boolean;
+  reachable: boolean;
+  authenticated: boolean;
+  scope: IntegrationPermissionScope;
+  wordpressVersion?: string | null;
+  woocommerceVersion?: string | null;
+  accountId?: string | null;
+  accountName?: string | null;
+  error?: string | null;
+}
+
+/**
+ * Prueba de conexión de una integración (guardada o todavía sin guardar), con el
+ * chequeo propio de cada plataforma.
+ */
+@Injectable()
+export class IntegrationConnectionService {
+  private static readonly loggerCtx = "IntegrationConnectionService";
+
+  constructor(
+    private wordPressService: WordPressService,
+    private mercadoLibreService: MercadoLibreService,
+  ) {}
+
+  async testConnection(
+    integration: Integration,
+  ): Promise<IntegrationConnectionTestResult> {
+    const result =
+      integration.type === "wordpress"
+        ? await this.testWordPress(integration)
+        : await this.testMercadoLibre(integration);
+
+    Logger.info(
+      `Connection test integration=${integration.id ?? "unsaved"} type=${integration.type} reachable=${result.reachable} authenticated=${result.authenticated} scope=${result.scope}`,
+      IntegrationConnectionService.loggerCtx,
+    );
+    return result;
+  }
+
+  private async testWordPress(
+    integration: Integration,
+  ): Promise<IntegrationConnectionTestResult> {
+    const info = await this.wordPressService.testConnection(integration);
+    const scope: IntegrationPermissionScope = !info.authenticated
+      ? "NONE"
+      : info.canWrite === null
+        ? "UNKNOWN"
+        : info.canWrite
+          ? "READ_WRITE"
+          : "READ";
+
+    return {
+      success: info.authenticated && info.canWrite !== false,
+      reachable: info.reachable,
+      authenticated: info.authenticated,
+      scope,
+      wordpressVersion: info.wordpressVersion ?? null,
+      woocommerceVersion: info.woocommerceVersion ?? null,
+      error:
+        info.error ??
+        (info.canWrite === false
+          ? "The API key does not have write permission"
+          : null),
+    };
+  }
+
+  private async testMercadoLibre(
+    integration: Integration,
+  ): Promise<IntegrationConnectionTestResult> {
+    const user = await this.mercadoLibreService.getCurrentUser(integration);
+    if (!user.success || !user.data) {
+      // Sin respuesta HTTP (o sin token) se comprueba si la API es accesible.
+      const reachable =
+        user.status !== undefined || (await this.isMercadoLibreReachable());
+      return {
+        success: false,
+        reachable,
+        authenticated: false,
+        scope: "NONE",
+        error: user.error,
+      };
+    }
+
+    let scope: IntegrationPermissionScope = "UNKNOWN";
+    const clientId = integration.config?.clientId;
+    if (clientId) {
+      const application = await this.mercadoLibreService.getApplication(
+        integration,
+        clientId,
+      );
+      const scopes = application.data?.scopes;
+      if (application.success && Array.isArray(scopes)) {
+        const canRead = scopes.includes("read");
+        const canWrite = scopes.includes("write");
+        scope =
+          canRead && canWrite
+            ? "READ_WRITE"
+            : canWrite
+              ? "WRITE"
+              : canRead
+                ? "READ"
+                : "NONE";
+      }
+    }
+
+    return {
+      success: scope === "READ_WRITE" || scope === "UNKNOWN",
+      reachable: true,
+      authenticated: true,
+      scope,
+      accountId: String(user.data.id),
+      accountName: user.data.nickname,
+      error:
+        scope === "READ_WRITE" || scope === "UNKNOWN"
+          ? null
+          : "The MercadoLibre application does not have read and write scopes",
+    };
+  }
+
+  private async isMercadoLibreReachable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${getMercadoLibreApiBaseUrl()}/sites`, {
+        headers: { Accept: "application/json" },
+      });
+      return response.status < 500;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,416 @@
+import { Injectable } from "@nestjs/common";
+import {
+  ID,
+  idsAreEqual,
+  Logger,
+  Product,
+  RequestContext,
+  RequestContextService,
+  TransactionalConnection,
+  UserInputError,
+} from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import { IntegrationService } from "./integration.service";
+import { ProductEventService } from "./product-event.service";
+import { ProductMapperService } from "./product-mapper.service";
+import { ProductMappingService } from "./product-mapping.service";
+import {
+  WordPressProduct,
+  WordPressProductVariation,
+  WordPressService,
+  WordPressTaxonomyTerm,
+} from "./wordpress.service";
+
+export interface IntegrationPayloadDiff {
+  path: string;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface IntegrationPayloadPreview {
+  integrationId: ID;
+  productId: ID;
+  channelId: ID;
+  externalProductId: string | null;
+  /**
+   * Lo que haría la sincronización: crear el producto, actualizarlo o recrearlo
+   * (cuando cambia el tipo simple/variable).
+   */
+  action: "create" | "update" | "recreate";
+  product: Partial<WordPressProduct>;
+  variations: Array<Partial<WordPressProductVariation>>;
+  categories: WordPressTaxonomyTerm[];
+  tags: WordPressTaxonomyTerm[];
+  diff: IntegrationPayloadDiff[];
+  remoteError: string | null;
+}
+
+const PRODUCT_DIFF_FIELDS = [
+  "name",
+  "type",
+  "status",
+  "sku",
+  "regular_price",
+  "sale_price",
+  "description",
+  "short_description",
+  "manage_stock",
+  "stock_quantity",
+  "low_stock_amount",
+  "stock_status",
+] as const;
+
+const VARIATION_DIFF_FIELDS = [
+  "sku",
+  "description",
+  "regular_price",
+  "sale_price",
+  "manage_stock",
+  "stock_quantity",
+  "low_stock_amount",
+  "stock_status",
+] as const;
+
+/**
+ * Arma el payload que la sincronización enviaría a WooCommerce para un producto, sin
+ * escribir nada (ni en WooCommerce ni en los mapeos), y lo compara con el producto
+ * remoto actual.
+ */
+@Injectable()
+export class IntegrationPreviewService {
+  private static readonly loggerCtx = "IntegrationPreviewService";
+
+  constructor(
+    private connection: TransactionalConnection,
+    private integrationService: IntegrationService,
+    private productEventService: ProductEventService,
+    private productMapper: ProductMapperService,
+    private productMappingService: ProductMappingService,
+    private wordPressService: WordPressService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async previewWordPressPayload(
+    ctx: RequestContext,
+    productId: ID,
+    integrationId: ID,
+  ): Promise<IntegrationPayloadPreview> {
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration) {
+      throw new UserInputError(`Integration ${integrationId} not found`);
+    }
+    if (integration.type !== "wordpress") {
+      throw new UserInputError(
+        "Payload preview only supported for WordPress integrations",
+      );
+    }
+
+    const channelCtx = await this.getChannelContext(
+      ctx,
+      integration,
+      productId,
+    );
+    const link = await this.integrationService.findChannelIntegration(
+      ctx,
+      channelCtx.channelId,
+      integration.id,
+    );
+    const fullProduct = await this.productEventService.getFullProductForChannel(
+      channelCtx,
+      productId,
+      link?.priceChannelId,
+    );
+    if (!fullProduct) {
+      throw new UserInputError(`Product ${productId} not found`);
+    }
+
+    const { product: mappedProduct, variations: mappedVariations, facetValues } =
+      this.productMapper.vendureToWordPress(fullProduct);
+    const payload: Partial<WordPressProduct> = {
+      ...mappedProduct,
+      status: fullProduct.enabled ? "publish" : "draft",
+    };
+
+    let remoteError: string | null = null;
+    let categories: WordPressTaxonomyTerm[] = [];
+    let tags: WordPressTaxonomyTerm[] = [];
+    if (facetValues.length > 0) {
+      const taxonomies = await this.wordPressService.resolveFacetValueTaxonomies(
+        integration,
+        facetValues,
+      );
+      if (taxonomies.success && taxonomies.data) {
+        ({ categories, tags } = taxonomies.data);
+        // Los términos nuevos se crean al sincronizar; su ID todavía no existe.
+        const ids = (terms: WordPressTaxonomyTerm[]) =>
+          terms.flatMap((term) => (term.id ? [{ id: term.id }] : []));
+        if (categories.length > 0) {
+          payload.categories = ids(categories);
+        }
+        if (tags.length > 0) {
+          payload.tags = ids(tags);
+        }
+      } else {
+        remoteError = `Could not resolve categories and tags: ${taxonomies.error}`;
+      }
+    }
+
+    const product = this.wordPressService.sanitizeProductPayload(payload);
+    const variations = (mappedVariations ?? []).map((variation) =>
+      this.wordPressService.sanitizeVariationPayload(variation),
+    );
+
+    const mapping = await this.productMappingService.getMapping(
+      channelCtx,
+      fullProduct.id,
+      integration.id,
+    );
+    const lookupSku =
+      product.sku || variations[0]?.sku || `vendure-product-${fullProduct.id}`;
+    const remoteResult = mapping
+      ? await this.wordPressService.getProduct(
+          integration,
+          Number(mapping.externalProductId),
+        )
+      : await this.wordPressService.findProductBySku(integration, lookupSku);
+    const remote = remoteResult.success ? remoteResult.data ?? null : null;
+    if (!remoteResult.success && remoteResult.status !== 404) {
+      remoteError = remoteResult.error ?? "Could not load the remote product";
+    }
+
+    const diff: IntegrationPayloadDiff[] = [];
+    if (remote) {
+      diff.push(...this.diffProduct(product, remote));
+      if (remote.type === "variable" && remote.id) {
+        diff.push(
+          ...(await this.diffVariations(
+            channelCtx,
+            integration,
+            remote.id,
+            variations,
+          )),
+        );
+      }
+    }
+
+    return {
+      integrationId: integration.id,
+      productId: fullProduct.id,
+      channelId: channelCtx.channelId,
+      externalProductId: remote?.id
+        ? String(remote.id)
+        : (mapping?.externalProductId ?? null),
+      action: !remote
+        ? "create"
+        : remote.type !== product.type
+          ? "recreate"
+          : "update",
+      product,
+      variations,
+      categories,
+      tags,
+      diff,
+      remoteError,
+    };
+  }
+
+  /**
+   * Contexto del primer canal de la integración al que pertenece el producto: los
+   * precios del payload son los de la lista de precios de ese vínculo.
+   */
+  private async getChannelContext(
+    ctx: RequestContext,
+    integration: Integration,
+    productId: ID,
+  ): Promise<RequestContext> {
+    const product = await this.connection
+      .getRepository(ctx, Product)
+      .findOne({ where: { id: productId }, relations: ["channels"] });
+    if (!product) {
+      throw new UserInputError(`Product ${productId} not found`);
+    }
+
+    const channels = await this.integrationService.findChannelsForIntegration(
+      ctx,
+      integration.id,
+      "sync_products",
+    );
+    const channel = channels.find((c) =>
+      product.channels.some((pc) => idsAreEqual(pc.id, c.id)),
+    );
+    if (!channel) {
+      throw new UserInputError(
+        `Product ${productId} is not assigned to any channel of integration ${integration.id}`,
+      );
+    }
+
+    return this.requestContextService.create({
+      apiType: "admin",
+      channelOrToken: channel.token,
+      languageCode: ctx.languageCode,
+    });
+  }
+
+  /**
+   * Solo se comparan los campos que el payload envía: los ausentes no se modifican en
+   * WooCommerce. Las imágenes se comparan por cantidad, porque WooCommerce guarda una
+   * copia con otra URL.
+   */
+  private diffProduct(
+    local: Partial<WordPressProduct>,
+    remote: WordPressProduct,
+  ): IntegrationPayloadDiff[] {
+    const diff: IntegrationPayloadDiff[] = [];
+    for (const field of PRODUCT_DIFF_FIELDS) {
+      this.compare(diff, field, local[field], remote[field]);
+    }
+    if (local.categories) {
+      this.compare(
+        diff,
+        "categories",
+        this.termIds(local.categories),
+        this.termIds(remote.categories),
+      );
+    }
+    if (local.tags) {
+      this.compare(
+        diff,
+        "tags",
+        this.termIds(local.tags),
+        this.termIds(remote.tags),
+      );
+    }
+    if (local.images) {
+      this.compare(
+        diff,
+        "images.length",
+        local.images.length,
+        remote.images?.length ?? 0,
+      );
+    }
+    if (local.attributes) {
+      this.compare(
+        diff,
+        "attributes",
+        this.attributeSummary(local.attributes),
+        this.attributeSummary(remote.attributes),
+      );
+    }
+    return diff;
+  }
+
+  /**
+   * Empareja las variaciones por `VariantIntegrationMapping` (o por SKU si la variante
+   * todavía no está vinculada).
+   */
+  private async diffVariations(
+    ctx: RequestContext,
+    integration: Integration,
+    remoteProductId: number,
+    localVariations: Array<Partial<WordPressProductVariation>>,
+  ): Promise<IntegrationPayloadDiff[]> {
+    const remoteResult = await this.wordPressService.getProductVariations(
+      integration,
+      remoteProductId,
+    );
+    if (!remoteResult.success) {
+      Logger.warn(
+        `Could not read variations of WooCommerce product ${remoteProductId}: ${remoteResult.error}`,
+        IntegrationPreviewService.loggerCtx,
+      );
+      return [];
+    }
+    const remoteVariations = remoteResult.data ?? [];
+    const variantMappings = await this.productMappingService.getVariantMappings(
+      ctx,
+      integration.id,
+      String(remoteProductId),
+    );
+
+    const diff: IntegrationPayloadDiff[] = [];
+    const matchedRemoteIds = new Set<number>();
+    for (const local of localVariations) {
+      const vendureVariantId = local.meta_data?.find(
+        (meta) => meta.key === "_vendure_variant_id",
+      )?.value;
+      const externalVariationId = variantMappings.find(
+        (m) => String(m.vendureVariantId) === String(vendureVariantId),
+      )?.externalVariationId;
+      const remote = remoteVariations.find((variation) =>
+        externalVariationId
+          ? String(variation.id) === externalVariationId
+          : !!local.sku && variation.sku === local.sku,
+      );
+      const label = `variations[${local.sku || vendureVariantId}]`;
+
+      if (!remote) {
+        diff.push({ path: label, local: { sku: local.sku }, remote: null });
+        continue;
+      }
+      matchedRemoteIds.add(Number(remote.id));
+      for (const field of VARIATION_DIFF_FIELDS) {
+        this.compare(diff, `${label}.${field}`, local[field], remote[field]);
+      }
+      if (local.attributes) {
+        this.compare(
+          diff,
+          `${label}.attributes`,
+          this.variationAttributeSummary(local.attributes),
+          this.variationAttributeSummary(remote.attributes),
+        );
+      }
+    }
+
+    for (const remote of remoteVariations) {
+      if (!matchedRemoteIds.has(Number(remote.id))) {
+        diff.push({
+          path: `variations[#${remote.id}]`,
+          local: null,
+          remote: { id: remote.id, sku: remote.sku },
+        });
+      }
+    }
+    return diff;
+  }
+
+  private compare(
+    diff: IntegrationPayloadDiff[],
+    path: string,
+    local: unknown,
+    remote: unknown,
+  ) {
+    if (local === undefined) {
+      return;
+    }
+    const normalize = (value: unknown) =>
+      value === null || value === undefined || value === ""
+        ? null
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+    if (normalize(local) !== normalize(remote)) {
+      diff.push({ path, local, remote: remote ?? null });
+    }
+  }
+
+  private termIds(terms: Array<{ id: number }> | undefined): number[] {
+    return (terms ?? []).map((term) => term.id).sort((a, b) => a - b);
+  }
+
+  private attributeSummary(
+    attributes: WordPressProduct["attributes"],
+  ): string[] {
+    return (attributes ?? [])
+      .map((a) => `${a.name}: ${[...a.options].sort().join(", ")}`)
+      .sort();
+  }
+
+  private variationAttributeSummary(
+    attributes: WordPressProductVariation["attributes"],
+  ): string[] {
+    return (attributes ?? []).map((a) => `${a.name}: ${a.option}`).sort();
+  }
+}
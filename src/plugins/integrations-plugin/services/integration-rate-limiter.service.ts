@@ -0,0 +1,271 @@
+import { Injectable } from "@nestjs/common";
+import {
+  ID,
+  Logger,
+  RequestContext,
+  TransactionalConnection,
+} from "@vendure/core";
+import { randomUUID } from "crypto";
+import { EntityManager } from "typeorm";
+import { IntegrationRateLimit } from "../entities/integration-rate-limit.entity";
+import { Integration } from "../entities/integration.entity";
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_MAX_CONCURRENCY = 2;
+/**
+ * Una lease que no se liberó en este tiempo se considera abandonada.
+ */
+const LEASE_TTL_MS = 2 * 60 * 1000;
+const CONCURRENCY_POLL_MS = 500;
+/**
+ * Espera máxima para obtener turno; después la llamada falla (y el job se reintenta).
+ * El tiempo de bloqueo por un 429 no cuenta: el `Retry-After` puede ser más largo.
+ */
+const MAX_WAIT_MS = 10 * 60 * 1000;
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+const MAX_RETRY_AFTER_SECONDS = 15 * 60;
+/**
+ * Reintentos de una llamada que recibió 429, después de esperar el `Retry-After`.
+ */
+const MAX_RATE_LIMITED_RETRIES = 2;
+
+export interface IntegrationRateLimitSettings {
+  requestsPerMinute: number;
+  maxConcurrency: number;
+}
+
+/**
+ * Límite configurado en la integración (`requestsPerMinute` y `maxConcurrency`), o el
+ * valor por defecto si el campo está vacío.
+ */
+export function getRateLimitSettings(
+  integration: Integration,
+): IntegrationRateLimitSettings {
+  const parse = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    requestsPerMinute: parse(
+      integration.config?.requestsPerMinute,
+      DEFAULT_REQUESTS_PER_MINUTE,
+    ),
+    maxConcurrency: parse(
+      integration.config?.maxConcurrency,
+      DEFAULT_MAX_CONCURRENCY,
+    ),
+  };
+}
+
+/**
+ * Segundos a esperar según la cabecera `Retry-After` (segundos o fecha HTTP).
+ */
+export function parseRetryAfter(value: string | null | undefined): number {
+  if (!value) {
+    return DEFAULT_RETRY_AFTER_SECONDS;
+  }
+  const seconds = /^\d+$/.test(value.trim())
+    ? Number(value)
+    : (Date.parse(value) - Date.now()) / 1000;
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    return DEFAULT_RETRY_AFTER_SECONDS;
+  }
+  return Math.min(Math.ceil(seconds), MAX_RETRY_AFTER_SECONDS);
+}
+
+/**
+ * Token bucket y límite de concurrencia por integración para las llamadas HTTP
+ * salientes. El estado se guarda en `IntegrationRateLimit` y se lee con un lock de
+ * fila, así que el límite es común a todos los procesos. El bucket se recarga a
+ * `requestsPerMinute` y admite ráfagas de hasta `maxConcurrency` llamadas.
+ */
+@Injectable()
+export class IntegrationRateLimiterService {
+  private static readonly loggerCtx = "IntegrationRateLimiterService";
+
+  constructor(private connection: TransactionalConnection) {}
+
+  /**
+   * Ejecuta `call` cuando la integración tiene turno. Si `getRetryAfter` devuelve
+   * segundos (la respuesta fue un 429), la integración queda bloqueada ese tiempo para
+   * todos los procesos y la llamada se reintenta hasta `MAX_RATE_LIMITED_RETRIES`
+   * veces; después se devuelve la última respuesta.
+   */
+  async run<T>(
+    integration: Integration,
+    call: () => Promise<T>,
+    getRetryAfter: (result: T) => number | null,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const release = await this.acquire(integration);
+      let result: T;
+      try {
+        result = await call();
+      } finally {
+        await release();
+      }
+
+      const retryAfter = getRetryAfter(result);
+      if (retryAfter === null) {
+        return result;
+      }
+      await this.block(integration, retryAfter);
+      if (attempt >= MAX_RATE_LIMITED_RETRIES) {
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Fecha hasta la que la integración está bloqueada por un 429, o `null`.
+   */
+  async getBlockedUntil(
+    ctx: RequestContext,
+    integrationId: ID,
+  ): Promise<Date | null> {
+    const state = await this.connection
+      .getRepository(ctx, IntegrationRateLimit)
+      .findOne({ where: { integrationId: String(integrationId) } });
+    return state?.blockedUntil && state.blockedUntil.getTime() > Date.now()
+      ? state.blockedUntil
+      : null;
+  }
+
+  /**
+   * Espera un token y un lugar de concurrencia. Devuelve la función que libera el
+   * lugar al terminar la llamada. Mientras la integración está bloqueada por un 429 se
+   * espera hasta `blockedUntil` y el plazo de `MAX_WAIT_MS` se corre en lo mismo.
+   */
+  private async acquire(
+    integration: Integration,
+  ): Promise<() => Promise<void>> {
+    const settings = getRateLimitSettings(integration);
+    const integrationId = String(integration.id);
+    const leaseId = randomUUID();
+    let deadline = Date.now() + MAX_WAIT_MS;
+
+    for (;;) {
+      let blocked = false;
+      const waitMs = await this.withLockedState(
+        integrationId,
+        settings,
+        (state, now) => {
+          if (state.blockedUntil && state.blockedUntil.getTime() > now) {
+            blocked = true;
+            return state.blockedUntil.getTime() - now;
+          }
+          if (state.leases.length >= settings.maxConcurrency) {
+            return CONCURRENCY_POLL_MS;
+          }
+          if (state.tokens < 1) {
+            return Math.ceil(
+              ((1 - state.tokens) * 60_000) / settings.requestsPerMinute,
+            );
+          }
+          state.tokens -= 1;
+          state.leases.push({ id: leaseId, expiresAt: now + LEASE_TTL_MS });
+          return 0;
+        },
+      );
+      if (waitMs === 0) {
+        return () => this.release(integrationId, settings, leaseId);
+      }
+      if (blocked) {
+        deadline += waitMs;
+      } else if (Date.now() + waitMs > deadline) {
+        throw new Error(
+          `Timed out waiting for rate limit of integration ${integrationId}`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private async release(
+    integrationId: string,
+    settings: IntegrationRateLimitSettings,
+    leaseId: string,
+  ): Promise<void> {
+    try {
+      await this.withLockedState(integrationId, settings, (state) => {
+        state.leases = state.leases.filter((lease) => lease.id !== leaseId);
+      });
+    } catch (error) {
+      // La lease vence sola después de `LEASE_TTL_MS`.
+      Logger.warn(
+        `Could not release rate limit lease integration=${integrationId}: ${error instanceof Error ? error.message : String(error)}`,
+        IntegrationRateLimiterService.loggerCtx,
+      );
+    }
+  }
+
+  private async block(
+    integration: Integration,
+    seconds: number,
+  ): Promise<void> {
+    const integrationId = String(integration.id);
+    Logger.warn(
+      `Integration ${integrationId} rate limited by remote API; pausing calls for ${seconds}s`,
+      IntegrationRateLimiterService.loggerCtx,
+    );
+    await this.withLockedState(
+      integrationId,
+      getRateLimitSettings(integration),
+      (state, now) => {
+        const until = now + seconds * 1000;
+        if (!state.blockedUntil || state.blockedUntil.getTime() < until) {
+          state.blockedUntil = new Date(until);
+        }
+      },
+    );
+  }
+
+  /**
+   * Ejecuta `update` sobre el estado de la integración (creándolo si no existe) con la
+   * fila bloqueada, después de recargar el bucket y descartar las leases vencidas.
+   */
+  private async withLockedState<R>(
+    integrationId: string,
+    settings: IntegrationRateLimitSettings,
+    update: (state: IntegrationRateLimit, now: number) => R,
+  ): Promise<R> {
+    return this.connection.rawConnection.transaction(
+      async (manager: EntityManager) => {
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into(IntegrationRateLimit)
+          .values({
+            integrationId,
+            tokens: settings.maxConcurrency,
+            refilledAt: new Date(),
+            leases: [],
+            blockedUntil: null,
+          })
+          .orIgnore()
+          .execute();
+        const state = await manager
+          .getRepository(IntegrationRateLimit)
+          .createQueryBuilder("state")
+          .setLock("pessimistic_write")
+          .where("state.integrationId = :integrationId", { integrationId })
+          .getOneOrFail();
+
+        const now = Date.now();
+        const elapsedMinutes = (now - state.refilledAt.getTime()) / 60_000;
+        state.tokens = Math.min(
+          settings.maxConcurrency,
+          state.tokens + Math.max(0, elapsedMinutes) * settings.requestsPerMinute,
+        );
+        state.refilledAt = new Date(now);
+        state.leases = (state.leases ?? []).filter(
+          (lease) => lease.expiresAt > now,
+        );
+
+        const result = update(state, now);
+        await manager.save(state);
+        return result;
+      },
+    );
+  }
+}
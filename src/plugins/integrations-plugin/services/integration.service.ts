@@ -6,9 +6,14 @@ import {
     PaginatedList,
     ListQueryBuilder,
     ListQueryOptions,
+    Channel,
+    idsAreEqual,
 } from '@vendure/core';
+import { In } from 'typeorm';
+import { ChannelIntegration } from '../entities/channel-integration.entity';
 import { Integration, IntegrationType } from '../entities/integration.entity';
-import { IntegrationFeatureId } from '../integration-features';
+import { IntegrationFeatureId, isLinkFeatureEnabled } from '../integration-features';
+import { mergeConfigUpdate } from '../integration-credentials';
 
 @Injectable()
 export class IntegrationService {
@@ -36,6 +41,65 @@ export class IntegrationService {
         });
     }
 
+    /**
+     * Canales con un vínculo activo a la integración, en el orden en que se vincularon.
+     * Con `feature`, solo los canales cuyo vínculo tiene habilitada esa funcionalidad.
+     */
+    async findChannelsForIntegration(
+        ctx: RequestContext,
+        id: ID,
+        feature?: IntegrationFeatureId,
+    ): Promise<Channel[]> {
+        const links = await this.connection.getRepository(ctx, ChannelIntegration).find({
+            where: { integrationId: id, enabled: true },
+            order: { createdAt: 'ASC' },
+        });
+        const channelIds = links
+            .filter(link => !feature || isLinkFeatureEnabled(link.enabledFeatures, feature))
+            .map(link => link.channelId);
+        if (channelIds.length === 0) {
+            return [];
+        }
+        const channels = await this.connection.getRepository(ctx, Channel).find({
+            where: { id: In(channelIds) },
+        });
+        return channelIds.flatMap(channelId => channels.filter(channel => idsAreEqual(channel.id, channelId)));
+    }
+
+    /**
+     * Vínculos del canal con sus integraciones, activos o no.
+     */
+    async findChannelIntegrations(ctx: RequestContext, channelId: ID): Promise<ChannelIntegration[]> {
+        return this.connection.getRepository(ctx, ChannelIntegration).find({
+            where: { channelId },
+            order: { createdAt: 'ASC' },
+        });
+    }
+
+    async findChannelIntegration(
+        ctx: RequestContext,
+        channelId: ID,
+        integrationId: ID,
+    ): Promise<ChannelIntegration | null> {
+        return this.connection.getRepository(ctx, ChannelIntegration).findOne({
+            where: { channelId, integrationId },
+        });
+    }
+
+    /**
+     * Busca una integración por el ID de usuario de la cuenta externa conectada
+     * (por ejemplo, el `user_id` de MercadoLibre que envía las notificaciones).
+     */
+    async findByExternalUserId(
+        ctx: RequestContext,
+        type: IntegrationType,
+        externalUserId: string,
+    ): Promise<Integration | null> {
+        return this.connection.getRepository(ctx, Integration).findOne({
+            where: { type, externalUserId },
+        });
+    }
+
     async create(
         ctx: RequestContext,
         input: {
@@ -73,7 +137,7 @@ export class IntegrationService {
             integration.name = input.name;
         }
         if (input.config !== undefined) {
-            integration.config = input.config;
+            integration.config = mergeConfigUpdate(integration.config, input.config);
         }
         if (input.enabled !== undefined) {
             integration.enabled = input.enabled;
@@ -89,6 +153,7 @@ export class IntegrationService {
         if (!integration) {
             return false;
         }
+        await this.connection.getRepository(ctx, ChannelIntegration).delete({ integrationId: id });
         await this.connection.getRepository(ctx, Integration).remove(integration);
         return true;
     }
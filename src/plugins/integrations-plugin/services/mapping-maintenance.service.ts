@@ -0,0 +1,211 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  ID,
+  Job,
+  JobQueue,
+  JobQueueService,
+  ListQueryBuilder,
+  ListQueryOptions,
+  Logger,
+  PaginatedList,
+  RequestContext,
+  RequestContextService,
+  TransactionalConnection,
+  UserInputError,
+} from "@vendure/core";
+import {
+  MappingOperation,
+  MappingOperationReport,
+} from "../entities/mapping-operation-report.entity";
+import { IntegrationService } from "./integration.service";
+import { ProductMappingService } from "./product-mapping.service";
+import { WooCommerceCatalogImportService } from "./woocommerce-catalog-import.service";
+
+interface MappingMaintenanceJobData {
+  reportId: string;
+  integrationId: ID;
+  operation: MappingOperation;
+}
+
+/**
+ * Cantidad máxima de errores que se guardan en el reporte.
+ */
+const MAX_REPORT_ERRORS = 500;
+
+/**
+ * Ejecuta en segundo plano el mantenimiento de los mappings de productos
+ * (`ProductMappingService.rebuildMappingsForIntegration` y
+ * `clearMappingsForIntegration`) y la importación del catálogo de WooCommerce
+ * (`WooCommerceCatalogImportService`), y guarda el resultado en un
+ * `MappingOperationReport`.
+ */
+@Injectable()
+export class MappingMaintenanceService implements OnModuleInit {
+  private static readonly loggerCtx = "MappingMaintenanceService";
+  private queue!: JobQueue<MappingMaintenanceJobData>;
+
+  constructor(
+    private connection: TransactionalConnection,
+    private listQueryBuilder: ListQueryBuilder,
+    private integrationService: IntegrationService,
+    private productMappingService: ProductMappingService,
+    private wooCommerceCatalogImportService: WooCommerceCatalogImportService,
+    private jobQueueService: JobQueueService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async onModuleInit() {
+    this.queue = await this.jobQueueService.createQueue({
+      name: "integration-mapping-maintenance",
+      process: async (job) => this.runOperation(job),
+    });
+  }
+
+  async findAll(
+    ctx: RequestContext,
+    options?: ListQueryOptions<MappingOperationReport>,
+  ): Promise<PaginatedList<MappingOperationReport>> {
+    return this.listQueryBuilder
+      .build(MappingOperationReport, options, {
+        ctx,
+        orderBy: { createdAt: "DESC" },
+      })
+      .getManyAndCount()
+      .then(([items, totalItems]) => ({
+        items,
+        totalItems,
+      }));
+  }
+
+  async findOne(
+    ctx: RequestContext,
+    id: ID,
+  ): Promise<MappingOperationReport | null> {
+    return this.connection.getRepository(ctx, MappingOperationReport).findOne({
+      where: { id },
+    });
+  }
+
+  /**
+   * Crea el reporte y encola la operación.
+   */
+  async start(
+    ctx: RequestContext,
+    integrationId: ID,
+    operation: MappingOperation,
+  ): Promise<MappingOperationReport> {
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration) {
+      throw new UserInputError(`Integration ${integrationId} not found`);
+    }
+    if (operation === "rebuild" && integration.type !== "wordpress") {
+      throw new UserInputError(
+        "Rebuild mappings only supported for WordPress integrations",
+      );
+    }
+    if (operation === "import" && integration.type !== "wordpress") {
+      throw new UserInputError(
+        "Catalog import only supported for WordPress integrations",
+      );
+    }
+
+    const report = await this.connection
+      .getRepository(ctx, MappingOperationReport)
+      .save(
+        new MappingOperationReport({
+          integrationId: String(integration.id),
+          operation,
+          status: "PENDING",
+          progress: 0,
+          success: 0,
+          failed: 0,
+          errors: [],
+          completedAt: null,
+        }),
+      );
+
+    await this.queue.add({
+      reportId: String(report.id),
+      integrationId: integration.id,
+      operation,
+    });
+
+    Logger.info(
+      `[QUEUE] Enqueued mapping ${operation} integrationId=${integration.id} reportId=${report.id}`,
+      MappingMaintenanceService.loggerCtx,
+    );
+    return report;
+  }
+
+  private async runOperation(job: Job<MappingMaintenanceJobData>) {
+    const { reportId, integrationId, operation } = job.data;
+    const ctx = await this.requestContextService.create({ apiType: "admin" });
+    const repository = this.connection.getRepository(
+      ctx,
+      MappingOperationReport,
+    );
+
+    const report = await repository.findOne({ where: { id: reportId } });
+    if (!report) {
+      Logger.warn(
+        `[QUEUE] Mapping report ${reportId} not found; skipping ${operation}`,
+        MappingMaintenanceService.loggerCtx,
+      );
+      return;
+    }
+
+    report.status = "RUNNING";
+    await repository.save(report);
+
+    const onProgress = async (processed: number, total: number) => {
+      report.progress = Math.round((processed / total) * 100);
+      job.setProgress(report.progress);
+      await repository.save(report);
+    };
+
+    try {
+      if (operation === "rebuild" || operation === "import") {
+        const result =
+          operation === "rebuild"
+            ? await this.productMappingService.rebuildMappingsForIntegration(
+                ctx,
+                integrationId,
+                onProgress,
+              )
+            : await this.wooCommerceCatalogImportService.importCatalog(
+                ctx,
+                integrationId,
+                onProgress,
+              );
+        report.success = result.success;
+        report.failed = result.failed;
+        report.errors = result.errors.slice(0, MAX_REPORT_ERRORS);
+      } else {
+        report.success =
+          await this.productMappingService.clearMappingsForIntegration(
+            ctx,
+            integrationId,
+          );
+      }
+      report.status = "COMPLETED";
+    } catch (error) {
+      report.status = "FAILED";
+      report.errors = [
+        ...report.errors,
+        error instanceof Error ? error.message : String(error),
+      ];
+      Logger.error(
+        `[QUEUE] Mapping ${operation} failed integrationId=${integrationId}: ${error instanceof Error ? error.message : String(error)}`,
+        MappingMaintenanceService.loggerCtx,
+      );
+    }
+
+    report.progress = 100;
+    report.completedAt = new Date();
+    job.setProgress(100);
+    await repository.save(report);
+  }
+}
@@ -0,0 +1,323 @@
+import { Injectable } from "@nestjs/common";
+import { ID, Logger, TransactionalConnection } from "@vendure/core";
+import { createHmac, timingSafeEqual } from "crypto";
+import { Integration } from "../entities/integration.entity";
+
+const DEFAULT_API_URL = "https://api.mercadolibre.com";
+const DEFAULT_AUTH_URL = "https://auth.mercadolibre.com.ar";
+const CALLBACK_PATH = "integrations/mercadolibre/oauth/callback";
+const STATE_TTL_MS = 30 * 60 * 1000;
+/**
+ * Margen para renovar el token antes de que expire (los tokens de ML duran 6 horas).
+ */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export type IntegrationTokenStatus =
+  | "NOT_APPLICABLE"
+  | "NOT_CONNECTED"
+  | "VALID"
+  | "EXPIRED"
+  | "NO_REFRESH_TOKEN"
+  | "ERROR";
+
+interface MercadoLibreTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  scope?: string;
+  user_id?: number;
+  refresh_token?: string;
+}
+
+export function getMercadoLibreApiBaseUrl(): string {
+  return (process.env.MERCADOLIBRE_API_URL || DEFAULT_API_URL).replace(
+    /\/+$/,
+    "",
+  );
+}
+
+/**
+ * Flujo OAuth (authorization code) de MercadoLibre y renovación de tokens.
+ * Todas las llamadas a la API de ML obtienen el token a través de este servicio.
+ */
+@Injectable()
+export class MercadoLibreAuthService {
+  private static readonly loggerCtx = "MercadoLibreAuthService";
+  /**
+   * Los refresh tokens de ML son de un solo uso: se comparte la renovación en curso
+   * para no invalidar el token con dos renovaciones simultáneas.
+   */
+  private pendingRefreshes = new Map<string, Promise<string | null>>();
+
+  constructor(private connection: TransactionalConnection) {}
+
+  getDefaultRedirectUri(): string {
+    const appUrl = process.env.APP_URL?.replace(/\/+$/, "") || "";
+    return `${appUrl}/${CALLBACK_PATH}`;
+  }
+
+  getAuthorizationUrl(integration: Integration, redirectUri?: string): string {
+    const { clientId } = integration.config;
+    const authUrl = (process.env.MERCADOLIBRE_AUTH_URL || DEFAULT_AUTH_URL)
+      .replace(/\/+$/, "");
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: clientId || "",
+      redirect_uri: redirectUri || this.getDefaultRedirectUri(),
+      state: this.createState(integration.id),
+    });
+    return `${authUrl}/authorization?${params.toString()}`;
+  }
+
+  /**
+   * Devuelve el ID de integración codificado en el `state` si la firma es válida y
+   * no expiró.
+   */
+  verifyState(state: string): string | null {
+    const [integrationId, expiresAt, signature] = state.split(".");
+    if (!integrationId || !expiresAt || !signature) {
+      return null;
+    }
+    if (Number(expiresAt) < Date.now()) {
+      return null;
+    }
+    const expected = this.sign(`${integrationId}.${expiresAt}`);
+    const a = Buffer.from(signature);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length || !timingSafeEqual(a, b)) {
+      return null;
+    }
+    return integrationId;
+  }
+
+  async exchangeCode(
+    integration: Integration,
+    code: string,
+    redirectUri?: string,
+  ): Promise<{ success: boolean; error?: string }> {
+    const { clientId, clientSecret } = integration.config;
+    if (!clientId || !clientSecret) {
+      return {
+        success: false,
+        error: "Missing MercadoLibre configuration (clientId or clientSecret)",
+      };
+    }
+
+    const result = await this.requestToken({
+      grant_type: "authorization_code",
+      client_id: clientId,
+      client_secret: clientSecret,
+      code,
+      redirect_uri: redirectUri || this.getDefaultRedirectUri(),
+    });
+
+    if (!result.success || !result.data) {
+      await this.saveTokenError(integration, result.error);
+      return { success: false, error: result.error };
+    }
+
+    await this.saveTokens(integration, result.data);
+    Logger.info(
+      `MercadoLibre account connected integration=${integration.id} userId=${result.data.user_id ?? "n/a"}`,
+      MercadoLibreAuthService.loggerCtx,
+    );
+    return { success: true };
+  }
+
+  /**
+   * Devuelve un access token utilizable, renovándolo si está por expirar.
+   */
+  async getAccessToken(integration: Integration): Promise<string | null> {
+    const expiresAt = integration.tokenExpiresAt
+      ? new Date(integration.tokenExpiresAt).getTime()
+      : null;
+    const isExpiring =
+      expiresAt !== null && expiresAt - REFRESH_MARGIN_MS <= Date.now();
+
+    if (isExpiring && integration.refreshToken) {
+      return this.refreshAccessToken(integration);
+    }
+    return integration.config.accessToken || null;
+  }
+
+  async refreshAccessToken(integration: Integration): Promise<string | null> {
+    const key = String(integration.id);
+    const pending = this.pendingRefreshes.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = this.doRefresh(integration).finally(() => {
+      this.pendingRefreshes.delete(key);
+    });
+    this.pendingRefreshes.set(key, refresh);
+    return refresh;
+  }
+
+  getTokenStatus(integration: Integration): IntegrationTokenStatus {
+    if (integration.type !== "mercadolibre") {
+      return "NOT_APPLICABLE";
+    }
+    if (integration.tokenError) {
+      return "ERROR";
+    }
+    if (!integration.config?.accessToken) {
+      return "NOT_CONNECTED";
+    }
+    if (!integration.refreshToken) {
+      return "NO_REFRESH_TOKEN";
+    }
+    if (
+      integration.tokenExpiresAt &&
+      new Date(integration.tokenExpiresAt).getTime() <= Date.now()
+    ) {
+      return "EXPIRED";
+    }
+    return "VALID";
+  }
+
+  private async doRefresh(integration: Integration): Promise<string | null> {
+    const { clientId, clientSecret } = integration.config;
+    if (!clientId || !clientSecret || !integration.refreshToken) {
+      return integration.config.accessToken || null;
+    }
+
+    // Otro proceso pudo haber renovado el token: se usa el refresh token más reciente.
+    const latest = await this.connection.rawConnection
+      .getRepository(Integration)
+      .findOne({ where: { id: integration.id } });
+    if (latest?.refreshToken && latest.refreshToken !== integration.refreshToken) {
+      this.applyStoredTokens(integration, latest);
+      const latestExpiresAt = latest.tokenExpiresAt
+        ? new Date(latest.tokenExpiresAt).getTime()
+        : 0;
+      if (latestExpiresAt - REFRESH_MARGIN_MS > Date.now()) {
+        return integration.config.accessToken || null;
+      }
+    }
+
+    Logger.info(
+      `Refreshing MercadoLibre access token integration=${integration.id}`,
+      MercadoLibreAuthService.loggerCtx,
+    );
+    const result = await this.requestToken({
+      grant_type: "refresh_token",
+      client_id: clientId,
+      client_secret: clientSecret,
+      refresh_token: integration.refreshToken,
+    });
+
+    if (!result.success || !result.data) {
+      Logger.error(
+        `Could not refresh MercadoLibre access token integration=${integration.id}: ${result.error}`,
+        MercadoLibreAuthService.loggerCtx,
+      );
+      await this.saveTokenError(integration, result.error);
+      return null;
+    }
+
+    await this.saveTokens(integration, result.data);
+    return result.data.access_token;
+  }
+
+  private async requestToken(
+    params: Record<string, string>,
+  ): Promise<{
+    success: boolean;
+    data?: MercadoLibreTokenResponse;
+    error?: string;
+  }> {
+    try {
+      const response = await fetch(`${getMercadoLibreApiBaseUrl()}/oauth/token`, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams(params).toString(),
+      });
+      const body: any = await response.json().catch(() => ({}));
+      if (!response.ok || !body?.access_token) {
+        return {
+          success: false,
+          error: `status=${response.status} error=${body?.error ?? "n/a"} message=${body?.message ?? "n/a"}`,
+        };
+      }
+      return { success: true, data: body };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `status=n/a message=${error?.message ?? String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Actualiza la entidad recibida (para que el llamador use el token nuevo) y la
+   * persiste sin pasar por `IntegrationService`, ya que puede ejecutarse en un job.
+   */
+  private async saveTokens(
+    integration: Integration,
+    token: MercadoLibreTokenResponse,
+  ) {
+    integration.config = {
+      ...integration.config,
+      accessToken: token.access_token,
+    };
+    if (token.refresh_token) {
+      integration.refreshToken = token.refresh_token;
+    }
+    integration.tokenExpiresAt = new Date(
+      Date.now() + Number(token.expires_in || 0) * 1000,
+    );
+    integration.tokenError = null;
+    if (token.user_id !== undefined) {
+      integration.externalUserId = String(token.user_id);
+    }
+
+    await this.connection.rawConnection.getRepository(Integration).update(
+      { id: integration.id },
+      {
+        config: integration.config,
+        refreshToken: integration.refreshToken,
+        tokenExpiresAt: integration.tokenExpiresAt,
+        tokenError: null,
+        externalUserId: integration.externalUserId,
+      },
+    );
+  }
+
+  private async saveTokenError(integration: Integration, error?: string) {
+    integration.tokenError = error || "Unknown error";
+    await this.connection.rawConnection
+      .getRepository(Integration)
+      .update({ id: integration.id }, { tokenError: integration.tokenError });
+  }
+
+  private applyStoredTokens(integration: Integration, stored: Integration) {
+    integration.config = {
+      ...integration.config,
+      accessToken: stored.config?.accessToken,
+    };
+    integration.refreshToken = stored.refreshToken;
+    integration.tokenExpiresAt = stored.tokenExpiresAt;
+    integration.tokenError = stored.tokenError;
+  }
+
+  private createState(integrationId: ID): string {
+    const payload = `${integrationId}.${Date.now() + STATE_TTL_MS}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Sin `COOKIE_SECRET` cualquiera podría firmar un `state` válido y vincular su cuenta
+   * de MercadoLibre a la integración, así que no se firma con una clave vacía.
+   */
+  private sign(payload: string): string {
+    const secret = process.env.COOKIE_SECRET;
+    if (!secret) {
+      throw new Error("COOKIE_SECRET must be set to sign MercadoLibre OAuth state");
+    }
+    return createHmac("sha256", secret).update(payload).digest("hex");
+  }
+}
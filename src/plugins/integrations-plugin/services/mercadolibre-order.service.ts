@@ -0,0 +1,312 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  Job,
+  JobQueue,
+  JobQueueService,
+  Logger,
+  RequestContext,
+  RequestContextService,
+  TransactionalConnection,
+} from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import { isFeatureEnabled } from "../integration-features";
+import {
+  ExternalOrderInput,
+  ExternalOrderService,
+} from "./external-order.service";
+import { IntegrationService } from "./integration.service";
+import {
+  MercadoLibreOrder,
+  MercadoLibreService,
+  MercadoLibreShipment,
+} from "./mercadolibre.service";
+
+/**
+ * Ventana de la consulta periódica. Es mayor que el intervalo de la tarea programada
+ * para cubrir ejecuciones demoradas; las órdenes ya importadas se descartan.
+ */
+const POLL_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+interface OrderImportJobData {
+  integrationId: string;
+  orderId: string;
+}
+
+export interface MercadoLibreNotification {
+  resource?: string;
+  user_id?: number | string;
+  topic?: string;
+  application_id?: number | string;
+}
+
+/**
+ * Importa las órdenes de MercadoLibre (funcionalidad `sync_orders`). Las órdenes
+ * llegan por notificaciones (webhook) y, como respaldo, por la consulta periódica de
+ * `pollRecentOrders`; ambas vías encolan el mismo job, que siempre lee la orden
+ * actual desde la API de ML.
+ */
+@Injectable()
+export class MercadoLibreOrderService implements OnModuleInit {
+  private static readonly loggerCtx = "MercadoLibreOrderService";
+  private importQueue!: JobQueue<OrderImportJobData>;
+
+  constructor(
+    private connection: TransactionalConnection,
+    private integrationService: IntegrationService,
+    private mercadoLibreService: MercadoLibreService,
+    private externalOrderService: ExternalOrderService,
+    private jobQueueService: JobQueueService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async onModuleInit() {
+    this.importQueue = await this.jobQueueService.createQueue({
+      name: "mercadolibre-order-import",
+      process: async (job) => this.processImportJob(job),
+    });
+  }
+
+  async handleOrderNotification(
+    ctx: RequestContext,
+    notification: MercadoLibreNotification,
+  ): Promise<void> {
+    const orderId = notification.resource?.match(/\/orders\/(\d+)/)?.[1];
+    if (!orderId || notification.user_id === undefined) {
+      Logger.warn(
+        `[WEBHOOK] Ignoring order notification resource=${notification.resource ?? "n/a"}`,
+        MercadoLibreOrderService.loggerCtx,
+      );
+      return;
+    }
+
+    const integration = await this.integrationService.findByExternalUserId(
+      ctx,
+      "mercadolibre",
+      String(notification.user_id),
+    );
+    if (!integration || !this.canImportOrders(integration)) {
+      Logger.debug(
+        `[WEBHOOK] No integration importing orders for userId=${notification.user_id}`,
+        MercadoLibreOrderService.loggerCtx,
+      );
+      return;
+    }
+    if (
+      notification.application_id !== undefined &&
+      integration.config?.clientId &&
+      String(notification.application_id) !== String(integration.config.clientId)
+    ) {
+      Logger.warn(
+        `[WEBHOOK] Application mismatch for integration=${integration.id} applicationId=${notification.application_id}`,
+        MercadoLibreOrderService.loggerCtx,
+      );
+      return;
+    }
+
+    await this.enqueueImport(integration, orderId);
+  }
+
+  /**
+   * Encola las órdenes actualizadas recientemente que no fueron importadas o cuyo
+   * estado cambió desde la última importación.
+   */
+  async pollRecentOrders(ctx: RequestContext): Promise<void> {
+    const integrations = await this.connection
+      .getRepository(ctx, Integration)
+      .find({ where: { type: "mercadolibre", enabled: true } });
+
+    for (const integration of integrations) {
+      if (!this.canImportOrders(integration) || !integration.externalUserId) {
+        continue;
+      }
+
+      const result = await this.mercadoLibreService.searchOrders(integration, {
+        updatedFrom: new Date(Date.now() - POLL_WINDOW_MS),
+      });
+      if (!result.success) {
+        Logger.error(
+          `[POLL] Could not search orders integration=${integration.id}: ${result.error}`,
+          MercadoLibreOrderService.loggerCtx,
+        );
+        continue;
+      }
+
+      for (const order of result.data ?? []) {
+        const mapping = await this.externalOrderService.getMapping(
+          ctx,
+          integration.id,
+          String(order.id),
+        );
+        const needsImport = mapping
+          ? mapping.externalStatus !== order.status
+          : order.status === "paid";
+        if (needsImport) {
+          await this.enqueueImport(integration, String(order.id));
+        }
+      }
+    }
+  }
+
+  private canImportOrders(integration: Integration): boolean {
+    return (
+      integration.enabled &&
+      isFeatureEnabled(integration.enabledFeatures, "sync_orders")
+    );
+  }
+
+  private async enqueueImport(integration: Integration, orderId: string) {
+    await this.importQueue.add(
+      { integrationId: String(integration.id), orderId },
+      { retries: 3 },
+    );
+    Logger.info(
+      `[QUEUE] Enqueued MercadoLibre order import orderId=${orderId} integrationId=${integration.id}`,
+      MercadoLibreOrderService.loggerCtx,
+    );
+  }
+
+  private async processImportJob(job: Job<OrderImportJobData>) {
+    const { integrationId, orderId } = job.data;
+
+    const defaultCtx = await this.requestContextService.create({
+      apiType: "admin",
+    });
+    const integration = await this.integrationService.findOne(
+      defaultCtx,
+      integrationId,
+    );
+    if (!integration || !this.canImportOrders(integration)) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} unavailable for order import`,
+        MercadoLibreOrderService.loggerCtx,
+      );
+      return;
+    }
+
+    const channels = await this.integrationService.findChannelsForIntegration(
+      defaultCtx,
+      integration.id,
+      "sync_orders",
+    );
+    if (channels.length === 0) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} is not linked to any channel; cannot import order ${orderId}`,
+        MercadoLibreOrderService.loggerCtx,
+      );
+      return;
+    }
+    if (channels.length > 1) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} is linked to ${channels.length} channels; importing order ${orderId} into ${channels[0].code}`,
+        MercadoLibreOrderService.loggerCtx,
+      );
+    }
+
+    const orderResult = await this.mercadoLibreService.getOrder(
+      integration,
+      orderId,
+    );
+    if (!orderResult.success || !orderResult.data) {
+      throw new Error(
+        `Could not fetch MercadoLibre order ${orderId}: ${orderResult.error}`,
+      );
+    }
+
+    const order = orderResult.data;
+    let shipment: MercadoLibreShipment | undefined;
+    if (order.shipping?.id) {
+      const shipmentResult = await this.mercadoLibreService.getShipment(
+        integration,
+        String(order.shipping.id),
+      );
+      if (shipmentResult.success) {
+        shipment = shipmentResult.data;
+      } else {
+        Logger.warn(
+          `Could not fetch shipment ${order.shipping.id} for order ${orderId}: ${shipmentResult.error}`,
+          MercadoLibreOrderService.loggerCtx,
+        );
+      }
+    }
+
+    const channelCtx = await this.requestContextService.create({
+      apiType: "admin",
+      channelOrToken: channels[0].token,
+    });
+    const result = await this.externalOrderService.importOrder(
+      channelCtx,
+      integration,
+      this.toExternalOrder(order, shipment),
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+
+  private toExternalOrder(
+    order: MercadoLibreOrder,
+    shipment?: MercadoLibreShipment,
+  ): ExternalOrderInput {
+    const { buyer } = order;
+    const address = shipment?.receiver_address;
+    const street =
+      address?.address_line ||
+      [address?.street_name, address?.street_number].filter(Boolean).join(" ");
+    const phone = [buyer.phone?.area_code, buyer.phone?.number]
+      .filter(Boolean)
+      .join(" ");
+    const fullName =
+      [buyer.first_name, buyer.last_name].filter(Boolean).join(" ") ||
+      buyer.nickname;
+
+    return {
+      externalOrderId: String(order.id),
+      externalPackId: order.pack_id ? String(order.pack_id) : null,
+      externalStatus: order.status,
+      paid: order.status === "paid",
+      cancelled: order.status === "cancelled",
+      customer: {
+        // ML no expone el email real del comprador.
+        emailAddress:
+          buyer.email || `ml-${buyer.id}@users.mercadolibre.invalid`,
+        firstName: buyer.first_name || buyer.nickname || `Comprador ${buyer.id}`,
+        lastName: buyer.last_name || "",
+        phoneNumber: phone || undefined,
+      },
+      shippingAddress:
+        street && address?.country?.id
+          ? {
+              fullName: address.receiver_name || fullName,
+              streetLine1: street,
+              streetLine2: address.comment || undefined,
+              city: address.city?.name,
+              province: address.state?.name,
+              postalCode: address.zip_code,
+              countryCode: address.country.id,
+              phoneNumber: address.receiver_phone || phone || undefined,
+            }
+          : undefined,
+      lines: order.order_items.map((orderItem) => ({
+        quantity: orderItem.quantity,
+        sku: orderItem.item.seller_sku,
+        externalProductId: orderItem.item.id,
+        attributes: (orderItem.item.variation_attributes || []).map((a) => ({
+          name: a.name,
+          value: a.value_name,
+        })),
+        title: orderItem.item.title,
+      })),
+      payment: {
+        method: "mercadolibre",
+        transactionId: String(order.payments?.[0]?.id ?? order.id),
+        metadata: {
+          mercadoLibreOrderId: order.id,
+          packId: order.pack_id ?? null,
+          totalAmount: order.total_amount,
+          currency: order.currency_id,
+        },
+      },
+      note: `Orden de MercadoLibre #${order.id} (comprador: ${buyer.nickname ?? buyer.id}). Total en MercadoLibre: ${order.total_amount} ${order.currency_id}.`,
+    };
+  }
+}
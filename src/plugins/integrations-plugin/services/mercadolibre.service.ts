@@ -0,0 +1,767 @@
+import { Injectable } from "@nestjs/common";
+import { Logger } from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import {
+  IntegrationRateLimiterService,
+  parseRetryAfter,
+} from "./integration-rate-limiter.service";
+import {
+  getMercadoLibreApiBaseUrl,
+  MercadoLibreAuthService,
+} from "./mercadolibre-auth.service";
+
+export type MercadoLibreItemStatus = "active" | "paused" | "closed";
+
+export interface MercadoLibreAttribute {
+  id: string;
+  value_name: string;
+}
+
+export interface MercadoLibreAttributeCombination {
+  id?: string;
+  name: string;
+  value_name: string;
+}
+
+export interface MercadoLibreVariation {
+  id?: number;
+  price: number;
+  available_quantity: number;
+  attribute_combinations: MercadoLibreAttributeCombination[];
+  picture_ids?: string[];
+  attributes?: MercadoLibreAttribute[];
+}
+
+export interface MercadoLibreItem {
+  id?: string;
+  title: string;
+  category_id?: string;
+  price?: number;
+  currency_id?: string;
+  available_quantity?: number;
+  buying_mode?: "buy_it_now" | "auction";
+  listing_type_id?: string;
+  condition?: "new" | "used";
+  status?: MercadoLibreItemStatus;
+  pictures?: Array<{
+    id?: string;
+    source?: string;
+  }>;
+  attributes?: MercadoLibreAttribute[];
+  variations?: MercadoLibreVariation[];
+  permalink?: string;
+}
+
+export interface MercadoLibreOrderItem {
+  item: {
+    id: string;
+    title: string;
+    variation_id?: number | null;
+    seller_sku?: string | null;
+    variation_attributes?: Array<{ id?: string; name: string; value_name: string }>;
+  };
+  quantity: number;
+  unit_price: number;
+  currency_id: string;
+}
+
+export interface MercadoLibreOrder {
+  id: number;
+  status: string;
+  date_created: string;
+  date_last_updated?: string;
+  total_amount: number;
+  paid_amount?: number;
+  currency_id: string;
+  order_items: MercadoLibreOrderItem[];
+  buyer: {
+    id: number;
+    nickname?: string;
+    email?: string;
+    first_name?: string;
+    last_name?: string;
+    phone?: { area_code?: string; number?: string };
+  };
+  payments?: Array<{ id: number; status: string; total_paid_amount?: number }>;
+  shipping?: { id?: number | null };
+  pack_id?: number | null;
+}
+
+export interface MercadoLibreShipment {
+  id: number;
+  status?: string;
+  receiver_address?: {
+    address_line?: string;
+    street_name?: string;
+    street_number?: string;
+    comment?: string;
+    zip_code?: string;
+    city?: { name?: string };
+    state?: { name?: string };
+    country?: { id?: string };
+    receiver_name?: string;
+    receiver_phone?: string;
+  };
+}
+
+export interface MercadoLibreQuestion {
+  id: number;
+  seller_id: number;
+  item_id: string;
+  text: string;
+  status: string;
+  date_created: string;
+  from?: { id: number };
+  answer?: { text: string; status?: string; date_created: string } | null;
+}
+
+export interface MercadoLibreMessage {
+  id: string;
+  from: { user_id: number | string };
+  to: { user_id: number | string };
+  text: string;
+  message_date: {
+    created: string;
+    received?: string;
+    read?: string | null;
+  };
+  message_attachments?: Array<{
+    filename: string;
+    original_filename?: string;
+    type?: string;
+    size?: number;
+  }> | null;
+  message_resources?: Array<{ id: string; name: string }>;
+}
+
+export interface MercadoLibreUser {
+  id: number;
+  nickname: string;
+  site_id?: string;
+}
+
+export interface MercadoLibreApplication {
+  id: number;
+  name?: string;
+  scopes?: string[];
+}
+
+export interface MercadoLibreApiResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  /**
+   * Código HTTP de la respuesta fallida (no se informa si no hubo respuesta).
+   */
+  status?: number;
+}
+
+/**
+ * Cliente de la API de ítems de MercadoLibre. La URL base se puede apuntar a un
+ * servidor local con MERCADOLIBRE_API_URL para probar la sincronización sin tocar
+ * la cuenta real.
+ */
+@Injectable()
+export class MercadoLibreService {
+  private static readonly loggerCtx = "MercadoLibreService";
+
+  constructor(
+    private mercadoLibreAuthService: MercadoLibreAuthService,
+    private rateLimiter: IntegrationRateLimiterService,
+  ) {}
+
+  private getIntegrationLabel(integration: Integration): string {
+    return `${integration.id}:${integration.name}`;
+  }
+
+  private formatApiError(status: number | undefined, body: any): string {
+    const message = body?.message || body?.error || "Unknown error";
+    const causes = Array.isArray(body?.cause)
+      ? ` cause=${JSON.stringify(
+          body.cause.map((c: any) => c?.message || c?.code || c),
+        ).slice(0, 500)}`
+      : "";
+    return `status=${status ?? "n/a"} error=${body?.error ?? "n/a"} message=${message}${causes}`;
+  }
+
+  private async request<T>(
+    integration: Integration,
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    path: string,
+    body?: unknown,
+    options: { raw?: boolean } = {},
+  ): Promise<MercadoLibreApiResponse<T>> {
+    const accessToken =
+      await this.mercadoLibreAuthService.getAccessToken(integration);
+
+    if (!accessToken) {
+      return {
+        success: false,
+        error: "Missing MercadoLibre configuration (accessToken)",
+      };
+    }
+
+    const send = (token: string) =>
+      this.rateLimiter.run(
+        integration,
+        () => this.send(token, method, path, body, options),
+        (response) =>
+          response.status === 429 ? parseRetryAfter(response.retryAfter) : null,
+      );
+
+    let response: Awaited<ReturnType<typeof send>>;
+    try {
+      response = await send(accessToken);
+
+      if (response.status === 401 && integration.refreshToken) {
+        // El token pudo ser revocado o expirar antes de lo previsto: se renueva una vez.
+        const refreshedToken =
+          await this.mercadoLibreAuthService.refreshAccessToken(integration);
+        if (refreshedToken) {
+          response = await send(refreshedToken);
+        }
+      }
+    } catch (error) {
+      // Solo falla el rate limiter (espera agotada o error de base de datos).
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (response.status === undefined || response.status >= 400) {
+      return {
+        success: false,
+        status: response.status,
+        error: this.formatApiError(response.status, response.data),
+      };
+    }
+
+    return {
+      success: true,
+      data: response.data as T,
+    };
+  }
+
+  /**
+   * Los cuerpos `FormData` se envían como multipart (adjuntos) y, con `raw`, la
+   * respuesta se devuelve como `Buffer` en lugar de JSON.
+   */
+  private async send(
+    accessToken: string,
+    method: string,
+    path: string,
+    body?: unknown,
+    options: { raw?: boolean } = {},
+  ): Promise<{ status?: number; data?: any; retryAfter?: string | null }> {
+    const url = `${getMercadoLibreApiBaseUrl()}/${path.replace(/^\/+/, "")}`;
+    const isFormData = body instanceof FormData;
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: options.raw ? "*/*" : "application/json",
+          ...(body !== undefined && !isFormData
+            ? { "Content-Type": "application/json" }
+            : {}),
+        },
+        body: isFormData
+          ? body
+          : body !== undefined
+            ? JSON.stringify(body)
+            : undefined,
+      });
+      if (options.raw && response.ok) {
+        return {
+          status: response.status,
+          data: Buffer.from(await response.arrayBuffer()),
+        };
+      }
+      const text = await response.text();
+      return {
+        status: response.status,
+        data: text ? this.parseJson(text) : undefined,
+        retryAfter: response.headers.get("retry-after"),
+      };
+    } catch (error: any) {
+      return { data: { message: error?.message ?? String(error) } };
+    }
+  }
+
+  private parseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return { message: text.slice(0, 500) };
+    }
+  }
+
+  async createItem(
+    integration: Integration,
+    item: MercadoLibreItem,
+    description?: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreItem>> {
+    Logger.info(
+      `[HTTP] POST items integration=${this.getIntegrationLabel(integration)} title="${item.title}" variations=${item.variations?.length ?? 0}`,
+      MercadoLibreService.loggerCtx,
+    );
+
+    const result = await this.request<MercadoLibreItem>(
+      integration,
+      "POST",
+      "items",
+      item,
+    );
+
+    if (!result.success || !result.data?.id) {
+      Logger.error(
+        `Error creating item in MercadoLibre integration=${this.getIntegrationLabel(integration)} ${result.error}`,
+        MercadoLibreService.loggerCtx,
+      );
+      return result;
+    }
+
+    Logger.info(
+      `[HTTP] POST items OK integration=${this.getIntegrationLabel(integration)} mlId=${result.data.id}`,
+      MercadoLibreService.loggerCtx,
+    );
+
+    if (description) {
+      // La descripción no forma parte del ítem: ML la guarda en un recurso aparte.
+      const descriptionResult = await this.request(
+        integration,
+        "POST",
+        `items/${result.data.id}/description`,
+        { plain_text: description },
+      );
+      if (!descriptionResult.success) {
+        Logger.warn(
+          `Could not set description for item ${result.data.id} integration=${this.getIntegrationLabel(integration)} ${descriptionResult.error}`,
+          MercadoLibreService.loggerCtx,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  async updateItem(
+    integration: Integration,
+    itemId: string,
+    item: Partial<MercadoLibreItem>,
+    description?: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreItem>> {
+    const payload = this.sanitizeItemUpdatePayload(item);
+    Logger.info(
+      `[HTTP] PUT items/${itemId} integration=${this.getIntegrationLabel(integration)} variations=${payload.variations?.length ?? 0}`,
+      MercadoLibreService.loggerCtx,
+    );
+
+    const result = await this.request<MercadoLibreItem>(
+      integration,
+      "PUT",
+      `items/${itemId}`,
+      payload,
+    );
+
+    if (!result.success) {
+      Logger.error(
+        `Error updating item in MercadoLibre integration=${this.getIntegrationLabel(integration)} mlId=${itemId} ${result.error}`,
+        MercadoLibreService.loggerCtx,
+      );
+      return result;
+    }
+
+    Logger.info(
+      `[HTTP] PUT items/${itemId} OK integration=${this.getIntegrationLabel(integration)}`,
+      MercadoLibreService.loggerCtx,
+    );
+
+    if (description !== undefined) {
+      const descriptionResult = await this.request(
+        integration,
+        "PUT",
+        `items/${itemId}/description`,
+        { plain_text: description },
+      );
+      if (!descriptionResult.success) {
+        Logger.warn(
+          `Could not update description for item ${itemId} integration=${this.getIntegrationLabel(integration)} ${descriptionResult.error}`,
+          MercadoLibreService.loggerCtx,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  async getItem(
+    integration: Integration,
+    itemId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreItem>> {
+    return this.request<MercadoLibreItem>(integration, "GET", `items/${itemId}`);
+  }
+
+  async getCurrentUser(
+    integration: Integration,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreUser>> {
+    return this.request<MercadoLibreUser>(integration, "GET", "users/me");
+  }
+
+  async getApplication(
+    integration: Integration,
+    applicationId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreApplication>> {
+    return this.request<MercadoLibreApplication>(
+      integration,
+      "GET",
+      `applications/${applicationId}`,
+    );
+  }
+
+  async getOrder(
+    integration: Integration,
+    orderId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreOrder>> {
+    return this.request<MercadoLibreOrder>(
+      integration,
+      "GET",
+      `orders/${orderId}`,
+    );
+  }
+
+  async getShipment(
+    integration: Integration,
+    shipmentId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreShipment>> {
+    return this.request<MercadoLibreShipment>(
+      integration,
+      "GET",
+      `shipments/${shipmentId}`,
+    );
+  }
+
+  /**
+   * Órdenes del vendedor ordenadas por última actualización, opcionalmente solo las
+   * modificadas desde `updatedFrom`.
+   */
+  async searchOrders(
+    integration: Integration,
+    options: { updatedFrom?: Date; limit?: number } = {},
+  ): Promise<MercadoLibreApiResponse<MercadoLibreOrder[]>> {
+    if (!integration.externalUserId) {
+      return {
+        success: false,
+        error: "Missing MercadoLibre seller ID (connect the account first)",
+      };
+    }
+
+    const params = new URLSearchParams({
+      seller: integration.externalUserId,
+      sort: "date_desc",
+      limit: String(options.limit ?? 50),
+    });
+    if (options.updatedFrom) {
+      params.set("order.date_last_updated.from", options.updatedFrom.toISOString());
+    }
+
+    const result = await this.request<{ results: MercadoLibreOrder[] }>(
+      integration,
+      "GET",
+      `orders/search?${params.toString()}`,
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data?.results ?? [] };
+  }
+
+  async getQuestion(
+    integration: Integration,
+    questionId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreQuestion>> {
+    return this.request<MercadoLibreQuestion>(
+      integration,
+      "GET",
+      `questions/${questionId}?api_version=4`,
+    );
+  }
+
+  async answerQuestion(
+    integration: Integration,
+    questionId: string,
+    text: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreQuestion>> {
+    Logger.info(
+      `[HTTP] POST answers questionId=${questionId} integration=${this.getIntegrationLabel(integration)}`,
+      MercadoLibreService.loggerCtx,
+    );
+
+    const result = await this.request<MercadoLibreQuestion>(
+      integration,
+      "POST",
+      "answers",
+      { question_id: Number(questionId), text },
+    );
+
+    if (!result.success) {
+      Logger.error(
+        `Error answering question in MercadoLibre integration=${this.getIntegrationLabel(integration)} questionId=${questionId} ${result.error}`,
+        MercadoLibreService.loggerCtx,
+      );
+    }
+
+    return result;
+  }
+
+  async getMessage(
+    integration: Integration,
+    messageId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreMessage>> {
+    const result = await this.request<any>(
+      integration,
+      "GET",
+      `messages/${messageId}?tag=post_sale`,
+    );
+    if (!result.success) {
+      return result;
+    }
+    // Según la versión de la API el mensaje llega solo o dentro de `messages`.
+    const message = Array.isArray(result.data?.messages)
+      ? result.data.messages[0]
+      : result.data;
+    return { success: true, data: message };
+  }
+
+  /**
+   * Conversación post-venta completa de un pack (u orden sin pack).
+   */
+  async getPackMessages(
+    integration: Integration,
+    packId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreMessage[]>> {
+    if (!integration.externalUserId) {
+      return {
+        success: false,
+        error: "Missing MercadoLibre seller ID (connect the account first)",
+      };
+    }
+
+    const result = await this.request<{ messages: MercadoLibreMessage[] }>(
+      integration,
+      "GET",
+      `messages/packs/${packId}/sellers/${integration.externalUserId}?tag=post_sale&mark_as_read=false`,
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data?.messages ?? [] };
+  }
+
+  async sendMessage(
+    integration: Integration,
+    packId: string,
+    buyerId: string,
+    text: string,
+    attachmentIds: string[] = [],
+  ): Promise<MercadoLibreApiResponse<MercadoLibreMessage>> {
+    if (!integration.externalUserId) {
+      return {
+        success: false,
+        error: "Missing MercadoLibre seller ID (connect the account first)",
+      };
+    }
+
+    Logger.info(
+      `[HTTP] POST messages/packs/${packId} integration=${this.getIntegrationLabel(integration)} attachments=${attachmentIds.length}`,
+      MercadoLibreService.loggerCtx,
+    );
+
+    const result = await this.request<MercadoLibreMessage>(
+      integration,
+      "POST",
+      `messages/packs/${packId}/sellers/${integration.externalUserId}?tag=post_sale`,
+      {
+        from: { user_id: integration.externalUserId },
+        to: { user_id: buyerId },
+        text,
+        ...(attachmentIds.length > 0 ? { attachments: attachmentIds } : {}),
+      },
+    );
+
+    if (!result.success) {
+      Logger.error(
+        `Error sending message in MercadoLibre integration=${this.getIntegrationLabel(integration)} packId=${packId} ${result.error}`,
+        MercadoLibreService.loggerCtx,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Sube un adjunto y devuelve el identificador que ML espera en `sendMessage`.
+   */
+  async uploadMessageAttachment(
+    integration: Integration,
+    file: Buffer,
+    filename: string,
+    mimeType: string,
+  ): Promise<MercadoLibreApiResponse<string>> {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(file)], { type: mimeType }), filename);
+
+    const result = await this.request<{ id: string }>(
+      integration,
+      "POST",
+      "messages/attachments?tag=post_sale",
+      form,
+    );
+    if (!result.success || !result.data?.id) {
+      return {
+        success: false,
+        error: result.error ?? "MercadoLibre did not return an attachment ID",
+      };
+    }
+    return { success: true, data: result.data.id };
+  }
+
+  async downloadMessageAttachment(
+    integration: Integration,
+    attachmentId: string,
+  ): Promise<MercadoLibreApiResponse<Buffer>> {
+    return this.request<Buffer>(
+      integration,
+      "GET",
+      `messages/attachments/${attachmentId}?tag=post_sale`,
+      undefined,
+      { raw: true },
+    );
+  }
+
+  async setItemStatus(
+    integration: Integration,
+    itemId: string,
+    status: MercadoLibreItemStatus,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreItem>> {
+    Logger.info(
+      `[HTTP] PUT items/${itemId} status=${status} integration=${this.getIntegrationLabel(integration)}`,
+      MercadoLibreService.loggerCtx,
+    );
+
+    const result = await this.request<MercadoLibreItem>(
+      integration,
+      "PUT",
+      `items/${itemId}`,
+      { status },
+    );
+
+    if (!result.success) {
+      Logger.error(
+        `Error setting item status in MercadoLibre integration=${this.getIntegrationLabel(integration)} mlId=${itemId} status=${status} ${result.error}`,
+        MercadoLibreService.loggerCtx,
+      );
+    }
+
+    return result;
+  }
+
+  async pauseItem(
+    integration: Integration,
+    itemId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreItem>> {
+    return this.setItemStatus(integration, itemId, "paused");
+  }
+
+  async activateItem(
+    integration: Integration,
+    itemId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreItem>> {
+    return this.setItemStatus(integration, itemId, "active");
+  }
+
+  /**
+   * MercadoLibre no permite borrar publicaciones activas; se finalizan (closed)
+   * y dejan de ser visibles para los compradores.
+   */
+  async closeItem(
+    integration: Integration,
+    itemId: string,
+  ): Promise<MercadoLibreApiResponse<MercadoLibreItem>> {
+    return this.setItemStatus(integration, itemId, "closed");
+  }
+
+  /**
+   * Asigna a cada variación el ID de la variación existente en ML con la misma
+   * SELLER_SKU o, si no hay SKU, con la misma combinación de atributos. Las
+   * variaciones existentes que no se envían son eliminadas por ML al actualizar.
+   */
+  matchExistingVariations(
+    variations: MercadoLibreVariation[],
+    existing: MercadoLibreVariation[],
+  ): MercadoLibreVariation[] {
+    const used = new Set<number>();
+
+    return variations.map((variation) => {
+      const sku = this.getSellerSku(variation);
+      const combinationKey = this.getCombinationKey(variation);
+      const match = existing.find(
+        (candidate) =>
+          candidate.id !== undefined &&
+          !used.has(candidate.id) &&
+          ((sku && this.getSellerSku(candidate) === sku) ||
+            this.getCombinationKey(candidate) === combinationKey),
+      );
+
+      if (!match?.id) {
+        return variation;
+      }
+
+      used.add(match.id);
+      return { ...variation, id: match.id };
+    });
+  }
+
+  private getSellerSku(variation: MercadoLibreVariation): string | undefined {
+    return variation.attributes?.find((a) => a.id === "SELLER_SKU")
+      ?.value_name;
+  }
+
+  private getCombinationKey(variation: MercadoLibreVariation): string {
+    return (variation.attribute_combinations || [])
+      .map(
+        (c) =>
+          `${(c.name || c.id || "").toLowerCase()}=${(c.value_name || "").toLowerCase()}`,
+      )
+      .sort()
+      .join("|");
+  }
+
+  /**
+   * Quita los campos que ML rechaza en un PUT sobre una publicación existente.
+   */
+  private sanitizeItemUpdatePayload(
+    item: Partial<MercadoLibreItem>,
+  ): Partial<MercadoLibreItem> {
+    const {
+      id,
+      category_id,
+      currency_id,
+      buying_mode,
+      listing_type_id,
+      condition,
+      permalink,
+      ...payload
+    } = item;
+
+    if (Array.isArray(payload.variations) && payload.variations.length > 0) {
+      // Con variaciones, precio y stock se informan por variación.
+      delete payload.price;
+      delete payload.available_quantity;
+    }
+
+    return payload;
+  }
+}
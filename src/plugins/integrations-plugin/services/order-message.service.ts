@@ -0,0 +1,421 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  AssetService,
+  ConfigService,
+  ID,
+  isGraphQlErrorResult,
+  Job,
+  JobQueue,
+  JobQueueService,
+  Logger,
+  RequestContext,
+  RequestContextService,
+  TransactionalConnection,
+} from "@vendure/core";
+import { Readable } from "stream";
+import { Integration } from "../entities/integration.entity";
+import { OrderIntegrationMapping } from "../entities/order-integration-mapping.entity";
+import {
+  OrderMessage,
+  OrderMessageAttachment,
+} from "../entities/order-message.entity";
+import { isFeatureEnabled } from "../integration-features";
+import { ExternalOrderService } from "./external-order.service";
+import { IntegrationService } from "./integration.service";
+import { MercadoLibreMessage, MercadoLibreService } from "./mercadolibre.service";
+import { MercadoLibreNotification } from "./mercadolibre-order.service";
+
+interface MessageSyncJobData {
+  integrationId: string;
+  messageId: string;
+}
+
+type OrderMessageResult = {
+  success: boolean;
+  data?: OrderMessage;
+  error?: string;
+};
+
+/**
+ * Conversación post-venta de las órdenes importadas desde MercadoLibre
+ * (funcionalidad `sync_post_sale_messages`). Los mensajes entrantes llegan por las
+ * notificaciones del tópico `messages` y también se pueden releer por orden con
+ * `syncOrderMessages`; las respuestas se envían desde el dashboard.
+ */
+@Injectable()
+export class OrderMessageService implements OnModuleInit {
+  private static readonly loggerCtx = "OrderMessageService";
+  private syncQueue!: JobQueue<MessageSyncJobData>;
+
+  constructor(
+    private connection: TransactionalConnection,
+    private integrationService: IntegrationService,
+    private externalOrderService: ExternalOrderService,
+    private mercadoLibreService: MercadoLibreService,
+    private assetService: AssetService,
+    private configService: ConfigService,
+    private jobQueueService: JobQueueService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async onModuleInit() {
+    this.syncQueue = await this.jobQueueService.createQueue({
+      name: "mercadolibre-message-sync",
+      process: async (job) => this.processSyncJob(job),
+    });
+  }
+
+  async findForOrder(
+    ctx: RequestContext,
+    orderId: ID,
+  ): Promise<OrderMessage[]> {
+    return this.connection.getRepository(ctx, OrderMessage).find({
+      where: { vendureOrderId: String(orderId) },
+      order: { sentAt: "ASC" },
+    });
+  }
+
+  async handleMessageNotification(
+    ctx: RequestContext,
+    notification: MercadoLibreNotification,
+  ): Promise<void> {
+    const messageId = notification.resource
+      ?.replace(/^\/?messages\//, "")
+      .trim();
+    if (!messageId || notification.user_id === undefined) {
+      Logger.warn(
+        `[WEBHOOK] Ignoring message notification resource=${notification.resource ?? "n/a"}`,
+        OrderMessageService.loggerCtx,
+      );
+      return;
+    }
+
+    const integration = await this.integrationService.findByExternalUserId(
+      ctx,
+      "mercadolibre",
+      String(notification.user_id),
+    );
+    if (!integration || !this.canSyncMessages(integration)) {
+      Logger.debug(
+        `[WEBHOOK] No integration syncing messages for userId=${notification.user_id}`,
+        OrderMessageService.loggerCtx,
+      );
+      return;
+    }
+
+    await this.syncQueue.add(
+      { integrationId: String(integration.id), messageId },
+      { retries: 3 },
+    );
+    Logger.info(
+      `[QUEUE] Enqueued MercadoLibre message sync messageId=${messageId} integrationId=${integration.id}`,
+      OrderMessageService.loggerCtx,
+    );
+  }
+
+  /**
+   * Relee la conversación completa de la orden desde MercadoLibre.
+   */
+  async syncOrderMessages(
+    ctx: RequestContext,
+    orderId: ID,
+  ): Promise<{ success: boolean; data?: OrderMessage[]; error?: string }> {
+    const context = await this.getOrderContext(ctx, orderId);
+    if (!context.success || !context.data) {
+      return { success: false, error: context.error };
+    }
+
+    const { integration, mapping } = context.data;
+    const result = await this.mercadoLibreService.getPackMessages(
+      integration,
+      mapping.externalPackId || mapping.externalOrderId,
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    for (const message of result.data ?? []) {
+      await this.saveMessage(ctx, integration, mapping, message);
+    }
+    return { success: true, data: await this.findForOrder(ctx, orderId) };
+  }
+
+  /**
+   * Envía una respuesta al comprador. Los adjuntos son assets ya subidos a Vendure:
+   * se leen desde la estrategia de almacenamiento y se suben a MercadoLibre.
+   */
+  async sendMessage(
+    ctx: RequestContext,
+    orderId: ID,
+    text: string,
+    assetIds: ID[] = [],
+  ): Promise<OrderMessageResult> {
+    const context = await this.getOrderContext(ctx, orderId);
+    if (!context.success || !context.data) {
+      return { success: false, error: context.error };
+    }
+    const { integration, mapping } = context.data;
+
+    const orderResult = await this.mercadoLibreService.getOrder(
+      integration,
+      mapping.externalOrderId,
+    );
+    if (!orderResult.success || !orderResult.data) {
+      return { success: false, error: orderResult.error };
+    }
+
+    const attachments: OrderMessageAttachment[] = [];
+    for (const assetId of assetIds) {
+      const asset = await this.assetService.findOne(ctx, assetId);
+      if (!asset) {
+        return { success: false, error: `Asset ${assetId} not found` };
+      }
+      const file = await this.configService.assetOptions.assetStorageStrategy.readFileToBuffer(
+        asset.source,
+      );
+      const upload = await this.mercadoLibreService.uploadMessageAttachment(
+        integration,
+        file,
+        asset.name,
+        asset.mimeType,
+      );
+      if (!upload.success || !upload.data) {
+        return {
+          success: false,
+          error: `Could not upload attachment "${asset.name}": ${upload.error}`,
+        };
+      }
+      attachments.push({
+        assetId: String(asset.id),
+        externalId: upload.data,
+        name: asset.name,
+        mimeType: asset.mimeType,
+      });
+    }
+
+    const result = await this.mercadoLibreService.sendMessage(
+      integration,
+      mapping.externalPackId || mapping.externalOrderId,
+      String(orderResult.data.buyer.id),
+      text,
+      attachments.map((a) => a.externalId),
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const message = await this.connection
+      .getRepository(ctx, OrderMessage)
+      .save(
+        new OrderMessage({
+          integrationId: String(integration.id),
+          vendureOrderId: mapping.vendureOrderId,
+          externalMessageId: String(
+            result.data?.id ?? `${mapping.externalOrderId}-${Date.now()}`,
+          ),
+          direction: "OUTBOUND",
+          text,
+          attachments,
+          sentAt: new Date(),
+          readAt: null,
+          administratorId: ctx.activeUserId ? String(ctx.activeUserId) : null,
+        }),
+      );
+    return { success: true, data: message };
+  }
+
+  private canSyncMessages(integration: Integration): boolean {
+    return (
+      integration.enabled &&
+      isFeatureEnabled(integration.enabledFeatures, "sync_post_sale_messages")
+    );
+  }
+
+  private async getOrderContext(
+    ctx: RequestContext,
+    orderId: ID,
+  ): Promise<{
+    success: boolean;
+    data?: { integration: Integration; mapping: OrderIntegrationMapping };
+    error?: string;
+  }> {
+    const mapping = await this.externalOrderService.getMappingForOrder(
+      ctx,
+      orderId,
+    );
+    if (!mapping) {
+      return {
+        success: false,
+        error: `Order ${orderId} was not imported from an integration`,
+      };
+    }
+
+    const integration = await this.integrationService.findOne(
+      ctx,
+      mapping.integrationId,
+    );
+    if (
+      !integration ||
+      integration.type !== "mercadolibre" ||
+      !this.canSyncMessages(integration)
+    ) {
+      return {
+        success: false,
+        error: `Integration ${mapping.integrationId} does not have post-sale messages enabled`,
+      };
+    }
+
+    return { success: true, data: { integration, mapping } };
+  }
+
+  private async processSyncJob(job: Job<MessageSyncJobData>) {
+    const { integrationId, messageId } = job.data;
+    const ctx = await this.requestContextService.create({ apiType: "admin" });
+
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration || !this.canSyncMessages(integration)) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} unavailable for message sync`,
+        OrderMessageService.loggerCtx,
+      );
+      return;
+    }
+
+    const result = await this.mercadoLibreService.getMessage(
+      integration,
+      messageId,
+    );
+    if (!result.success || !result.data) {
+      throw new Error(
+        `Could not fetch MercadoLibre message ${messageId}: ${result.error}`,
+      );
+    }
+
+    const resource = (result.data.message_resources || []).find(
+      (r) => r.name === "packs" || r.name === "orders",
+    );
+    const mapping = resource
+      ? await this.externalOrderService.getMappingByExternalReference(
+          ctx,
+          integration.id,
+          String(resource.id),
+        )
+      : null;
+    if (!mapping) {
+      // La orden puede no haberse importado todavía; el mensaje se recupera al
+      // sincronizar la conversación desde el dashboard.
+      Logger.warn(
+        `[QUEUE] No imported order for message ${messageId} resource=${resource ? `${resource.name}/${resource.id}` : "n/a"}`,
+        OrderMessageService.loggerCtx,
+      );
+      return;
+    }
+
+    await this.saveMessage(ctx, integration, mapping, result.data);
+  }
+
+  private async saveMessage(
+    ctx: RequestContext,
+    integration: Integration,
+    mapping: OrderIntegrationMapping,
+    data: MercadoLibreMessage,
+  ): Promise<OrderMessage> {
+    const repository = this.connection.getRepository(ctx, OrderMessage);
+    const existing = await repository.findOne({
+      where: {
+        integrationId: String(integration.id),
+        externalMessageId: String(data.id),
+      },
+    });
+
+    if (existing) {
+      const readAt = data.message_date?.read
+        ? new Date(data.message_date.read)
+        : null;
+      if (readAt && !existing.readAt) {
+        existing.readAt = readAt;
+        return repository.save(existing);
+      }
+      return existing;
+    }
+
+    const attachments: OrderMessageAttachment[] = [];
+    for (const attachment of data.message_attachments || []) {
+      attachments.push(
+        await this.storeAttachment(ctx, integration, attachment),
+      );
+    }
+
+    const saved = await repository.save(
+      new OrderMessage({
+        integrationId: String(integration.id),
+        vendureOrderId: mapping.vendureOrderId,
+        externalMessageId: String(data.id),
+        direction:
+          String(data.from?.user_id) === integration.externalUserId
+            ? "OUTBOUND"
+            : "INBOUND",
+        text: data.text ?? "",
+        attachments,
+        sentAt: new Date(data.message_date?.created ?? Date.now()),
+        readAt: data.message_date?.read
+          ? new Date(data.message_date.read)
+          : null,
+        administratorId: null,
+      }),
+    );
+    Logger.info(
+      `[MESSAGE] Saved messageId=${data.id} order=${mapping.vendureOrderCode} direction=${saved.direction} attachments=${attachments.length}`,
+      OrderMessageService.loggerCtx,
+    );
+    return saved;
+  }
+
+  /**
+   * Descarga el adjunto y lo guarda como asset. Si falla, el mensaje se guarda igual
+   * con la referencia externa para no perder el texto.
+   */
+  private async storeAttachment(
+    ctx: RequestContext,
+    integration: Integration,
+    attachment: NonNullable<MercadoLibreMessage["message_attachments"]>[number],
+  ): Promise<OrderMessageAttachment> {
+    const name = attachment.original_filename || attachment.filename;
+    const stored: OrderMessageAttachment = {
+      assetId: null,
+      externalId: attachment.filename,
+      name,
+      mimeType: attachment.type ?? null,
+    };
+
+    const download = await this.mercadoLibreService.downloadMessageAttachment(
+      integration,
+      attachment.filename,
+    );
+    if (!download.success || !download.data) {
+      Logger.warn(
+        `Could not download attachment ${attachment.filename}: ${download.error}`,
+        OrderMessageService.loggerCtx,
+      );
+      return stored;
+    }
+
+    const asset = await this.assetService.createFromFileStream(
+      Readable.from(download.data),
+      name,
+      ctx,
+    );
+    if (isGraphQlErrorResult(asset)) {
+      Logger.warn(
+        `Could not store attachment ${attachment.filename} as asset: ${asset.message}`,
+        OrderMessageService.loggerCtx,
+      );
+      return stored;
+    }
+
+    return { ...stored, assetId: String(asset.id), mimeType: asset.mimeType };
+  }
+}
@@ -1,7 +1,13 @@
-import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  Injectable,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
 import {
   Channel,
   EventBus,
+  ID,
+  idsAreEqual,
   Job,
   JobQueue,
   JobQueueService,
@@ -17,33 +23,141 @@ import {
 } from "@vendure/core";
 import { filter } from "rxjs/operators";
 import { Integration } from "../entities/integration.entity";
+import { VariantIntegrationMapping } from "../entities/variant-integration-mapping.entity";
+import {
+  getProductRemovalPolicy,
+  isChannelFeatureEnabled,
+} from "../integration-features";
+import { ChannelIntegration } from "../entities/channel-integration.entity";
+import {
+  comparePayloadHashes,
+  hashPayload,
+  PayloadChange,
+  PayloadHashes,
+  pickPriceStockFields,
+} from "../payload-hashes";
+import { getSyncErrorKind, SyncError } from "../sync-errors";
 import { IntegrationService } from "./integration.service";
+import { MercadoLibreService } from "./mercadolibre.service";
 import { ProductMapperService } from "./product-mapper.service";
 import { ProductMappingService } from "./product-mapping.service";
-import { WordPressService } from "./wordpress.service";
-
-type SyncEventType = "created" | "updated" | "deleted";
+import { SyncLogService, SyncLogTarget } from "./sync-log.service";
+import { SyncDeadLetterService } from "./sync-dead-letter.service";
+import { SyncDeadLetter } from "../entities/sync-dead-letter.entity";
+import {
+  WooCommerceBatchRequest,
+  WordPressApiResponse,
+  WordPressProduct,
+  WordPressProductVariation,
+  WordPressService,
+} from "./wordpress.service";
+
+/**
+ * `removed`: el producto se quitó del canal (ver `syncRemovedProduct`).
+ */
+type SyncEventType = "created" | "updated" | "deleted" | "removed";
 
 interface ProductSyncJobData {
+  kind?: "product";
   eventType: SyncEventType;
-  productId: number;
-  channelId: number;
-  integrationId: number;
+  productId: ID;
+  channelId: ID;
+  integrationId: ID;
+  languageCode: LanguageCode;
+  /**
+   * Envía el payload completo aunque coincida con el último sincronizado.
+   */
+  force?: boolean;
+}
+
+/**
+ * Lote de una resincronización completa (ver `ProductResyncService`). Todos los
+ * lotes de una misma resincronización comparten `resyncId`.
+ */
+export interface ResyncBatchJobData {
+  kind: "resync";
+  resyncId: string;
+  integrationId: ID;
+  channelId: ID;
+  productIds: ID[];
+  batchNumber: number;
+  totalBatches: number;
+  totalProducts: number;
   languageCode: LanguageCode;
 }
 
+type SyncJobData = ProductSyncJobData | ResyncBatchJobData;
+
+/**
+ * Producto listo para escribir en WooCommerce (ver `prepareWordPressProduct`).
+ */
+interface PreparedWordPressProduct {
+  productId: ID;
+  productName: string;
+  lookupSku: string;
+  product: WordPressProduct;
+  variations: WordPressProductVariation[];
+  hashes: PayloadHashes;
+  /**
+   * `null` si el producto se crea.
+   */
+  wordpressProductId: number | null;
+  change: PayloadChange;
+  requestSummary: Record<string, unknown>;
+}
+
+const RESYNC_BATCH_SIZE = 25;
+
+const DEFAULT_SYNC_DEBOUNCE_MS = 3000;
+
+/**
+ * Ventana en la que se agrupan los eventos de un mismo producto, canal e
+ * integración (`INTEGRATION_SYNC_DEBOUNCE_MS`). Con `0` cada evento se encola al
+ * momento.
+ *
+ * La agrupación vive en la memoria de cada proceso: los eventos recibidos por
+ * procesos distintos no se combinan (cada uno encola su sincronización) y, si el
+ * proceso muere sin apagarse, lo pendiente se pierde hasta el próximo cambio del
+ * producto o una resincronización.
+ */
+function getSyncDebounceMs(): number {
+  const raw = process.env.INTEGRATION_SYNC_DEBOUNCE_MS;
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_SYNC_DEBOUNCE_MS;
+}
+
+/**
+ * Sincronización en espera de que cierre su ventana de agrupación.
+ */
+interface PendingProductSync {
+  data: ProductSyncJobData;
+  timer: NodeJS.Timeout;
+}
+
 @Injectable()
-export class ProductEventService implements OnModuleInit {
+export class ProductEventService
+  implements OnModuleInit, OnApplicationShutdown
+{
   private static readonly loggerCtx = "ProductEventService";
-  private syncQueue!: JobQueue<ProductSyncJobData>;
+  private syncQueue!: JobQueue<SyncJobData>;
+  private readonly syncDebounceMs = getSyncDebounceMs();
+  /**
+   * Clave `productId:integrationId`.
+   */
+  private readonly pendingSyncs = new Map<string, PendingProductSync>();
 
   constructor(
     private eventBus: EventBus,
     private connection: TransactionalConnection,
     private integrationService: IntegrationService,
     private wordPressService: WordPressService,
+    private mercadoLibreService: MercadoLibreService,
     private productMapper: ProductMapperService,
     private productMappingService: ProductMappingService,
+    private syncLogService: SyncLogService,
+    private syncDeadLetterService: SyncDeadLetterService,
     private productVariantService: ProductVariantService,
     private jobQueueService: JobQueueService,
     private requestContextService: RequestContextService,
@@ -52,11 +166,20 @@ export class ProductEventService implements OnModuleInit {
   async onModuleInit() {
     this.syncQueue = await this.jobQueueService.createQueue({
       name: "integration-product-sync",
-      process: async (job) => this.processSyncJob(job),
+      process: async (job) => this.runSyncJob(job),
     });
     this.subscribeToProductEvents();
   }
 
+  /**
+   * Encola lo que quedó agrupado para no perder sincronizaciones al reiniciar.
+   */
+  async onApplicationShutdown() {
+    for (const key of [...this.pendingSyncs.keys()]) {
+      await this.flushPendingSync(key);
+    }
+  }
+
   private subscribeToProductEvents() {
     this.eventBus
       .ofType(ProductEvent)
@@ -88,7 +211,11 @@ export class ProductEventService implements OnModuleInit {
 
     this.eventBus
       .ofType(ProductChannelEvent)
-      .pipe(filter((event) => event.type === "assigned"))
+      .pipe(
+        filter(
+          (event) => event.type === "assigned" || event.type === "removed",
+        ),
+      )
       .subscribe(async (event) => {
         await this.handleProductChannelEvent(event);
       });
@@ -111,7 +238,7 @@ export class ProductEventService implements OnModuleInit {
         await this.enqueueSyncForChannel(
           ctx,
           type as SyncEventType,
-          Number(product.id),
+          product.id,
           channelId,
         );
       }
@@ -161,70 +288,363 @@ export class ProductEventService implements OnModuleInit {
   }
 
   private async handleProductChannelEvent(event: ProductChannelEvent) {
-    const { ctx, product, channelId } = event;
+    const { ctx, type, product, channelId } = event;
 
     try {
       await this.enqueueSyncForChannel(
         ctx,
-        "created",
-        Number(product.id),
-        Number(channelId),
+        type === "removed" ? "removed" : "created",
+        product.id,
+        channelId,
       );
     } catch (error) {
       Logger.error(
-        `Error handling product channel assignment event: ${error instanceof Error ? error.message : String(error)}`,
+        `Error handling product channel ${type} event: ${error instanceof Error ? error.message : String(error)}`,
         ProductEventService.loggerCtx,
         error instanceof Error ? error.stack : undefined,
       );
     }
   }
 
+  /**
+   * Encola una sincronización por cada integración vinculada al canal.
+   */
   private async enqueueSyncForChannel(
     ctx: RequestContext,
     eventType: SyncEventType,
-    productId: number,
-    channelId: number,
+    productId: ID,
+    channelId: ID,
   ): Promise<void> {
-    const integration = await this.getIntegrationForChannel(ctx, channelId);
+    const links = await this.getIntegrationsForChannel(ctx, channelId);
+    for (const { integration, link } of links) {
+      if (
+        !isChannelFeatureEnabled(
+          integration.enabledFeatures,
+          link.enabledFeatures,
+          "sync_products",
+        )
+      ) {
+        Logger.debug(
+          `Skipping enqueue for integration ${integration.name} channel ${channelId} - sync_products not enabled`,
+          ProductEventService.loggerCtx,
+        );
+        continue;
+      }
+      await this.enqueueSync(ctx, eventType, productId, channelId, integration);
+    }
+  }
 
-    if (!integration || !integration.enabled) {
+  private async enqueueSync(
+    ctx: RequestContext,
+    eventType: SyncEventType,
+    productId: ID,
+    channelId: ID,
+    integration: Integration,
+  ): Promise<void> {
+    const data: ProductSyncJobData = {
+      eventType,
+      productId,
+      channelId,
+      integrationId: integration.id,
+      languageCode: ctx.languageCode,
+    };
+    if (this.syncDebounceMs === 0) {
+      await this.addSyncJob(data);
       return;
     }
 
-    const enabledFeatures = Array.isArray(integration.enabledFeatures)
-      ? integration.enabledFeatures
-      : [];
-    const hasProductSyncFeature =
-      enabledFeatures.length === 0 || enabledFeatures.includes("sync_products");
-
-    if (!hasProductSyncFeature) {
+    // Guardar un producto con variantes emite un ProductEvent y un
+    // ProductVariantEvent por variante: se agrupan para sincronizar una sola vez. El
+    // canal forma parte de la clave porque el job sincroniza con sus precios.
+    const key = `${productId}:${channelId}:${data.integrationId}`;
+    const pending = this.pendingSyncs.get(key);
+    if (pending) {
+      pending.data = {
+        ...data,
+        eventType: this.mergeEventTypes(pending.data.eventType, eventType),
+      };
       Logger.debug(
-        `Skipping enqueue for integration ${integration.name} - sync_products not enabled`,
+        `[QUEUE] Coalesced product sync event=${eventType} productId=${productId} channelId=${channelId} integrationId=${integration.id}`,
         ProductEventService.loggerCtx,
       );
       return;
     }
 
-    await this.syncQueue.add(
-      {
-        eventType,
+    const timer = setTimeout(() => {
+      this.flushPendingSync(key).catch((error) =>
+        Logger.error(
+          `Error enqueueing product sync ${key}: ${error instanceof Error ? error.message : String(error)}`,
+          ProductEventService.loggerCtx,
+          error instanceof Error ? error.stack : undefined,
+        ),
+      );
+    }, this.syncDebounceMs);
+    this.pendingSyncs.set(key, { data, timer });
+  }
+
+  /**
+   * Gana el último evento, salvo que el producto se haya eliminado: una actualización
+   * posterior no lo revive.
+   */
+  private mergeEventTypes(
+    previous: SyncEventType,
+    next: SyncEventType,
+  ): SyncEventType {
+    return previous === "deleted" ? previous : next;
+  }
+
+  private async flushPendingSync(key: string): Promise<void> {
+    const pending = this.pendingSyncs.get(key);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pendingSyncs.delete(key);
+    await this.addSyncJob(pending.data);
+  }
+
+  private async addSyncJob(data: ProductSyncJobData): Promise<void> {
+    await this.syncQueue.add(data, { retries: 3 });
+
+    Logger.info(
+      `[QUEUE] Enqueued product sync event=${data.eventType} productId=${data.productId} channelId=${data.channelId} integrationId=${data.integrationId}`,
+      ProductEventService.loggerCtx,
+    );
+  }
+
+  /**
+   * Encola la resincronización de los productos en lotes de `RESYNC_BATCH_SIZE`.
+   * Devuelve la cantidad de lotes encolados.
+   */
+  async enqueueResync(
+    ctx: RequestContext,
+    resyncId: string,
+    integrationId: ID,
+    channelId: ID,
+    productIds: ID[],
+  ): Promise<number> {
+    const totalBatches = Math.ceil(productIds.length / RESYNC_BATCH_SIZE);
+    for (let i = 0; i < productIds.length; i += RESYNC_BATCH_SIZE) {
+      await this.syncQueue.add(
+        {
+          kind: "resync",
+          resyncId,
+          integrationId,
+          channelId,
+          productIds: productIds.slice(i, i + RESYNC_BATCH_SIZE),
+          batchNumber: i / RESYNC_BATCH_SIZE + 1,
+          totalBatches,
+          totalProducts: productIds.length,
+          languageCode: ctx.languageCode,
+        },
+        { retries: 2 },
+      );
+    }
+
+    Logger.info(
+      `[QUEUE] Enqueued resync resyncId=${resyncId} integrationId=${integrationId} channelId=${channelId} products=${productIds.length} batches=${totalBatches}`,
+      ProductEventService.loggerCtx,
+    );
+    return totalBatches;
+  }
+
+  /**
+   * Encola la baja (`removed`) de cada producto en la integración, sin agrupar: se usa
+   * al desvincular un canal, cuando ya no llegan más eventos de esos productos.
+   */
+  async enqueueRemovals(
+    ctx: RequestContext,
+    integrationId: ID,
+    channelId: ID,
+    productIds: ID[],
+  ): Promise<void> {
+    for (const productId of productIds) {
+      await this.addSyncJob({
+        eventType: "removed",
         productId,
         channelId,
-        integrationId: Number(integration.id),
+        integrationId,
         languageCode: ctx.languageCode,
-      },
-      { retries: 3 },
+      });
+    }
+  }
+
+  /**
+   * Reencola una sincronización aparcada y la marca como reencolada.
+   */
+  async redriveDeadLetter(
+    ctx: RequestContext,
+    deadLetter: SyncDeadLetter,
+  ): Promise<SyncDeadLetter> {
+    await this.syncQueue.add(deadLetter.jobData as SyncJobData, {
+      retries: 3,
+    });
+    Logger.info(
+      `[DEAD-LETTER] Re-driven product sync id=${deadLetter.id} productId=${deadLetter.productId} integrationId=${deadLetter.integrationId}`,
+      ProductEventService.loggerCtx,
     );
+    return this.syncDeadLetterService.resolve(ctx, deadLetter, "REDRIVEN");
+  }
+
+  /**
+   * Los errores transitorios se relanzan para que el job se reintente con backoff.
+   * Los permanentes, y los transitorios del último intento, se aparcan como dead
+   * letter; un error permanente no se relanza porque reintentar no lo resolvería.
+   */
+  private async runSyncJob(job: Job<SyncJobData>) {
+    if (job.data.kind === "resync") {
+      return this.processResyncBatchJob(job as Job<ResyncBatchJobData>);
+    }
+
+    const data = job.data;
+    try {
+      await this.syncProduct(data);
+    } catch (error) {
+      const kind = getSyncErrorKind(error);
+      const isLastAttempt = job.attempts > job.retries;
+      if (kind === "permanent" || isLastAttempt) {
+        const ctx = await this.requestContextService.create({
+          apiType: "admin",
+        });
+        await this.syncDeadLetterService.park(
+          ctx,
+          data,
+          error,
+          job.attempts,
+        );
+      }
+      if (kind === "transient") {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Sincroniza los productos del lote. Un producto que falla no detiene el lote: si
+   * el error es transitorio se encola como sincronización individual (con sus
+   * reintentos) y si es permanente se aparca directamente. En WordPress el lote se
+   * envía con `products/batch` (ver `resyncBatchToWordPress`).
+   */
+  private async processResyncBatchJob(job: Job<ResyncBatchJobData>) {
+    const { resyncId, productIds, batchNumber, totalBatches } = job.data;
+    const ctx = await this.requestContextService.create({ apiType: "admin" });
+    let failed = 0;
+
+    const items: ProductSyncJobData[] = productIds.map((productId) => ({
+      eventType: "updated",
+      productId,
+      channelId: job.data.channelId,
+      integrationId: job.data.integrationId,
+      languageCode: job.data.languageCode,
+      // La resincronización sirve para corregir diferencias hechas fuera de Vendure.
+      force: true,
+    }));
+    const onFailure = async (data: ProductSyncJobData, error: unknown) => {
+      failed += 1;
+      if (getSyncErrorKind(error) === "permanent") {
+        await this.syncDeadLetterService.park(ctx, data, error, 1);
+      } else {
+        await this.syncQueue.add(data, { retries: 3 });
+      }
+    };
+    const onProgress = (processed: number) =>
+      job.setProgress(Math.round((processed / items.length) * 100));
+
+    const syncContext = await this.loadSyncContext(job.data);
+    if (syncContext?.integration.type === "wordpress") {
+      await this.resyncBatchToWordPress(
+        syncContext.channelCtx,
+        syncContext.integration,
+        items,
+        onFailure,
+        onProgress,
+      );
+    } else {
+      for (const [index, data] of items.entries()) {
+        try {
+          await this.syncProduct(data);
+        } catch (error) {
+          await onFailure(data, error);
+        }
+        onProgress(index + 1);
+      }
+    }
 
     Logger.info(
-      `[QUEUE] Enqueued product sync event=${eventType} productId=${productId} channelId=${channelId} integrationId=${integration.id}`,
+      `[QUEUE] Resync batch completed resyncId=${resyncId} batch=${batchNumber}/${totalBatches} products=${productIds.length} failed=${failed}`,
       ProductEventService.loggerCtx,
     );
   }
 
-  private async processSyncJob(job: Job<ProductSyncJobData>) {
-    const { eventType, productId, channelId, integrationId, languageCode } =
-      job.data;
+  private async syncProduct(data: ProductSyncJobData) {
+    const { eventType, productId, channelId } = data;
+
+    const syncContext = await this.loadSyncContext(data);
+    if (!syncContext) {
+      return;
+    }
+    const { channelCtx, integration } = syncContext;
+
+    const target: SyncLogTarget = { integration, productId, channelId };
+
+    if (eventType === "deleted") {
+      if (integration.type === "mercadolibre") {
+        await this.syncDeletedProductToMercadoLibre(
+          channelCtx,
+          productId,
+          integration,
+          target,
+        );
+      } else {
+        await this.syncDeletedProductToWordPress(
+          channelCtx,
+          productId,
+          integration,
+          target,
+        );
+      }
+      return;
+    }
+
+    if (eventType === "removed") {
+      await this.syncRemovedProduct(channelCtx, productId, integration, target);
+      return;
+    }
+
+    const fullProduct = await this.loadProductForSync(channelCtx, data);
+    if (!fullProduct) {
+      return;
+    }
+
+    if (integration.type === "wordpress") {
+      await this.syncToWordPress(
+        channelCtx,
+        eventType,
+        fullProduct,
+        integration,
+        target,
+        data.force ?? false,
+      );
+    } else if (integration.type === "mercadolibre") {
+      await this.syncToMercadoLibre(
+        channelCtx,
+        fullProduct,
+        integration,
+        target,
+      );
+    }
+  }
+
+  /**
+   * Contexto del canal del job y su integración, o `null` si alguno ya no está
+   * disponible.
+   */
+  private async loadSyncContext(data: {
+    channelId: ID;
+    integrationId: ID;
+    languageCode: LanguageCode;
+  }): Promise<{ channelCtx: RequestContext; integration: Integration } | null> {
+    const { channelId, integrationId, languageCode } = data;
 
     const channel = await this.connection.rawConnection
       .getRepository(Channel)
@@ -237,7 +657,7 @@ export class ProductEventService implements OnModuleInit {
         `[QUEUE] Channel ${channelId} not found`,
         ProductEventService.loggerCtx,
       );
-      return;
+      return null;
     }
 
     const channelCtx = await this.requestContextService.create({
@@ -255,65 +675,116 @@ export class ProductEventService implements OnModuleInit {
         `[QUEUE] Integration ${integrationId} unavailable for channel ${channelId}`,
         ProductEventService.loggerCtx,
       );
-      return;
+      return null;
     }
 
-    if (eventType === "deleted") {
-      await this.syncDeletedProductToWordPress(
-        channelCtx,
-        productId,
-        integration,
-      );
-      return;
-    }
+    return { channelCtx, integration };
+  }
 
+  /**
+   * Producto a sincronizar, o `null` si ya no existe o dejó de pertenecer al canal.
+   * Los precios son los de la lista de precios del vínculo canal-integración.
+   */
+  private async loadProductForSync(
+    channelCtx: RequestContext,
+    data: ProductSyncJobData,
+  ): Promise<any | null> {
+    const { eventType, productId, channelId } = data;
+
+    const link = await this.integrationService.findChannelIntegration(
+      channelCtx,
+      channelId,
+      data.integrationId,
+    );
     const fullProduct = await this.getFullProductForChannel(
       channelCtx,
       productId,
+      link?.priceChannelId,
     );
     if (!fullProduct) {
       Logger.warn(
         `[QUEUE] Product ${productId} not found`,
         ProductEventService.loggerCtx,
       );
-      return;
+      return null;
     }
 
-    const isInChannel = (fullProduct.channels || []).some(
-      (ch: any) => Number(ch.id) === channelId,
+    const isInChannel = (fullProduct.channels || []).some((ch: any) =>
+      idsAreEqual(ch.id, channelId),
     );
     if (!isInChannel) {
       Logger.info(
         `[QUEUE] Product ${productId} no longer belongs to channel ${channelId}; skipping ${eventType}`,
         ProductEventService.loggerCtx,
       );
-      return;
+      return null;
     }
 
-    if (integration.type === "wordpress") {
-      await this.syncToWordPress(
-        channelCtx,
-        eventType,
-        fullProduct,
-        integration,
-      );
-    } else if (integration.type === "mercadolibre") {
-      Logger.debug(
-        `MercadoLibre sync not yet implemented for product ${productId}`,
+    return fullProduct;
+  }
+
+  private async syncDeletedProductToMercadoLibre(
+    ctx: RequestContext,
+    productId: ID,
+    integration: Integration,
+    target: SyncLogTarget,
+  ) {
+    const mapping = await this.productMappingService.getMapping(
+      ctx,
+      productId,
+      integration.id,
+    );
+
+    if (!mapping?.externalProductId) {
+      Logger.info(
+        `[DELETE] No mapping found for vendureProductId=${productId} integrationId=${integration.id}. Skipping MercadoLibre close.`,
         ProductEventService.loggerCtx,
       );
+      return;
+    }
+
+    const result = await this.syncLogService.track(
+      ctx,
+      target,
+      "delete",
+      { action: "close" },
+      () =>
+        this.mercadoLibreService.closeItem(
+          integration,
+          mapping.externalProductId,
+        ),
+      () => mapping.externalProductId,
+    );
+
+    if (!result.success) {
+      throw SyncError.fromResult(
+        `[DELETE] Failed to close MercadoLibre item mlId=${mapping.externalProductId} vendureProductId=${productId}`,
+        result,
+      );
     }
+
+    await this.productMappingService.deleteMapping(
+      ctx,
+      productId,
+      integration.id,
+    );
+
+    Logger.info(
+      `[DELETE] Closed MercadoLibre item mlId=${mapping.externalProductId} for vendureProductId=${productId}`,
+      ProductEventService.loggerCtx,
+    );
   }
 
   private async syncDeletedProductToWordPress(
     ctx: RequestContext,
-    productId: number,
+    productId: ID,
     integration: Integration,
+    target: SyncLogTarget,
   ) {
     const mapping = await this.productMappingService.getMapping(
       ctx,
       productId,
-      Number(integration.id),
+      integration.id,
     );
     const wordpressProductId = mapping
       ? parseInt(mapping.externalProductId)
@@ -327,23 +798,26 @@ export class ProductEventService implements OnModuleInit {
       return;
     }
 
-    const result = await this.wordPressService.deleteProduct(
-      integration,
-      wordpressProductId,
+    const result = await this.syncLogService.track(
+      ctx,
+      target,
+      "delete",
+      { action: "delete" },
+      () => this.wordPressService.deleteProduct(integration, wordpressProductId),
+      () => wordpressProductId,
     );
 
     if (!result.success) {
-      Logger.error(
-        `[DELETE] Failed to delete WordPress product wpId=${wordpressProductId} vendureProductId=${productId}: ${result.error}`,
-        ProductEventService.loggerCtx,
+      throw SyncError.fromResult(
+        `[DELETE] Failed to delete WordPress product wpId=${wordpressProductId} vendureProductId=${productId}`,
+        result,
       );
-      return;
     }
 
     await this.productMappingService.deleteMapping(
       ctx,
       productId,
-      Number(integration.id),
+      integration.id,
     );
 
     Logger.info(
@@ -352,67 +826,286 @@ export class ProductEventService implements OnModuleInit {
     );
   }
 
-  private async getProductChannelIds(
-    ctx: RequestContext,
-    productId: number | string,
-  ): Promise<number[]> {
-    const product = await this.connection
-      .getRepository(ctx, "Product")
-      .findOne({
-        where: { id: Number(productId) },
-        withDeleted: true,
-        relations: ["channels"],
-      });
-
-    return (product?.channels || []).map((channel: any) => Number(channel.id));
-  }
-
-  private async getProductIdFromVariant(
-    ctx: RequestContext,
-    variantId: number | string,
-  ): Promise<number | null> {
-    const variant = await this.connection
-      .getRepository(ctx, "ProductVariant")
-      .findOne({
-        where: { id: Number(variantId) },
-        relations: ["product"],
-      });
-
-    if (!variant?.product) {
-      return null;
-    }
-
-    return Number(variant.product.id);
-  }
-
-  private async getIntegrationForChannel(
+  /**
+   * Aplica la política `removalPolicy` de la integración a un producto que se quitó de
+   * un canal. Si el producto sigue en otro canal de la misma integración no se toca.
+   * Con `delete` se elimina como un producto borrado y con `keep` no se hace nada; con
+   * `draft` y `out_of_stock` se conserva el mapeo sin hashes, para que al volver a
+   * asignarlo se envíe completo.
+   */
+  private async syncRemovedProduct(
     ctx: RequestContext,
-    channelId: number,
+    productId: ID,
+    integration: Integration,
+    target: SyncLogTarget,
   ) {
-    const channel = await this.connection
-      .getRepository(ctx, "Channel")
-      .findOne({
-        where: { id: channelId },
-      });
+    const [productChannelIds, integrationChannels] = await Promise.all([
+      this.getProductChannelIds(ctx, productId),
+      this.integrationService.findChannelsForIntegration(
+        ctx,
+        integration.id,
+        "sync_products",
+      ),
+    ]);
+    if (
+      integrationChannels.some((channel) =>
+        productChannelIds.some((channelId) =>
+          idsAreEqual(channelId, channel.id),
+        ),
+      )
+    ) {
+      Logger.info(
+        `[REMOVE] Product ${productId} is still assigned to a channel of integration ${integration.id}; skipping`,
+        ProductEventService.loggerCtx,
+      );
+      return;
+    }
 
-    if (!channel?.customFields?.integrationId) {
-      return null;
+    const policy = getProductRemovalPolicy(integration.config);
+    if (policy === "keep") {
+      Logger.info(
+        `[REMOVE] Keeping external product for vendureProductId=${productId} integrationId=${integration.id} (removal policy keep)`,
+        ProductEventService.loggerCtx,
+      );
+      return;
+    }
+    if (policy === "delete") {
+      if (integration.type === "mercadolibre") {
+        await this.syncDeletedProductToMercadoLibre(
+          ctx,
+          productId,
+          integration,
+          target,
+        );
+      } else {
+        await this.syncDeletedProductToWordPress(
+          ctx,
+          productId,
+          integration,
+          target,
+        );
+      }
+      return;
     }
 
-    return this.integrationService.findOne(
+    const mapping = await this.productMappingService.getMapping(
       ctx,
-      channel.customFields.integrationId,
+      productId,
+      integration.id,
     );
-  }
-
-  private async getFullProductForChannel(
-    ctx: RequestContext,
-    productId: number | string,
+    if (!mapping?.externalProductId) {
+      Logger.info(
+        `[REMOVE] No mapping found for vendureProductId=${productId} integrationId=${integration.id}. Skipping ${policy}.`,
+        ProductEventService.loggerCtx,
+      );
+      return;
+    }
+
+    const result =
+      integration.type === "mercadolibre"
+        ? await this.syncLogService.track(
+            ctx,
+            target,
+            "update",
+            { action: "pause", removalPolicy: policy },
+            () =>
+              this.mercadoLibreService.pauseItem(
+                integration,
+                mapping.externalProductId,
+              ),
+            () => mapping.externalProductId,
+          )
+        : await this.unpublishFromWordPress(
+            ctx,
+            Number(mapping.externalProductId),
+            integration,
+            target,
+            policy,
+          );
+
+    if (!result.success && result.status === 404) {
+      Logger.info(
+        `[REMOVE] External product ${mapping.externalProductId} no longer exists; removing mapping for vendureProductId=${productId}`,
+        ProductEventService.loggerCtx,
+      );
+      await this.productMappingService.deleteMapping(
+        ctx,
+        productId,
+        integration.id,
+      );
+      return;
+    }
+    if (!result.success) {
+      throw SyncError.fromResult(
+        `[REMOVE] Failed to apply removal policy ${policy} to external product ${mapping.externalProductId} vendureProductId=${productId}`,
+        result,
+      );
+    }
+
+    await this.productMappingService.clearHashes(
+      ctx,
+      productId,
+      integration.id,
+    );
+    Logger.info(
+      `[REMOVE] Applied removal policy ${policy} to external product ${mapping.externalProductId} for vendureProductId=${productId}`,
+      ProductEventService.loggerCtx,
+    );
+  }
+
+  /**
+   * `draft` pasa el producto a borrador. `out_of_stock` deja en cero el stock del
+   * producto simple o, si tiene variaciones mapeadas, el de cada variación.
+   */
+  private async unpublishFromWordPress(
+    ctx: RequestContext,
+    wordpressProductId: number,
+    integration: Integration,
+    target: SyncLogTarget,
+    policy: "draft" | "out_of_stock",
+  ): Promise<WordPressApiResponse<unknown>> {
+    const outOfStock = { manage_stock: true, stock_quantity: 0 };
+    if (policy === "draft") {
+      return this.syncLogService.track(
+        ctx,
+        target,
+        "update",
+        { status: "draft", removalPolicy: policy },
+        () =>
+          this.wordPressService.updateProduct(integration, wordpressProductId, {
+            status: "draft",
+          }),
+        () => wordpressProductId,
+      );
+    }
+
+    const variantMappings = await this.productMappingService.getVariantMappings(
+      ctx,
+      integration.id,
+      String(wordpressProductId),
+    );
+    if (variantMappings.length === 0) {
+      return this.syncLogService.track(
+        ctx,
+        target,
+        "update",
+        { ...outOfStock, removalPolicy: policy },
+        () =>
+          this.wordPressService.updateProduct(
+            integration,
+            wordpressProductId,
+            outOfStock,
+          ),
+        () => wordpressProductId,
+      );
+    }
+
+    const batchResult = await this.syncLogService.track(
+      ctx,
+      target,
+      "variation",
+      {
+        ...outOfStock,
+        removalPolicy: policy,
+        variations: variantMappings.length,
+      },
+      () =>
+        this.wordPressService.batchProductVariations(
+          integration,
+          wordpressProductId,
+          {
+            update: variantMappings.map((m) => ({
+              id: Number(m.externalVariationId),
+              ...outOfStock,
+            })),
+          },
+        ),
+      () => wordpressProductId,
+    );
+    if (!batchResult.success || !batchResult.data) {
+      return batchResult;
+    }
+    // Las variaciones que ya no existen en WooCommerce no tienen stock que quitar.
+    const failure = batchResult.data.update.find(
+      (item) => !item.success && item.status !== 404,
+    );
+    return failure ?? batchResult;
+  }
+
+  private async getProductChannelIds(
+    ctx: RequestContext,
+    productId: ID,
+  ): Promise<ID[]> {
+    const product = await this.connection
+      .getRepository(ctx, "Product")
+      .findOne({
+        where: { id: productId },
+        withDeleted: true,
+        relations: ["channels"],
+      });
+
+    return (product?.channels || []).map((channel: any) => channel.id);
+  }
+
+  private async getProductIdFromVariant(
+    ctx: RequestContext,
+    variantId: ID,
+  ): Promise<ID | null> {
+    const variant = await this.connection
+      .getRepository(ctx, "ProductVariant")
+      .findOne({
+        where: { id: variantId },
+        relations: ["product"],
+      });
+
+    if (!variant?.product) {
+      return null;
+    }
+
+    return variant.product.id;
+  }
+
+  /**
+   * Integraciones habilitadas con un vínculo activo al canal.
+   */
+  private async getIntegrationsForChannel(
+    ctx: RequestContext,
+    channelId: ID,
+  ): Promise<Array<{ integration: Integration; link: ChannelIntegration }>> {
+    const links = await this.integrationService.findChannelIntegrations(
+      ctx,
+      channelId,
+    );
+    const result: Array<{
+      integration: Integration;
+      link: ChannelIntegration;
+    }> = [];
+    for (const link of links.filter((l) => l.enabled)) {
+      const integration = await this.integrationService.findOne(
+        ctx,
+        link.integrationId,
+      );
+      if (integration?.enabled) {
+        result.push({ integration, link });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Producto con las relaciones que usa el mapeo y los precios del canal de `ctx`, o
+   * los de `priceChannelId` si se indica (las variantes sin precio en ese canal usan
+   * el del canal de `ctx`).
+   */
+  async getFullProductForChannel(
+    ctx: RequestContext,
+    productId: ID,
+    priceChannelId?: ID | null,
   ) {
     const product = await this.connection
       .getRepository(ctx, "Product")
       .findOne({
-        where: { id: Number(productId) },
+        where: { id: productId },
         relations: [
           "channels",
           "translations",
@@ -437,8 +1130,12 @@ export class ProductEventService implements OnModuleInit {
       });
 
     if (product?.variants) {
+      // Las variantes eliminadas se conservan con `deletedAt`; no se sincronizan.
+      product.variants = product.variants.filter(
+        (variant: any) => !variant.deletedAt,
+      );
       for (const variant of product.variants) {
-        (variant as any).__syncChannelId = Number(ctx.channelId);
+        (variant as any).__syncChannelId = priceChannelId ?? ctx.channelId;
         try {
           await this.productVariantService.applyChannelPriceAndTax(
             variant,
@@ -461,300 +1158,959 @@ export class ProductEventService implements OnModuleInit {
     eventType: SyncEventType,
     product: any,
     integration: Integration,
+    target: SyncLogTarget,
+    force: boolean,
   ) {
     try {
-      const mappedProduct = this.productMapper.vendureToWordPress(product);
-      const {
-        product: baseWordPressProduct,
-        variations,
-        facetValues,
-      } = mappedProduct;
-      const wordPressProduct = { ...baseWordPressProduct };
-      const productName =
-        product.translations?.[0]?.name ||
-        product.name ||
-        `Product ${product.id}`;
-      const desiredWordPressStatus: "publish" | "draft" = product.enabled
-        ? "publish"
-        : "draft";
-      wordPressProduct.status = desiredWordPressStatus;
-      const lookupSku =
-        wordPressProduct.sku ||
-        variations?.[0]?.sku ||
-        `vendure-product-${product.id}`;
-
-      if (facetValues.length > 0) {
-        const taxonomyResult =
-          await this.wordPressService.mapFacetValuesToTaxonomies(
+      const prepared = await this.prepareWordPressProduct(
+        ctx,
+        eventType,
+        product,
+        integration,
+        target,
+        force,
+      );
+      if (!prepared) {
+        return;
+      }
+
+      const { wordpressProductId } = prepared;
+      const result =
+        prepared.change === "none"
+          ? null
+          : wordpressProductId
+            ? await this.syncLogService.track(
+                ctx,
+                target,
+                "update",
+                prepared.requestSummary,
+                () =>
+                  this.wordPressService.updateProduct(
+                    integration,
+                    wordpressProductId,
+                    this.getWordPressPayload(prepared),
+                  ),
+                () => wordpressProductId,
+              )
+            : await this.syncLogService.track(
+                ctx,
+                target,
+                "create",
+                prepared.requestSummary,
+                () =>
+                  this.wordPressService.createProduct(
+                    integration,
+                    prepared.product,
+                  ),
+                (result) => result.data?.id,
+              );
+
+      await this.completeWordPressProduct(
+        ctx,
+        target,
+        integration,
+        prepared,
+        result,
+        force,
+      );
+    } catch (error) {
+      Logger.error(
+        `Error syncing product to WordPress: ${error instanceof Error ? error.message : String(error)}`,
+        ProductEventService.loggerCtx,
+        error instanceof Error ? error.stack : undefined,
+      );
+      // Se relanza para que el job quede fallido (y se reintente).
+      throw error;
+    }
+  }
+
+  /**
+   * Resincroniza un lote en WordPress: prepara cada producto (mapeo, taxonomías,
+   * cambio de tipo), crea y actualiza todos con `products/batch` y después sincroniza
+   * las variaciones de cada uno. Los errores se informan por producto a `onFailure`.
+   */
+  private async resyncBatchToWordPress(
+    ctx: RequestContext,
+    integration: Integration,
+    items: ProductSyncJobData[],
+    onFailure: (data: ProductSyncJobData, error: unknown) => Promise<void>,
+    onProgress: (processed: number) => void,
+  ) {
+    const entries: Array<{
+      data: ProductSyncJobData;
+      target: SyncLogTarget;
+      prepared: PreparedWordPressProduct;
+    }> = [];
+    for (const data of items) {
+      const target: SyncLogTarget = {
+        integration,
+        productId: data.productId,
+        channelId: data.channelId,
+      };
+      try {
+        const fullProduct = await this.loadProductForSync(ctx, data);
+        const prepared =
+          fullProduct &&
+          (await this.prepareWordPressProduct(
+            ctx,
+            data.eventType,
+            fullProduct,
             integration,
-            facetValues,
-          );
+            target,
+            data.force ?? false,
+          ));
+        if (prepared) {
+          entries.push({ data, target, prepared });
+        }
+      } catch (error) {
+        await onFailure(data, error);
+      }
+    }
 
-        if (taxonomyResult.success && taxonomyResult.data) {
-          if (taxonomyResult.data.categories.length > 0) {
-            wordPressProduct.categories = taxonomyResult.data.categories;
-          }
-          if (taxonomyResult.data.tags.length > 0) {
-            wordPressProduct.tags = taxonomyResult.data.tags;
-          }
-        } else {
-          Logger.warn(
-            `Could not map facet values for ${productName}: ${taxonomyResult.error}`,
-            ProductEventService.loggerCtx,
+    const toCreate = entries.filter(
+      (entry) =>
+        entry.prepared.change !== "none" && !entry.prepared.wordpressProductId,
+    );
+    const toUpdate = entries.filter(
+      (entry) =>
+        entry.prepared.change !== "none" && !!entry.prepared.wordpressProductId,
+    );
+    const startedAt = Date.now();
+    const batchResult =
+      toCreate.length + toUpdate.length > 0
+        ? await this.wordPressService.batchProducts(integration, {
+            create: toCreate.map((entry) => entry.prepared.product),
+            update: toUpdate.map((entry) => ({
+              ...this.getWordPressPayload(entry.prepared),
+              id: entry.prepared.wordpressProductId as number,
+            })),
+          })
+        : null;
+    const durationMs = Date.now() - startedAt;
+
+    const results = new Map<
+      (typeof entries)[number],
+      WordPressApiResponse<WordPressProduct>
+    >();
+    const toResult = (
+      kind: "create" | "update",
+      index: number,
+    ): WordPressApiResponse<WordPressProduct> =>
+      batchResult?.success && batchResult.data
+        ? batchResult.data[kind][index]
+        : {
+            success: false,
+            status: batchResult?.status,
+            error: batchResult?.error,
+          };
+    toCreate.forEach((entry, index) =>
+      results.set(entry, toResult("create", index)),
+    );
+    toUpdate.forEach((entry, index) =>
+      results.set(entry, toResult("update", index)),
+    );
+
+    const skipped = items.length - entries.length;
+    for (const [index, entry] of entries.entries()) {
+      const result = results.get(entry) ?? null;
+      if (result) {
+        await this.syncLogService.record(ctx, entry.target, {
+          operation: entry.prepared.wordpressProductId ? "update" : "create",
+          requestSummary: { ...entry.prepared.requestSummary, batch: true },
+          success: result.success,
+          responseStatus: result.success ? null : (result.status ?? null),
+          error: result.success ? null : (result.error ?? "Unknown error"),
+          externalId: result.data?.id ?? entry.prepared.wordpressProductId,
+          durationMs,
+        });
+      }
+      try {
+        await this.completeWordPressProduct(
+          ctx,
+          entry.target,
+          integration,
+          entry.prepared,
+          result,
+          entry.data.force ?? false,
+        );
+      } catch (error) {
+        await onFailure(entry.data, error);
+      }
+      onProgress(skipped + index + 1);
+    }
+  }
+
+  /**
+   * Todo lo previo a escribir el producto en WooCommerce: arma el payload, resuelve
+   * el mapeo (o lo busca por SKU), compara los hashes y, si el contenido cambió,
+   * resuelve las taxonomías y recrea el producto si cambió de tipo. Devuelve `null`
+   * si no hay nada más que hacer.
+   */
+  private async prepareWordPressProduct(
+    ctx: RequestContext,
+    eventType: SyncEventType,
+    product: any,
+    integration: Integration,
+    target: SyncLogTarget,
+    force: boolean,
+  ): Promise<PreparedWordPressProduct | null> {
+    const mappedProduct = this.productMapper.vendureToWordPress(product);
+    const {
+      product: baseWordPressProduct,
+      variations,
+      facetValues,
+    } = mappedProduct;
+    const wordPressProduct = { ...baseWordPressProduct };
+    const productName =
+      product.translations?.[0]?.name || product.name || `Product ${product.id}`;
+    const desiredWordPressStatus: "publish" | "draft" = product.enabled
+      ? "publish"
+      : "draft";
+    wordPressProduct.status = desiredWordPressStatus;
+    const lookupSku =
+      wordPressProduct.sku ||
+      variations?.[0]?.sku ||
+      `vendure-product-${product.id}`;
+    // Se calcula antes de resolver categorías y etiquetas: los facets ya van en
+    // `meta_data`, y así un producto sin cambios no consulta las taxonomías.
+    const hashes = hashPayload(wordPressProduct);
+
+    const mapping = await this.productMappingService.getMapping(
+      ctx,
+      product.id,
+      integration.id,
+    );
+    let wordpressProductId: number | null = mapping
+      ? parseInt(mapping.externalProductId)
+      : null;
+
+    if (!wordpressProductId) {
+      const existingProductResult =
+        await this.wordPressService.findProductBySku(integration, lookupSku);
+      if (existingProductResult.success && existingProductResult.data?.id) {
+        wordpressProductId = existingProductResult.data.id;
+        await this.productMappingService.saveMapping(
+          ctx,
+          product.id,
+          integration.id,
+          wordpressProductId.toString(),
+          lookupSku,
+        );
+      }
+    }
+
+    if (eventType === "deleted") {
+      if (wordpressProductId) {
+        const productIdToDelete = wordpressProductId;
+        const result = await this.syncLogService.track(
+          ctx,
+          target,
+          "delete",
+          { action: "delete", sku: lookupSku },
+          () =>
+            this.wordPressService.deleteProduct(integration, productIdToDelete),
+          () => productIdToDelete,
+        );
+        if (!result.success) {
+          throw SyncError.fromResult(
+            `Failed to delete product from WordPress`,
+            result,
           );
         }
+        await this.productMappingService.deleteMapping(
+          ctx,
+          product.id,
+          integration.id,
+        );
+      }
+      return null;
+    }
+
+    const requestSummary: Record<string, unknown> = {
+      name: productName,
+      sku: wordPressProduct.sku ?? null,
+      type: wordPressProduct.type,
+      status: wordPressProduct.status,
+      variations: variations?.length ?? 0,
+    };
+    const prepared = {
+      productId: product.id,
+      productName,
+      lookupSku,
+      product: wordPressProduct,
+      variations: variations ?? [],
+      hashes,
+      wordpressProductId,
+      requestSummary,
+    };
+
+    if (mapping && wordpressProductId && !force) {
+      const change = comparePayloadHashes(mapping, hashes);
+      if (change !== "content") {
+        if (change === "price_stock") {
+          requestSummary.partial = "price_stock";
+        }
+        return { ...prepared, change };
       }
+    }
 
-      const mapping = await this.productMappingService.getMapping(
-        ctx,
-        product.id,
-        Number(integration.id),
+    if (facetValues.length > 0) {
+      const taxonomyResult =
+        await this.wordPressService.mapFacetValuesToTaxonomies(
+          integration,
+          facetValues,
+        );
+
+      if (taxonomyResult.success && taxonomyResult.data) {
+        if (taxonomyResult.data.categories.length > 0) {
+          wordPressProduct.categories = taxonomyResult.data.categories;
+        }
+        if (taxonomyResult.data.tags.length > 0) {
+          wordPressProduct.tags = taxonomyResult.data.tags;
+        }
+      } else {
+        Logger.warn(
+          `Could not map facet values for ${productName}: ${taxonomyResult.error}`,
+          ProductEventService.loggerCtx,
+        );
+      }
+    }
+
+    if (wordpressProductId) {
+      const existingProductResult = await this.wordPressService.getProduct(
+        integration,
+        wordpressProductId,
       );
-      let wordpressProductId: number | null = mapping
-        ? parseInt(mapping.externalProductId)
-        : null;
 
-      if (!wordpressProductId) {
-        const existingProductResult =
-          await this.wordPressService.findProductBySku(integration, lookupSku);
-        if (existingProductResult.success && existingProductResult.data?.id) {
-          wordpressProductId = existingProductResult.data.id;
-          await this.productMappingService.saveMapping(
-            ctx,
-            product.id,
-            Number(integration.id),
-            wordpressProductId.toString(),
-            lookupSku,
+      if (existingProductResult.success && existingProductResult.data) {
+        const existingType = existingProductResult.data.type;
+        const desiredType = wordPressProduct.type;
+        const existingStatus = existingProductResult.data.status;
+        if (existingStatus !== desiredWordPressStatus) {
+          Logger.info(
+            `WordPress status will be updated for product ${productName}: existing=${existingStatus} desired=${desiredWordPressStatus}`,
+            ProductEventService.loggerCtx,
           );
         }
-      }
+        if (existingType !== desiredType) {
+          Logger.info(
+            `WordPress type mismatch for product ${productName}: existing=${existingType} desired=${desiredType}. Recreating product.`,
+            ProductEventService.loggerCtx,
+          );
 
-      if (eventType === "deleted") {
-        if (wordpressProductId) {
-          const result = await this.wordPressService.deleteProduct(
-            integration,
-            wordpressProductId,
+          const productIdToDelete = wordpressProductId;
+          const deleteResult = await this.syncLogService.track(
+            ctx,
+            target,
+            "delete",
+            {
+              action: "recreate",
+              existingType,
+              desiredType,
+              sku: lookupSku,
+            },
+            () =>
+              this.wordPressService.deleteProduct(
+                integration,
+                productIdToDelete,
+              ),
+            () => productIdToDelete,
           );
-          if (result.success) {
-            await this.productMappingService.deleteMapping(
-              ctx,
-              product.id,
-              Number(integration.id),
-            );
-          } else {
-            Logger.error(
-              `Failed to delete product from WordPress: ${result.error}`,
-              ProductEventService.loggerCtx,
+          if (!deleteResult.success) {
+            throw SyncError.fromResult(
+              `Failed to recreate product ${productName}; delete step failed`,
+              deleteResult,
             );
           }
+
+          await this.productMappingService.deleteMapping(
+            ctx,
+            product.id,
+            integration.id,
+          );
+          wordpressProductId = null;
         }
-        return;
       }
+    }
 
-      if (wordpressProductId) {
-        const existingProductResult = await this.wordPressService.getProduct(
+    return { ...prepared, wordpressProductId, change: "content" };
+  }
+
+  /**
+   * Payload a enviar en la actualización: solo precio y stock si el resto no cambió.
+   */
+  private getWordPressPayload(
+    prepared: PreparedWordPressProduct,
+  ): Partial<WordPressProduct> {
+    return prepared.change === "price_stock"
+      ? pickPriceStockFields(prepared.product)
+      : prepared.product;
+  }
+
+  /**
+   * Todo lo posterior a escribir el producto: guarda el mapeo con los hashes
+   * enviados y sincroniza las variaciones. `result` es `null` si el producto no
+   * cambió y no se envió.
+   */
+  private async completeWordPressProduct(
+    ctx: RequestContext,
+    target: SyncLogTarget,
+    integration: Integration,
+    prepared: PreparedWordPressProduct,
+    result: WordPressApiResponse<WordPressProduct> | null,
+    force: boolean,
+  ) {
+    const isUpdate = !!prepared.wordpressProductId;
+    if (result && !result.success) {
+      throw SyncError.fromResult(
+        isUpdate
+          ? prepared.change === "price_stock"
+            ? `Failed to update product price/stock in WordPress`
+            : `Failed to update product in WordPress`
+          : `Failed to create product in WordPress`,
+        result,
+      );
+    }
+
+    const wordpressProductId =
+      prepared.wordpressProductId ?? result?.data?.id ?? null;
+    if (!wordpressProductId) {
+      throw SyncError.fromResult(`Failed to create product in WordPress`, {
+        error: "Missing product id in response",
+      });
+    }
+
+    if (result) {
+      await this.productMappingService.saveMapping(
+        ctx,
+        prepared.productId,
+        integration.id,
+        wordpressProductId.toString(),
+        prepared.lookupSku,
+        prepared.hashes,
+      );
+    } else {
+      Logger.info(
+        `Skipping WordPress update for ${prepared.productName}: unchanged since last sync wpId=${wordpressProductId}`,
+        ProductEventService.loggerCtx,
+      );
+    }
+
+    await this.syncVariationsToWordPress(
+      ctx,
+      target,
+      integration,
+      wordpressProductId,
+      prepared.variations,
+      prepared.productName,
+      force,
+    );
+  }
+
+  private async syncToMercadoLibre(
+    ctx: RequestContext,
+    product: any,
+    integration: Integration,
+    target: SyncLogTarget,
+  ) {
+    try {
+      const productName =
+        product.translations?.[0]?.name ||
+        product.name ||
+        `Product ${product.id}`;
+      const { categoryId, currencyId, listingTypeId } = integration.config;
+
+      if (!categoryId || !currencyId) {
+        throw new SyncError(
+          `Missing MercadoLibre configuration (categoryId or currencyId) for integration ${integration.name}; cannot sync ${productName}`,
+          "permanent",
+        );
+      }
+
+      const { item, description, sku } =
+        this.productMapper.vendureToMercadoLibre(product, {
+          categoryId,
+          currencyId,
+          listingTypeId,
+        });
+      const desiredStatus = product.enabled ? "active" : "paused";
+      const requestSummary = {
+        title: item.title,
+        sku: sku ?? null,
+        status: desiredStatus,
+        variations: item.variations?.length ?? 0,
+      };
+
+      const mapping = await this.productMappingService.getMapping(
+        ctx,
+        product.id,
+        integration.id,
+      );
+      let itemId: string | null = mapping?.externalProductId || null;
+
+      if (itemId) {
+        const existingResult = await this.mercadoLibreService.getItem(
           integration,
-          wordpressProductId,
+          itemId,
         );
 
-        if (existingProductResult.success && existingProductResult.data) {
-          const existingType = existingProductResult.data.type;
-          const desiredType = wordPressProduct.type;
-          const existingStatus = existingProductResult.data.status;
-          if (existingStatus !== desiredWordPressStatus) {
-            Logger.info(
-              `WordPress status will be updated for product ${productName}: existing=${existingStatus} desired=${desiredWordPressStatus}`,
-              ProductEventService.loggerCtx,
+        if (existingResult.success && existingResult.data?.status === "closed") {
+          // Una publicación finalizada no se puede reactivar: se publica de nuevo.
+          Logger.info(
+            `MercadoLibre item ${itemId} for product ${productName} is closed. Creating a new listing.`,
+            ProductEventService.loggerCtx,
+          );
+          await this.productMappingService.deleteMapping(
+            ctx,
+            product.id,
+            integration.id,
+          );
+          itemId = null;
+        } else if (existingResult.success && existingResult.data) {
+          const existing = existingResult.data;
+          if (item.variations && existing.variations?.length) {
+            item.variations = this.mercadoLibreService.matchExistingVariations(
+              item.variations,
+              existing.variations,
             );
           }
-          if (existingType !== desiredType) {
-            Logger.info(
-              `WordPress type mismatch for product ${productName}: existing=${existingType} desired=${desiredType}. Recreating product.`,
-              ProductEventService.loggerCtx,
-            );
 
-            const deleteResult = await this.wordPressService.deleteProduct(
-              integration,
-              wordpressProductId,
+          const itemIdToUpdate = itemId;
+          const updateResult = await this.syncLogService.track(
+            ctx,
+            target,
+            "update",
+            requestSummary,
+            () =>
+              this.mercadoLibreService.updateItem(
+                integration,
+                itemIdToUpdate,
+                item,
+                description,
+              ),
+            () => itemIdToUpdate,
+          );
+          if (!updateResult.success) {
+            throw SyncError.fromResult(
+              `Failed to update product in MercadoLibre`,
+              updateResult,
             );
-            if (!deleteResult.success) {
-              Logger.error(
-                `Failed to recreate product ${productName}; delete step failed: ${deleteResult.error}`,
-                ProductEventService.loggerCtx,
-              );
-              return;
-            }
+          }
 
-            await this.productMappingService.deleteMapping(
+          if (existing.status !== desiredStatus) {
+            const statusResult = await this.syncLogService.track(
               ctx,
-              product.id,
-              Number(integration.id),
+              target,
+              "update",
+              { status: desiredStatus, previousStatus: existing.status },
+              () =>
+                this.mercadoLibreService.setItemStatus(
+                  integration,
+                  itemIdToUpdate,
+                  desiredStatus,
+                ),
+              () => itemIdToUpdate,
             );
-            wordpressProductId = null;
+            if (!statusResult.success) {
+              throw SyncError.fromResult(
+                `Failed to set MercadoLibre item ${itemIdToUpdate} status to ${desiredStatus}`,
+                statusResult,
+              );
+            }
           }
+          return;
+        } else {
+          throw SyncError.fromResult(
+            `Failed to read MercadoLibre item ${itemId} for product ${productName}`,
+            existingResult,
+          );
         }
       }
 
-      if (wordpressProductId) {
-        const result = await this.wordPressService.updateProduct(
-          integration,
-          wordpressProductId,
-          wordPressProduct,
+      if (!product.enabled) {
+        Logger.info(
+          `Product ${productName} is disabled and not yet published in MercadoLibre; skipping create`,
+          ProductEventService.loggerCtx,
         );
-
-        if (!result.success) {
-          Logger.error(
-            `Failed to update product in WordPress: ${result.error}`,
-            ProductEventService.loggerCtx,
-          );
-          return;
-        }
-
-        if (variations && variations.length > 0) {
-          await this.syncVariationsToWordPress(
-            integration,
-            wordpressProductId,
-            variations,
-            productName,
-          );
-        }
         return;
       }
 
-      const createResult = await this.wordPressService.createProduct(
-        integration,
-        wordPressProduct,
+      const createResult = await this.syncLogService.track(
+        ctx,
+        target,
+        "create",
+        requestSummary,
+        () =>
+          this.mercadoLibreService.createItem(integration, item, description),
+        (result) => result.data?.id,
       );
 
       if (!(createResult.success && createResult.data?.id)) {
-        Logger.error(
-          `Failed to create product in WordPress: ${createResult.error}`,
-          ProductEventService.loggerCtx,
+        throw SyncError.fromResult(
+          `Failed to create product in MercadoLibre`,
+          createResult,
         );
-        return;
       }
 
       await this.productMappingService.saveMapping(
         ctx,
         product.id,
-        Number(integration.id),
-        createResult.data.id.toString(),
-        lookupSku,
+        integration.id,
+        createResult.data.id,
+        sku,
       );
-
-      if (variations && variations.length > 0) {
-        await this.syncVariationsToWordPress(
-          integration,
-          createResult.data.id,
-          variations,
-          productName,
-        );
-      }
     } catch (error) {
       Logger.error(
-        `Error syncing product to WordPress: ${error instanceof Error ? error.message : String(error)}`,
+        `Error syncing product to MercadoLibre: ${error instanceof Error ? error.message : String(error)}`,
         ProductEventService.loggerCtx,
         error instanceof Error ? error.stack : undefined,
       );
+      throw error;
     }
   }
 
+  /**
+   * Sincroniza todas las variaciones aunque alguna falle; al final lanza un error si
+   * hubo fallos para que el job no se informe como exitoso.
+   *
+   * Las variaciones existentes se resuelven con `VariantIntegrationMapping`. Solo si
+   * alguna variante no tiene mapping (productos sincronizados antes de que existiera
+   * la tabla) o en una sincronización forzada se leen las variaciones de WooCommerce
+   * para buscarla por `_vendure_variant_id`. Se eliminan las variaciones mapeadas cuya
+   * variante ya no existe y, si se leyeron, las que tienen un `_vendure_variant_id` que
+   * ya no es de ninguna variante del producto.
+   *
+   * Las altas, cambios y bajas se envían juntas con `products/{id}/variations/batch`;
+   * las actualizaciones que fallan con 404 (variación eliminada en WooCommerce) se
+   * vuelven a crear en un segundo batch.
+   */
   private async syncVariationsToWordPress(
+    ctx: RequestContext,
+    target: SyncLogTarget,
     integration: Integration,
     wordpressProductId: number,
     variations: any[],
     productName: string,
+    force: boolean,
   ) {
+    const failures: Array<{ sku: string; error: SyncError }> = [];
+    const integrationId = integration.id;
+    let unchanged = 0;
     try {
+      const variantMappings = new Map(
+        (
+          await this.productMappingService.getVariantMappings(
+            ctx,
+            integrationId,
+            String(wordpressProductId),
+          )
+        ).map((mapping) => [String(mapping.vendureVariantId), mapping]),
+      );
+      if (variations.length === 0 && variantMappings.size === 0) {
+        return;
+      }
+
       Logger.info(
-        `[VARIATIONS] Start sync product="${productName}" wpProductId=${wordpressProductId} variations=${variations.length}`,
+        `[VARIATIONS] Start sync product="${productName}" wpProductId=${wordpressProductId} variations=${variations.length} mapped=${variantMappings.size}`,
         ProductEventService.loggerCtx,
       );
 
-      const existingVariationsResult =
-        await this.wordPressService.getProductVariations(
-          integration,
-          wordpressProductId,
-        );
+      const getVendureVariantId = (variation: any): string | undefined =>
+        variation.meta_data?.find((m: any) => m.key === "_vendure_variant_id")
+          ?.value;
 
-      const existingVariations =
-        existingVariationsResult.success && existingVariationsResult.data
-          ? existingVariationsResult.data
-          : [];
-
-      Logger.info(
-        `[VARIATIONS] Existing variations in WP for wpProductId=${wordpressProductId}: ${existingVariations.length}`,
-        ProductEventService.loggerCtx,
+      const currentVariantIds = new Set(
+        variations.map((variation) => getVendureVariantId(variation)),
       );
+      const mappedVariationIds = new Set(
+        [...variantMappings.values()].map((mapping) =>
+          Number(mapping.externalVariationId),
+        ),
+      );
+
+      type OrphanVariation = {
+        vendureVariantId: string;
+        variationId: number;
+        sku: string;
+        mapping?: VariantIntegrationMapping;
+      };
+      const orphans: OrphanVariation[] = [...variantMappings]
+        .filter(([vendureVariantId]) => !currentVariantIds.has(vendureVariantId))
+        .map(([vendureVariantId, mapping]) => ({
+          vendureVariantId,
+          variationId: Number(mapping.externalVariationId),
+          sku: mapping.externalSku,
+          mapping,
+        }));
+
+      const legacyVariationIds = new Map<string, number>();
+      if (
+        force ||
+        variations.some(
+          (variation) => !variantMappings.has(getVendureVariantId(variation) ?? ""),
+        )
+      ) {
+        const existingVariationsResult =
+          await this.wordPressService.getProductVariations(
+            integration,
+            wordpressProductId,
+          );
+        for (const existingVariation of existingVariationsResult.data ?? []) {
+          const vendureVariantId = getVendureVariantId(existingVariation);
+          if (
+            !vendureVariantId ||
+            !existingVariation.id ||
+            mappedVariationIds.has(existingVariation.id)
+          ) {
+            continue;
+          }
+          if (currentVariantIds.has(vendureVariantId)) {
+            legacyVariationIds.set(vendureVariantId, existingVariation.id);
+          } else {
+            // Variación sincronizada antes de la tabla de mapeos cuya variante se borró.
+            orphans.push({
+              vendureVariantId,
+              variationId: existingVariation.id,
+              sku: existingVariation.sku ?? "",
+            });
+          }
+        }
+      }
 
+      type VariationOperation = {
+        variation: any;
+        vendureVariantId?: string;
+        hashes: PayloadHashes;
+        variationId?: number;
+        partial?: boolean;
+      };
+      const updates: VariationOperation[] = [];
+      const creates: VariationOperation[] = [];
       for (const variation of variations) {
-        const vendureVariantId = variation.meta_data?.find(
-          (m: any) => m.key === "_vendure_variant_id",
-        )?.value;
+        const vendureVariantId = getVendureVariantId(variation);
+        const mapping = vendureVariantId
+          ? variantMappings.get(vendureVariantId)
+          : undefined;
+        const variationId = mapping
+          ? Number(mapping.externalVariationId)
+          : vendureVariantId
+            ? legacyVariationIds.get(vendureVariantId)
+            : undefined;
+        const hashes = hashPayload(variation);
+        const change =
+          mapping && !force ? comparePayloadHashes(mapping, hashes) : "content";
+        if (change === "none") {
+          unchanged += 1;
+          continue;
+        }
         Logger.info(
-          `[VARIATIONS] Processing sku=${variation.sku} vendureVariantId=${vendureVariantId ?? "n/a"} hasImage=${variation.image ? "yes" : "no"} attributes=${variation.attributes?.length ?? 0}`,
+          `[VARIATIONS] Processing sku=${variation.sku} vendureVariantId=${vendureVariantId ?? "n/a"} wpVariationId=${variationId ?? "new"} hasImage=${variation.image ? "yes" : "no"} attributes=${variation.attributes?.length ?? 0}`,
           ProductEventService.loggerCtx,
         );
+        if (variationId) {
+          updates.push({
+            variation,
+            vendureVariantId,
+            hashes,
+            variationId,
+            partial: change === "price_stock",
+          });
+        } else {
+          creates.push({ variation, vendureVariantId, hashes });
+        }
+      }
 
-        const existingVariation = existingVariations.find((ev: any) =>
-          ev.meta_data?.find(
-            (m: any) =>
-              m.key === "_vendure_variant_id" && m.value === vendureVariantId,
-          ),
+      const runBatch = async (
+        request: WooCommerceBatchRequest<WordPressProductVariation>,
+      ) => {
+        const startedAt = Date.now();
+        const result = await this.wordPressService.batchProductVariations(
+          integration,
+          wordpressProductId,
+          request,
         );
-
-        if (existingVariation && existingVariation.id) {
-          Logger.info(
-            `[VARIATIONS] Updating existing variation wpVariationId=${existingVariation.id} sku=${variation.sku}`,
+        if (!result.success || !result.data) {
+          throw SyncError.fromResult(
+            `Failed to sync variations for ${productName}`,
+            result,
+          );
+        }
+        return { results: result.data, durationMs: Date.now() - startedAt };
+      };
+      const recordItem = (
+        summary: Record<string, unknown>,
+        result: WordPressApiResponse,
+        durationMs: number,
+        externalId?: number,
+      ) =>
+        this.syncLogService.record(ctx, target, {
+          operation: "variation",
+          requestSummary: { ...summary, batch: true },
+          success: result.success,
+          responseStatus: result.success ? null : (result.status ?? null),
+          error: result.success ? null : (result.error ?? "Unknown error"),
+          externalId: result.data?.id ?? externalId,
+          durationMs,
+        });
+      const saveCreated = async (
+        operation: VariationOperation,
+        result: WordPressApiResponse<WordPressProductVariation>,
+      ) => {
+        if (!result.success) {
+          failures.push({
+            sku: operation.variation.sku,
+            error: SyncError.fromResult(operation.variation.sku, result),
+          });
+          Logger.error(
+            `Failed to create variation ${operation.variation.sku}: ${result.error}`,
             ProductEventService.loggerCtx,
           );
-          const updateResult =
-            await this.wordPressService.updateProductVariation(
-              integration,
-              wordpressProductId,
-              existingVariation.id,
-              variation,
-            );
-
-          if (!updateResult.success) {
+          return;
+        }
+        Logger.info(
+          `[VARIATIONS] Created variation sku=${operation.variation.sku} wpVariationId=${result.data?.id ?? "n/a"}`,
+          ProductEventService.loggerCtx,
+        );
+        if (operation.vendureVariantId && result.data?.id) {
+          await this.productMappingService.saveVariantMapping(
+            ctx,
+            operation.vendureVariantId,
+            integrationId,
+            String(wordpressProductId),
+            String(result.data.id),
+            operation.variation.sku,
+            operation.hashes,
+          );
+        }
+      };
+
+      if (updates.length + creates.length + orphans.length > 0) {
+        const { results, durationMs } = await runBatch({
+          update: updates.map((operation) => ({
+            ...(operation.partial
+              ? pickPriceStockFields(operation.variation)
+              : operation.variation),
+            id: operation.variationId as number,
+          })),
+          create: creates.map((operation) => operation.variation),
+          delete: orphans.map((orphan) => orphan.variationId),
+        });
+
+        const recreates: VariationOperation[] = [];
+        for (const [index, operation] of updates.entries()) {
+          const result = results.update[index];
+          const { sku } = operation.variation;
+          await recordItem(
+            {
+              action: "update",
+              sku,
+              vendureVariantId: operation.vendureVariantId,
+              ...(operation.partial && { partial: "price_stock" }),
+            },
+            result,
+            durationMs,
+            operation.variationId,
+          );
+          if (result.success) {
+            if (operation.vendureVariantId) {
+              await this.productMappingService.saveVariantMapping(
+                ctx,
+                operation.vendureVariantId,
+                integrationId,
+                String(wordpressProductId),
+                String(operation.variationId),
+                sku,
+                operation.hashes,
+              );
+            }
+            continue;
+          }
+          if (result.status !== 404) {
+            failures.push({
+              sku,
+              error: SyncError.fromResult(sku, result),
+            });
             Logger.error(
-              `Failed to update variation ${variation.sku}: ${updateResult.error}`,
+              `Failed to update variation ${sku}: ${result.error}`,
               ProductEventService.loggerCtx,
             );
-          } else {
-            Logger.info(
-              `[VARIATIONS] Updated variation sku=${variation.sku} wpVariationId=${existingVariation.id}`,
-              ProductEventService.loggerCtx,
+            continue;
+          }
+          // La variación se eliminó en WooCommerce: se vuelve a crear.
+          Logger.warn(
+            `[VARIATIONS] Variation wpVariationId=${operation.variationId} not found; recreating sku=${sku}`,
+            ProductEventService.loggerCtx,
+          );
+          recreates.push(operation);
+        }
+
+        for (const [index, operation] of creates.entries()) {
+          const result = results.create[index];
+          await recordItem(
+            {
+              action: "create",
+              sku: operation.variation.sku,
+              vendureVariantId: operation.vendureVariantId,
+            },
+            result,
+            durationMs,
+          );
+          await saveCreated(operation, result);
+        }
+
+        for (const [index, orphan] of orphans.entries()) {
+          const result = results.delete[index];
+          const { vendureVariantId, variationId: orphanVariationId } = orphan;
+          await recordItem(
+            { action: "delete", sku: orphan.sku, vendureVariantId },
+            result,
+            durationMs,
+            orphanVariationId,
+          );
+          if (!result.success && result.status !== 404) {
+            failures.push({
+              sku: orphan.sku || `variant-${vendureVariantId}`,
+              error: SyncError.fromResult(
+                `Delete variation ${orphanVariationId}`,
+                result,
+              ),
+            });
+            continue;
+          }
+          if (orphan.mapping) {
+            await this.productMappingService.deleteVariantMapping(
+              ctx,
+              orphan.mapping.id,
             );
           }
-        } else {
           Logger.info(
-            `[VARIATIONS] Creating new variation sku=${variation.sku}`,
+            `[VARIATIONS] Deleted orphan variation wpVariationId=${orphanVariationId} vendureVariantId=${vendureVariantId}`,
             ProductEventService.loggerCtx,
           );
-          const createResult =
-            await this.wordPressService.createProductVariation(
-              integration,
-              wordpressProductId,
-              variation,
-            );
+        }
 
-          if (!createResult.success) {
-            Logger.error(
-              `Failed to create variation ${variation.sku}: ${createResult.error}`,
-              ProductEventService.loggerCtx,
-            );
-          } else {
-            Logger.info(
-              `[VARIATIONS] Created variation sku=${variation.sku} wpVariationId=${createResult.data?.id ?? "n/a"}`,
-              ProductEventService.loggerCtx,
+        if (recreates.length > 0) {
+          const recreated = await runBatch({
+            create: recreates.map((operation) => operation.variation),
+          });
+          for (const [index, operation] of recreates.entries()) {
+            const result = recreated.results.create[index];
+            await recordItem(
+              {
+                action: "create",
+                sku: operation.variation.sku,
+                vendureVariantId: operation.vendureVariantId,
+              },
+              result,
+              recreated.durationMs,
             );
+            await saveCreated(operation, result);
           }
         }
       }
 
       Logger.info(
-        `Synced ${variations.length} variation(s) for ${productName}`,
+        `Synced ${variations.length - failures.length}/${variations.length} variation(s) for ${productName} (${unchanged} unchanged)`,
         ProductEventService.loggerCtx,
       );
     } catch (error) {
@@ -763,6 +2119,18 @@ export class ProductEventService implements OnModuleInit {
         ProductEventService.loggerCtx,
         error instanceof Error ? error.stack : undefined,
       );
+      throw error;
+    }
+
+    if (failures.length > 0) {
+      // Basta un fallo transitorio para reintentar: el reintento vuelve a sincronizar
+      // todas las variaciones.
+      const transient = failures.find((f) => f.error.kind === "transient");
+      throw new SyncError(
+        `Failed to sync ${failures.length} of ${variations.length} variation(s) for ${productName}: ${failures.map((f) => f.sku).join(", ")}`,
+        transient ? "transient" : "permanent",
+        (transient ?? failures[0]).error.status,
+      );
     }
   }
 }
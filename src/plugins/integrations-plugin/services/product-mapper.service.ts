@@ -1,10 +1,15 @@
 import { Injectable, Logger } from "@nestjs/common";
+import { idsAreEqual } from "@vendure/core";
 import {
   WordPressProduct,
   WordPressProductVariation,
   WordPressProductAttribute,
   WordPressMappedFacetValue,
 } from "./wordpress.service";
+import {
+  MercadoLibreItem,
+  MercadoLibreVariation,
+} from "./mercadolibre.service";
 
 export interface MappedWordPressProduct {
   product: WordPressProduct;
@@ -12,6 +17,21 @@ export interface MappedWordPressProduct {
   facetValues: WordPressMappedFacetValue[];
 }
 
+export interface MappedMercadoLibreItem {
+  item: MercadoLibreItem;
+  description: string;
+  sku: string;
+}
+
+export interface MercadoLibreMappingOptions {
+  categoryId?: string;
+  currencyId?: string;
+  listingTypeId?: string;
+}
+
+const MERCADOLIBRE_TITLE_MAX_LENGTH = 60;
+const MERCADOLIBRE_MAX_PICTURES = 10;
+
 @Injectable()
 export class ProductMapperService {
   private static readonly loggerCtx = "ProductMapperService";
@@ -74,6 +94,118 @@ export class ProductMapperService {
     );
   }
 
+  vendureToMercadoLibre(
+    vendureProduct: any,
+    options: MercadoLibreMappingOptions,
+  ): MappedMercadoLibreItem {
+    const translation = vendureProduct.translations?.[0];
+    const name = translation?.name || vendureProduct.name || "Untitled Product";
+    const description = this.htmlToPlainText(translation?.description || "");
+    const variants: any[] = vendureProduct.variants || [];
+    const productImages = this.getProductImages(vendureProduct);
+
+    Logger.debug(
+      `Mapping product for MercadoLibre: ${name} (ID: ${vendureProduct.id}) with ${variants.length} variant(s)`,
+      ProductMapperService.loggerCtx,
+    );
+
+    const pictureSources: string[] = productImages.map((image) => image.src);
+    const addPicture = (src: string) => {
+      if (!pictureSources.includes(src)) {
+        pictureSources.push(src);
+      }
+    };
+
+    const item: MercadoLibreItem = {
+      title: name.slice(0, MERCADOLIBRE_TITLE_MAX_LENGTH),
+      category_id: options.categoryId,
+      currency_id: options.currencyId,
+      listing_type_id: options.listingTypeId || "gold_special",
+      buying_mode: "buy_it_now",
+      condition: "new",
+    };
+
+    if (variants.length > 1) {
+      const variations: MercadoLibreVariation[] = variants.map((variant) => {
+        const variantImages = this.getVariantImages(variant, []);
+        variantImages.forEach((image) => addPicture(image.src));
+        const sku = variant.sku || `vendure-variant-${variant.id}`;
+
+        return {
+          price: Number(this.getVariantPrice(variant).regular),
+          available_quantity: this.getVariantStock(variant).quantity ?? 0,
+          attribute_combinations: this.getVariantAttributes(variant).map(
+            (attribute) => ({
+              name: attribute.name,
+              value_name: attribute.option,
+            }),
+          ),
+          picture_ids: variantImages.length
+            ? variantImages.map((image) => image.src)
+            : undefined,
+          attributes: [{ id: "SELLER_SKU", value_name: sku }],
+        };
+      });
+
+      item.variations = variations;
+      item.price = variations[0].price;
+    } else {
+      const variant = variants[0];
+      if (variant) {
+        this.getVariantImages(variant, []).forEach((image) =>
+          addPicture(image.src),
+        );
+      }
+      item.price = variant ? Number(this.getVariantPrice(variant).regular) : 0;
+      item.available_quantity = variant
+        ? (this.getVariantStock(variant).quantity ?? 0)
+        : 0;
+      item.attributes = [
+        {
+          id: "SELLER_SKU",
+          value_name: variant?.sku || `vendure-${vendureProduct.id}`,
+        },
+      ];
+    }
+
+    const pictures = pictureSources
+      .slice(0, MERCADOLIBRE_MAX_PICTURES)
+      .map((source) => ({ source }));
+    if (pictures.length > 0) {
+      item.pictures = pictures;
+      // Las variaciones solo pueden referenciar imágenes incluidas en el ítem.
+      for (const variation of item.variations || []) {
+        variation.picture_ids = variation.picture_ids?.filter((src) =>
+          pictures.some((picture) => picture.source === src),
+        );
+      }
+    }
+
+    return {
+      item,
+      description,
+      sku:
+        variants[0]?.sku ||
+        (variants.length > 1
+          ? `vendure-variant-${variants[0].id}`
+          : `vendure-${vendureProduct.id}`),
+    };
+  }
+
+  private htmlToPlainText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
   private createSimpleProduct(
     vendureProduct: any,
     name: string,
@@ -327,10 +459,10 @@ export class ProductMapperService {
   }
 
   private getVariantPrice(variant: any): { regular: string; sale?: string } {
-    const syncChannelId = Number((variant as any)?.__syncChannelId);
+    const syncChannelId = (variant as any)?.__syncChannelId;
     const channelPrice = Array.isArray(variant?.productVariantPrices)
-      ? variant.productVariantPrices.find(
-          (price: any) => Number(price?.channelId) === syncChannelId,
+      ? variant.productVariantPrices.find((price: any) =>
+          idsAreEqual(price?.channelId, syncChannelId),
         )
       : null;
     const calculatedPrice =
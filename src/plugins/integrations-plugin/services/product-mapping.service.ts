@@ -1,23 +1,66 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { RequestContext, TransactionalConnection } from '@vendure/core';
+import {
+    ID,
+    ListQueryBuilder,
+    ListQueryOptions,
+    PaginatedList,
+    Product,
+    ProductVariant,
+    RequestContext,
+    TransactionalConnection,
+} from '@vendure/core';
+import { In, IsNull } from 'typeorm';
 import { ProductIntegrationMapping } from '../entities/product-integration-mapping.entity';
+import { VariantIntegrationMapping } from '../entities/variant-integration-mapping.entity';
+import { PayloadHashes } from '../payload-hashes';
 import { WordPressService } from './wordpress.service';
 import { IntegrationService } from './integration.service';
 
+const REBUILD_PAGE_SIZE = 50;
+
+export interface MappingRebuildResult {
+    success: number;
+    failed: number;
+    errors: string[];
+}
+
 @Injectable()
 export class ProductMappingService {
     private static readonly loggerCtx = 'ProductMappingService';
 
     constructor(
         private connection: TransactionalConnection,
+        private listQueryBuilder: ListQueryBuilder,
         private wordPressService: WordPressService,
         private integrationService: IntegrationService,
     ) {}
 
+    async findAll(
+        ctx: RequestContext,
+        options?: ListQueryOptions<ProductIntegrationMapping>,
+    ): Promise<PaginatedList<ProductIntegrationMapping>> {
+        return this.listQueryBuilder
+            .build(ProductIntegrationMapping, options, {
+                ctx,
+                orderBy: { updatedAt: 'DESC' },
+            })
+            .getManyAndCount()
+            .then(([items, totalItems]) => ({
+                items,
+                totalItems,
+            }));
+    }
+
+    async findOne(ctx: RequestContext, id: ID): Promise<ProductIntegrationMapping | null> {
+        return this.connection.getRepository(ctx, ProductIntegrationMapping).findOne({
+            where: { id },
+        });
+    }
+
     async getMapping(
         ctx: RequestContext,
-        vendureProductId: number,
-        integrationId: number
+        vendureProductId: ID,
+        integrationId: ID
     ): Promise<ProductIntegrationMapping | null> {
         return this.connection.getRepository(ctx, ProductIntegrationMapping).findOne({
             where: {
@@ -27,20 +70,42 @@ export class ProductMappingService {
         });
     }
 
+    async getMappingByExternalId(
+        ctx: RequestContext,
+        integrationId: ID,
+        externalProductId: string
+    ): Promise<ProductIntegrationMapping | null> {
+        return this.connection.getRepository(ctx, ProductIntegrationMapping).findOne({
+            where: {
+                integrationId,
+                externalProductId,
+            },
+        });
+    }
+
     async saveMapping(
         ctx: RequestContext,
-        vendureProductId: number,
-        integrationId: number,
+        vendureProductId: ID,
+        integrationId: ID,
         externalProductId: string,
-        externalSku?: string
+        externalSku?: string,
+        hashes?: PayloadHashes
     ): Promise<ProductIntegrationMapping> {
         const existing = await this.getMapping(ctx, vendureProductId, integrationId);
 
         if (existing) {
+            if (existing.externalProductId !== externalProductId) {
+                await this.deleteVariantMappingsForProduct(ctx, integrationId, existing.externalProductId);
+                existing.contentHash = null;
+                existing.priceStockHash = null;
+            }
             existing.externalProductId = externalProductId;
             if (externalSku) {
                 existing.externalSku = externalSku;
             }
+            if (hashes) {
+                Object.assign(existing, hashes);
+            }
             return this.connection.getRepository(ctx, ProductIntegrationMapping).save(existing);
         }
 
@@ -49,6 +114,7 @@ export class ProductMappingService {
             integrationId,
             externalProductId,
             externalSku: externalSku || '',
+            ...hashes,
         });
 
         return this.connection.getRepository(ctx, ProductIntegrationMapping).save(mapping);
@@ -56,19 +122,100 @@ export class ProductMappingService {
 
     async deleteMapping(
         ctx: RequestContext,
-        vendureProductId: number,
-        integrationId: number
+        vendureProductId: ID,
+        integrationId: ID
     ): Promise<void> {
+        const existing = await this.getMapping(ctx, vendureProductId, integrationId);
+        if (existing) {
+            await this.deleteVariantMappingsForProduct(ctx, integrationId, existing.externalProductId);
+        }
         await this.connection.getRepository(ctx, ProductIntegrationMapping).delete({
             vendureProductId,
             integrationId,
         });
     }
 
+    /**
+     * Borra los hashes del último payload del producto y de sus variaciones, para que la
+     * próxima sincronización envíe todo aunque el producto no haya cambiado en Vendure.
+     */
+    async clearHashes(ctx: RequestContext, vendureProductId: ID, integrationId: ID): Promise<void> {
+        const existing = await this.getMapping(ctx, vendureProductId, integrationId);
+        if (!existing) {
+            return;
+        }
+        const cleared = { contentHash: null, priceStockHash: null };
+        await this.connection.getRepository(ctx, ProductIntegrationMapping).update({ id: existing.id }, cleared);
+        await this.connection
+            .getRepository(ctx, VariantIntegrationMapping)
+            .update({ integrationId, externalProductId: existing.externalProductId }, cleared);
+    }
+
+    async deleteMappingById(ctx: RequestContext, id: ID): Promise<boolean> {
+        const existing = await this.findOne(ctx, id);
+        if (existing) {
+            await this.deleteVariantMappingsForProduct(ctx, existing.integrationId, existing.externalProductId);
+        }
+        const result = await this.connection.getRepository(ctx, ProductIntegrationMapping).delete({ id });
+        return (result.affected ?? 0) > 0;
+    }
+
+    /**
+     * Mappings de las variaciones de un producto externo.
+     */
+    async getVariantMappings(
+        ctx: RequestContext,
+        integrationId: ID,
+        externalProductId: string
+    ): Promise<VariantIntegrationMapping[]> {
+        return this.connection.getRepository(ctx, VariantIntegrationMapping).find({
+            where: { integrationId, externalProductId },
+        });
+    }
+
+    async saveVariantMapping(
+        ctx: RequestContext,
+        vendureVariantId: ID,
+        integrationId: ID,
+        externalProductId: string,
+        externalVariationId: string,
+        externalSku?: string,
+        hashes?: PayloadHashes
+    ): Promise<VariantIntegrationMapping> {
+        const repository = this.connection.getRepository(ctx, VariantIntegrationMapping);
+        const existing = await repository.findOne({ where: { vendureVariantId, integrationId } });
+        const sameVariation =
+            existing?.externalProductId === externalProductId &&
+            existing.externalVariationId === externalVariationId;
+
+        return repository.save(
+            new VariantIntegrationMapping({
+                ...existing,
+                vendureVariantId,
+                integrationId,
+                externalProductId,
+                externalVariationId,
+                externalSku: externalSku || existing?.externalSku || '',
+                contentHash: hashes?.contentHash ?? (sameVariation ? existing.contentHash : null),
+                priceStockHash: hashes?.priceStockHash ?? (sameVariation ? existing.priceStockHash : null),
+            })
+        );
+    }
+
+    async deleteVariantMapping(ctx: RequestContext, id: ID): Promise<void> {
+        await this.connection.getRepository(ctx, VariantIntegrationMapping).delete({ id });
+    }
+
+    /**
+     * Vincula los productos de los canales de la integración con los productos de
+     * WordPress que tienen el mismo SKU (el de la primera variante). Los productos se
+     * cargan y se buscan en WordPress de a `REBUILD_PAGE_SIZE`.
+     */
     async rebuildMappingsForIntegration(
         ctx: RequestContext,
-        integrationId: number
-    ): Promise<{ success: number; failed: number; errors: string[] }> {
+        integrationId: ID,
+        onProgress?: (processed: number, total: number) => void | Promise<void>
+    ): Promise<MappingRebuildResult> {
         const integration = await this.integrationService.findOne(ctx, integrationId);
         
         if (!integration) {
@@ -84,56 +231,68 @@ export class ProductMappingService {
             ProductMappingService.loggerCtx
         );
 
-        const products = await this.connection.getRepository(ctx, 'Product').find({
-            relations: ['channels', 'variants'],
-        });
+        const channels = await this.integrationService.findChannelsForIntegration(ctx, integrationId, 'sync_products');
+        const productIds = await this.getProductIdsForChannels(
+            ctx,
+            channels.map(channel => channel.id)
+        );
 
         let success = 0;
         let failed = 0;
         const errors: string[] = [];
 
-        for (const product of products) {
-            const productChannels = product.channels || [];
-            const isInIntegrationChannel = productChannels.some(
-                (channel: any) => channel.customFields?.integrationId === integrationId
-            );
+        for (let i = 0; i < productIds.length; i += REBUILD_PAGE_SIZE) {
+            const pageIds = productIds.slice(i, i + REBUILD_PAGE_SIZE);
+            const skus = await this.getFirstVariantSkus(ctx, pageIds);
 
-            if (!isInIntegrationChannel) {
-                continue;
+            for (const productId of pageIds) {
+                if (!skus.has(String(productId))) {
+                    failed++;
+                    errors.push(`Product ${productId} has no SKU`);
+                }
             }
 
-            const sku = product.variants?.[0]?.sku;
-            if (!sku) {
-                failed++;
-                errors.push(`Product ${product.id} has no SKU`);
-                continue;
-            }
+            if (skus.size > 0) {
+                const result = await this.wordPressService.findProductsBySkus(integration, [
+                    ...new Set(skus.values()),
+                ]);
 
-            try {
-                const result = await this.wordPressService.findProductBySku(integration, sku);
-                
-                if (result.success && result.data?.id) {
-                    await this.saveMapping(
-                        ctx,
-                        product.id,
-                        integrationId,
-                        result.data.id.toString(),
-                        sku
-                    );
-                    success++;
-                    Logger.debug(
-                        `Mapped product ${product.id} (SKU: ${sku}) -> WP ID: ${result.data.id}`,
-                        ProductMappingService.loggerCtx
-                    );
-                } else {
-                    failed++;
-                    errors.push(`Product ${product.id} (SKU: ${sku}) not found in WordPress`);
+                for (const [productId, sku] of skus) {
+                    if (!result.success) {
+                        failed++;
+                        errors.push(`Product ${productId} (SKU: ${sku}): ${result.error}`);
+                        continue;
+                    }
+
+                    const wpProduct = result.data?.get(sku);
+                    if (!wpProduct?.id) {
+                        failed++;
+                        errors.push(`Product ${productId} (SKU: ${sku}) not found in WordPress`);
+                        continue;
+                    }
+
+                    try {
+                        await this.saveMapping(
+                            ctx,
+                            productId,
+                            integrationId,
+                            wpProduct.id.toString(),
+                            sku
+                        );
+                        success++;
+                        Logger.debug(
+                            `Mapped product ${productId} (SKU: ${sku}) -> WP ID: ${wpProduct.id}`,
+                            ProductMappingService.loggerCtx
+                        );
+                    } catch (error) {
+                        failed++;
+                        const errorMsg = error instanceof Error ? error.message : String(error);
+                        errors.push(`Product ${productId} (SKU: ${sku}): ${errorMsg}`);
+                    }
                 }
-            } catch (error) {
-                failed++;
-                const errorMsg = error instanceof Error ? error.message : String(error);
-                errors.push(`Product ${product.id} (SKU: ${sku}): ${errorMsg}`);
             }
+
+            await onProgress?.(Math.min(i + REBUILD_PAGE_SIZE, productIds.length), productIds.length);
         }
 
         Logger.log(
@@ -146,12 +305,63 @@ export class ProductMappingService {
 
     async clearMappingsForIntegration(
         ctx: RequestContext,
-        integrationId: number
+        integrationId: ID
     ): Promise<number> {
+        await this.connection.getRepository(ctx, VariantIntegrationMapping).delete({ integrationId });
         const result = await this.connection.getRepository(ctx, ProductIntegrationMapping).delete({
             integrationId,
         });
 
         return result.affected || 0;
     }
+
+    private async deleteVariantMappingsForProduct(
+        ctx: RequestContext,
+        integrationId: ID,
+        externalProductId: string
+    ): Promise<void> {
+        await this.connection.getRepository(ctx, VariantIntegrationMapping).delete({
+            integrationId,
+            externalProductId,
+        });
+    }
+
+    private async getProductIdsForChannels(ctx: RequestContext, channelIds: ID[]): Promise<ID[]> {
+        if (channelIds.length === 0) {
+            return [];
+        }
+        const rows = await this.connection
+            .getRepository(ctx, Product)
+            .createQueryBuilder('product')
+            .innerJoin('product.channels', 'channel', 'channel.id IN (:...channelIds)', { channelIds })
+            .where('product.deletedAt IS NULL')
+            .select('product.id', 'id')
+            .distinct(true)
+            .orderBy('product.id', 'ASC')
+            .getRawMany<{ id: ID }>();
+
+        return rows.map(row => row.id);
+    }
+
+    /**
+     * SKU de la primera variante de cada producto (la creada antes; los IDs son uuid y
+     * no indican orden), indexado por ID de producto. Los productos sin variantes con
+     * SKU no aparecen.
+     */
+    private async getFirstVariantSkus(ctx: RequestContext, productIds: ID[]): Promise<Map<string, string>> {
+        const variants = await this.connection.getRepository(ctx, ProductVariant).find({
+            where: { productId: In(productIds), deletedAt: IsNull() },
+            select: { id: true, productId: true, sku: true, createdAt: true },
+            order: { createdAt: 'ASC', id: 'ASC' },
+        });
+
+        const skus = new Map<string, string>();
+        for (const variant of variants) {
+            const productId = String(variant.productId);
+            if (variant.sku && !skus.has(productId)) {
+                skus.set(productId, variant.sku);
+            }
+        }
+        return skus;
+    }
 }
@@ -0,0 +1,294 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  Channel,
+  ID,
+  Job,
+  JobQueue,
+  JobQueueService,
+  ListQueryBuilder,
+  ListQueryOptions,
+  Logger,
+  PaginatedList,
+  RequestContext,
+  RequestContextService,
+  TransactionalConnection,
+} from "@vendure/core";
+import { In } from "typeorm";
+import { Integration } from "../entities/integration.entity";
+import {
+  ProductQuestion,
+  ProductQuestionStatus,
+} from "../entities/product-question.entity";
+import { isFeatureEnabled } from "../integration-features";
+import { IntegrationService } from "./integration.service";
+import { MercadoLibreQuestion, MercadoLibreService } from "./mercadolibre.service";
+import { MercadoLibreNotification } from "./mercadolibre-order.service";
+import { ProductMappingService } from "./product-mapping.service";
+
+interface QuestionSyncJobData {
+  integrationId: string;
+  questionId: string;
+}
+
+export interface UnansweredQuestionCount {
+  channelId: string | null;
+  channelCode: string | null;
+  count: number;
+}
+
+/**
+ * Bandeja de preguntas de MercadoLibre (funcionalidad `sync_product_questions`).
+ * Las preguntas llegan por notificaciones del tópico `questions`, que ML envía tanto
+ * al crearse la pregunta como al responderse, por lo que cada job vuelve a leer la
+ * pregunta y actualiza el registro existente.
+ */
+@Injectable()
+export class ProductQuestionService implements OnModuleInit {
+  private static readonly loggerCtx = "ProductQuestionService";
+  private syncQueue!: JobQueue<QuestionSyncJobData>;
+
+  constructor(
+    private connection: TransactionalConnection,
+    private listQueryBuilder: ListQueryBuilder,
+    private integrationService: IntegrationService,
+    private mercadoLibreService: MercadoLibreService,
+    private productMappingService: ProductMappingService,
+    private jobQueueService: JobQueueService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async onModuleInit() {
+    this.syncQueue = await this.jobQueueService.createQueue({
+      name: "mercadolibre-question-sync",
+      process: async (job) => this.processSyncJob(job),
+    });
+  }
+
+  async findAll(
+    ctx: RequestContext,
+    options?: ListQueryOptions<ProductQuestion>,
+  ): Promise<PaginatedList<ProductQuestion>> {
+    return this.listQueryBuilder
+      .build(ProductQuestion, options, { ctx })
+      .getManyAndCount()
+      .then(([items, totalItems]) => ({
+        items,
+        totalItems,
+      }));
+  }
+
+  async findOne(ctx: RequestContext, id: ID): Promise<ProductQuestion | null> {
+    return this.connection.getRepository(ctx, ProductQuestion).findOne({
+      where: { id },
+    });
+  }
+
+  async getUnansweredCounts(
+    ctx: RequestContext,
+  ): Promise<UnansweredQuestionCount[]> {
+    const rows: Array<{ channelId: string | null; count: string }> =
+      await this.connection
+        .getRepository(ctx, ProductQuestion)
+        .createQueryBuilder("question")
+        .select("question.channelId", "channelId")
+        .addSelect("COUNT(*)", "count")
+        .where("question.status = :status", { status: "UNANSWERED" })
+        .groupBy("question.channelId")
+        .getRawMany();
+
+    const channelIds = rows
+      .map((row) => row.channelId)
+      .filter((id): id is string => !!id);
+    const channels = channelIds.length
+      ? await this.connection
+          .getRepository(ctx, Channel)
+          .find({ where: { id: In(channelIds) } })
+      : [];
+
+    return rows.map((row) => ({
+      channelId: row.channelId,
+      channelCode:
+        channels.find((channel) => String(channel.id) === row.channelId)
+          ?.code ?? null,
+      count: Number(row.count),
+    }));
+  }
+
+  async handleQuestionNotification(
+    ctx: RequestContext,
+    notification: MercadoLibreNotification,
+  ): Promise<void> {
+    const questionId = notification.resource?.match(/\/questions\/(\d+)/)?.[1];
+    if (!questionId || notification.user_id === undefined) {
+      Logger.warn(
+        `[WEBHOOK] Ignoring question notification resource=${notification.resource ?? "n/a"}`,
+        ProductQuestionService.loggerCtx,
+      );
+      return;
+    }
+
+    const integration = await this.integrationService.findByExternalUserId(
+      ctx,
+      "mercadolibre",
+      String(notification.user_id),
+    );
+    if (!integration || !this.canSyncQuestions(integration)) {
+      Logger.debug(
+        `[WEBHOOK] No integration syncing questions for userId=${notification.user_id}`,
+        ProductQuestionService.loggerCtx,
+      );
+      return;
+    }
+
+    await this.syncQueue.add(
+      { integrationId: String(integration.id), questionId },
+      { retries: 3 },
+    );
+    Logger.info(
+      `[QUEUE] Enqueued MercadoLibre question sync questionId=${questionId} integrationId=${integration.id}`,
+      ProductQuestionService.loggerCtx,
+    );
+  }
+
+  /**
+   * Publica la respuesta en MercadoLibre y, si ML la acepta, la registra localmente.
+   */
+  async answer(
+    ctx: RequestContext,
+    id: ID,
+    text: string,
+  ): Promise<{ success: boolean; data?: ProductQuestion; error?: string }> {
+    const question = await this.findOne(ctx, id);
+    if (!question) {
+      return { success: false, error: `Product question ${id} not found` };
+    }
+    if (question.status !== "UNANSWERED") {
+      return {
+        success: false,
+        error: `Product question ${id} cannot be answered (status ${question.status})`,
+      };
+    }
+
+    const integration = await this.integrationService.findOne(
+      ctx,
+      question.integrationId,
+    );
+    if (!integration || !integration.enabled) {
+      return {
+        success: false,
+        error: `Integration ${question.integrationId} is not available`,
+      };
+    }
+
+    const result = await this.mercadoLibreService.answerQuestion(
+      integration,
+      question.externalQuestionId,
+      text,
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    question.status = "ANSWERED";
+    question.answerText = text;
+    question.answeredAt = new Date();
+    const saved = await this.connection
+      .getRepository(ctx, ProductQuestion)
+      .save(question);
+    return { success: true, data: saved };
+  }
+
+  private canSyncQuestions(integration: Integration): boolean {
+    return (
+      integration.enabled &&
+      isFeatureEnabled(integration.enabledFeatures, "sync_product_questions")
+    );
+  }
+
+  private async processSyncJob(job: Job<QuestionSyncJobData>) {
+    const { integrationId, questionId } = job.data;
+    const ctx = await this.requestContextService.create({ apiType: "admin" });
+
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration || !this.canSyncQuestions(integration)) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} unavailable for question sync`,
+        ProductQuestionService.loggerCtx,
+      );
+      return;
+    }
+
+    const result = await this.mercadoLibreService.getQuestion(
+      integration,
+      questionId,
+    );
+    if (!result.success || !result.data) {
+      throw new Error(
+        `Could not fetch MercadoLibre question ${questionId}: ${result.error}`,
+      );
+    }
+
+    await this.saveQuestion(ctx, integration, result.data);
+  }
+
+  private async saveQuestion(
+    ctx: RequestContext,
+    integration: Integration,
+    data: MercadoLibreQuestion,
+  ): Promise<ProductQuestion> {
+    const repository = this.connection.getRepository(ctx, ProductQuestion);
+    const existing = await repository.findOne({
+      where: {
+        integrationId: String(integration.id),
+        externalQuestionId: String(data.id),
+      },
+    });
+
+    const question =
+      existing ??
+      new ProductQuestion({
+        integrationId: String(integration.id),
+        externalQuestionId: String(data.id),
+      });
+
+    // El mapeo y el canal se resuelven al recibir la pregunta; si la publicación aún no
+    // estaba mapeada se reintenta en cada notificación.
+    if (!question.vendureProductId) {
+      const mapping = await this.productMappingService.getMappingByExternalId(
+        ctx,
+        integration.id,
+        data.item_id,
+      );
+      question.vendureProductId = mapping?.vendureProductId ?? null;
+    }
+    if (!question.channelId) {
+      const channels =
+        await this.integrationService.findChannelsForIntegration(
+          ctx,
+          integration.id,
+          "sync_product_questions",
+        );
+      question.channelId = channels[0] ? String(channels[0].id) : null;
+    }
+
+    question.externalItemId = data.item_id;
+    question.text = data.text;
+    question.status = data.status as ProductQuestionStatus;
+    question.buyerId = data.from?.id !== undefined ? String(data.from.id) : null;
+    question.askedAt = new Date(data.date_created);
+    question.answerText = data.answer?.text ?? question.answerText ?? null;
+    question.answeredAt = data.answer?.date_created
+      ? new Date(data.answer.date_created)
+      : (question.answeredAt ?? null);
+
+    const saved = await repository.save(question);
+    Logger.info(
+      `[QUESTION] Saved questionId=${data.id} status=${data.status} itemId=${data.item_id} vendureProductId=${saved.vendureProductId ?? "n/a"}`,
+      ProductQuestionService.loggerCtx,
+    );
+    return saved;
+  }
+}
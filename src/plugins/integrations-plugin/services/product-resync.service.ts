@@ -0,0 +1,359 @@
+import { Injectable } from "@nestjs/common";
+import {
+  Channel,
+  ConfigService,
+  ID,
+  idsAreEqual,
+  isInspectableJobQueueStrategy,
+  Logger,
+  Product,
+  ProductVariant,
+  RequestContext,
+  TransactionalConnection,
+  UserInputError,
+} from "@vendure/core";
+import { randomUUID } from "crypto";
+import { ChannelIntegration } from "../entities/channel-integration.entity";
+import { Integration } from "../entities/integration.entity";
+import { ProductIntegrationMapping } from "../entities/product-integration-mapping.entity";
+import { isChannelFeatureEnabled } from "../integration-features";
+import { IntegrationService } from "./integration.service";
+import {
+  ProductEventService,
+  ResyncBatchJobData,
+} from "./product-event.service";
+
+export interface IntegrationResyncOptions {
+  /** Solo productos que todavía no tienen mapping con la integración. */
+  onlyUnmapped?: boolean | null;
+  /** Solo productos (o variantes) modificados desde esta fecha. */
+  changedSince?: Date | null;
+}
+
+export interface IntegrationResyncResult {
+  resyncId: string;
+  totalProducts: number;
+  totalBatches: number;
+}
+
+export interface IntegrationResyncProgress {
+  resyncId: string;
+  integrationId: string;
+  channelId: string;
+  totalProducts: number;
+  totalBatches: number;
+  remainingBatches: number;
+  progress: number;
+}
+
+/**
+ * Resincronización completa del catálogo de un canal con sus integraciones. Los
+ * productos se encolan en lotes en `integration-product-sync`; el progreso se
+ * calcula a partir de los lotes que siguen en la cola.
+ */
+@Injectable()
+export class ProductResyncService {
+  private static readonly loggerCtx = "ProductResyncService";
+
+  constructor(
+    private connection: TransactionalConnection,
+    private configService: ConfigService,
+    private integrationService: IntegrationService,
+    private productEventService: ProductEventService,
+  ) {}
+
+  /**
+   * Resincroniza todos los canales vinculados a la integración.
+   */
+  async resyncIntegration(
+    ctx: RequestContext,
+    integrationId: ID,
+    options: IntegrationResyncOptions = {},
+  ): Promise<IntegrationResyncResult> {
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration) {
+      throw new UserInputError(`Integration ${integrationId} not found`);
+    }
+    this.assertCanSync(integration);
+
+    const channels = await this.integrationService.findChannelsForIntegration(
+      ctx,
+      integration.id,
+      "sync_products",
+    );
+    if (channels.length === 0) {
+      throw new UserInputError(
+        `Integration ${integration.name} is not linked to any channel`,
+      );
+    }
+
+    const resyncId = randomUUID();
+    const result: IntegrationResyncResult = {
+      resyncId,
+      totalProducts: 0,
+      totalBatches: 0,
+    };
+    for (const channel of channels) {
+      const channelResult = await this.enqueue(
+        ctx,
+        resyncId,
+        integration,
+        channel,
+        options,
+      );
+      result.totalProducts += channelResult.totalProducts;
+      result.totalBatches += channelResult.totalBatches;
+    }
+    return result;
+  }
+
+  /**
+   * Resincroniza los productos del canal con sus integraciones vinculadas, o solo con
+   * `integrationId`. Sin `integrationId` se omiten las que no sincronizan productos.
+   */
+  async resyncChannel(
+    ctx: RequestContext,
+    channelId: ID,
+    options: IntegrationResyncOptions = {},
+    integrationId?: ID | null,
+  ): Promise<IntegrationResyncResult> {
+    const channel = await this.connection
+      .getRepository(ctx, Channel)
+      .findOne({ where: { id: channelId } });
+    if (!channel) {
+      throw new UserInputError(`Channel ${channelId} not found`);
+    }
+
+    const links = (
+      await this.integrationService.findChannelIntegrations(ctx, channel.id)
+    ).filter(
+      (link) => !integrationId || idsAreEqual(link.integrationId, integrationId),
+    );
+    if (integrationId && links.length === 0) {
+      throw new UserInputError(
+        `Integration ${integrationId} is not linked to channel ${channel.code}`,
+      );
+    }
+
+    const integrations: Integration[] = [];
+    for (const link of links) {
+      const integration = await this.integrationService.findOne(
+        ctx,
+        link.integrationId,
+      );
+      if (!integration) {
+        continue;
+      }
+      if (integrationId) {
+        this.assertCanSync(integration, link);
+      } else if (!this.canSync(integration, link)) {
+        continue;
+      }
+      integrations.push(integration);
+    }
+    if (integrations.length === 0) {
+      throw new UserInputError(
+        `Channel ${channel.code} has no integration configured to sync products`,
+      );
+    }
+
+    const resyncId = randomUUID();
+    const result: IntegrationResyncResult = {
+      resyncId,
+      totalProducts: 0,
+      totalBatches: 0,
+    };
+    for (const integration of integrations) {
+      const integrationResult = await this.enqueue(
+        ctx,
+        resyncId,
+        integration,
+        channel,
+        options,
+      );
+      result.totalProducts += integrationResult.totalProducts;
+      result.totalBatches += integrationResult.totalBatches;
+    }
+    return result;
+  }
+
+  /**
+   * Resincronizaciones con lotes pendientes o en curso. Requiere una estrategia de
+   * cola inspeccionable (la de `DefaultJobQueuePlugin` lo es); si no, devuelve una
+   * lista vacía.
+   */
+  async getActiveResyncs(): Promise<IntegrationResyncProgress[]> {
+    const strategy = this.configService.jobQueueOptions.jobQueueStrategy;
+    if (!isInspectableJobQueueStrategy(strategy)) {
+      return [];
+    }
+
+    const { items } = await strategy.findMany({
+      take: 1000,
+      filter: {
+        queueName: { eq: "integration-product-sync" },
+        state: {
+          in: ["PENDING", "RUNNING", "RETRYING"],
+        },
+      },
+    });
+
+    const resyncs = new Map<
+      string,
+      IntegrationResyncProgress & { pendingProducts: number }
+    >();
+    for (const job of items) {
+      const data = job.data as ResyncBatchJobData;
+      if (data?.kind !== "resync") {
+        continue;
+      }
+      const key = `${data.resyncId}:${data.integrationId}:${data.channelId}`;
+      const resync = resyncs.get(key) ?? {
+        resyncId: data.resyncId,
+        integrationId: String(data.integrationId),
+        channelId: String(data.channelId),
+        totalProducts: data.totalProducts,
+        totalBatches: data.totalBatches,
+        remainingBatches: 0,
+        progress: 0,
+        pendingProducts: 0,
+      };
+      resync.remainingBatches += 1;
+      resync.pendingProducts +=
+        data.productIds.length * (1 - (job.progress || 0) / 100);
+      resyncs.set(key, resync);
+    }
+
+    return [...resyncs.values()].map(({ pendingProducts, ...resync }) => ({
+      ...resync,
+      progress:
+        resync.totalProducts > 0
+          ? Math.round(
+              ((resync.totalProducts - pendingProducts) /
+                resync.totalProducts) *
+                100,
+            )
+          : 100,
+    }));
+  }
+
+  private assertCanSync(integration: Integration, link?: ChannelIntegration) {
+    if (!integration.enabled) {
+      throw new UserInputError(`Integration ${integration.name} is disabled`);
+    }
+    if (link && !link.enabled) {
+      throw new UserInputError(
+        `Integration ${integration.name} is disabled for channel ${link.channelId}`,
+      );
+    }
+    if (
+      !isChannelFeatureEnabled(
+        integration.enabledFeatures,
+        link?.enabledFeatures,
+        "sync_products",
+      )
+    ) {
+      throw new UserInputError(
+        `Integration ${integration.name} does not have sync_products enabled`,
+      );
+    }
+  }
+
+  private canSync(integration: Integration, link: ChannelIntegration) {
+    return (
+      integration.enabled &&
+      link.enabled &&
+      isChannelFeatureEnabled(
+        integration.enabledFeatures,
+        link.enabledFeatures,
+        "sync_products",
+      )
+    );
+  }
+
+  private async enqueue(
+    ctx: RequestContext,
+    resyncId: string,
+    integration: Integration,
+    channel: Channel,
+    options: IntegrationResyncOptions,
+  ): Promise<IntegrationResyncResult> {
+    const productIds = await this.getProductIds(
+      ctx,
+      integration,
+      channel.id,
+      options,
+    );
+    const totalBatches = await this.productEventService.enqueueResync(
+      ctx,
+      resyncId,
+      integration.id,
+      channel.id,
+      productIds,
+    );
+
+    Logger.info(
+      `Resync ${resyncId} for integration ${integration.name} channel ${channel.code}: ${productIds.length} products`,
+      ProductResyncService.loggerCtx,
+    );
+    return { resyncId, totalProducts: productIds.length, totalBatches };
+  }
+
+  private async getProductIds(
+    ctx: RequestContext,
+    integration: Integration,
+    channelId: ID,
+    options: IntegrationResyncOptions,
+  ): Promise<ID[]> {
+    const qb = this.connection
+      .getRepository(ctx, Product)
+      .createQueryBuilder("product")
+      .innerJoin("product.channels", "channel", "channel.id = :channelId", {
+        channelId,
+      })
+      .where("product.deletedAt IS NULL")
+      .select("product.id", "id")
+      .orderBy("product.id", "ASC");
+
+    if (options.onlyUnmapped) {
+      qb.andWhere(
+        (sub) =>
+          `NOT EXISTS ${sub
+            .subQuery()
+            .select("1")
+            .from(ProductIntegrationMapping, "mapping")
+            .where("mapping.vendureProductId = product.id")
+            .andWhere("mapping.integrationId = :integrationId")
+            .getQuery()}`,
+        { integrationId: integration.id },
+      );
+    }
+
+    if (options.changedSince) {
+      qb.andWhere(
+        (sub) =>
+          `(product.updatedAt >= :changedSince OR EXISTS ${sub
+            .subQuery()
+            .select("1")
+            .from(ProductVariant, "variant")
+            .where("variant.productId = product.id")
+            .andWhere("variant.updatedAt >= :changedSince")
+            .getQuery()})`,
+        { changedSince: options.changedSince },
+      );
+    }
+
+    const rows = await qb.getRawMany<{ id: ID | null }>();
+    return rows.map(({ id }) => {
+      if (id == null || id === "") {
+        throw new Error(
+          `Invalid product id ${String(id)} in channel ${channelId}`,
+        );
+      }
+      return id;
+    });
+  }
+}
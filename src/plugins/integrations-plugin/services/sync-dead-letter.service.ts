@@ -0,0 +1,128 @@
+import { Injectable } from "@nestjs/common";
+import {
+  ID,
+  ListQueryBuilder,
+  ListQueryOptions,
+  Logger,
+  PaginatedList,
+  RequestContext,
+  TransactionalConnection,
+} from "@vendure/core";
+import {
+  SyncDeadLetter,
+  SyncDeadLetterStatus,
+} from "../entities/sync-dead-letter.entity";
+import { getSyncErrorKind, SyncError } from "../sync-errors";
+
+/**
+ * Datos mínimos de un job de sincronización de producto que se aparca.
+ */
+export interface DeadLetterJobData {
+  eventType: string;
+  productId: ID;
+  channelId: ID;
+  integrationId: ID;
+  [key: string]: any;
+}
+
+/**
+ * Almacena las sincronizaciones que no se pudieron completar. El reencolado lo hace
+ * `ProductEventService.redriveDeadLetter`, dueño de la cola.
+ */
+@Injectable()
+export class SyncDeadLetterService {
+  private static readonly loggerCtx = "SyncDeadLetterService";
+
+  constructor(
+    private connection: TransactionalConnection,
+    private listQueryBuilder: ListQueryBuilder,
+  ) {}
+
+  async findAll(
+    ctx: RequestContext,
+    options?: ListQueryOptions<SyncDeadLetter>,
+  ): Promise<PaginatedList<SyncDeadLetter>> {
+    return this.listQueryBuilder
+      .build(SyncDeadLetter, options, {
+        ctx,
+        orderBy: { updatedAt: "DESC" },
+      })
+      .getManyAndCount()
+      .then(([items, totalItems]) => ({
+        items,
+        totalItems,
+      }));
+  }
+
+  async findOne(ctx: RequestContext, id: ID): Promise<SyncDeadLetter | null> {
+    return this.connection.getRepository(ctx, SyncDeadLetter).findOne({
+      where: { id },
+    });
+  }
+
+  /**
+   * Aparca el job. Si ya hay una entrada pendiente para el mismo producto, canal e
+   * integración, se actualiza con el último error en lugar de duplicarla.
+   */
+  async park(
+    ctx: RequestContext,
+    jobData: DeadLetterJobData,
+    error: unknown,
+    attempts: number,
+  ): Promise<SyncDeadLetter> {
+    const repository = this.connection.getRepository(ctx, SyncDeadLetter);
+    const message = error instanceof Error ? error.message : String(error);
+    const fields = {
+      eventType: jobData.eventType,
+      jobData,
+      errorKind: getSyncErrorKind(error),
+      responseStatus:
+        error instanceof SyncError ? (error.status ?? null) : null,
+      error: message,
+      attempts,
+    };
+
+    const existing = await repository.findOne({
+      where: {
+        integrationId: String(jobData.integrationId),
+        productId: String(jobData.productId),
+        channelId: String(jobData.channelId),
+        status: "PENDING",
+      },
+    });
+
+    const saved = existing
+      ? await repository.save({
+          ...existing,
+          ...fields,
+          occurrences: existing.occurrences + 1,
+        })
+      : await repository.save(
+          new SyncDeadLetter({
+            ...fields,
+            integrationId: String(jobData.integrationId),
+            productId: String(jobData.productId),
+            channelId: String(jobData.channelId),
+            occurrences: 1,
+            status: "PENDING",
+            resolvedAt: null,
+          }),
+        );
+
+    Logger.warn(
+      `[DEAD-LETTER] Parked product sync event=${jobData.eventType} productId=${jobData.productId} integrationId=${jobData.integrationId} kind=${saved.errorKind}: ${message}`,
+      SyncDeadLetterService.loggerCtx,
+    );
+    return saved;
+  }
+
+  async resolve(
+    ctx: RequestContext,
+    deadLetter: SyncDeadLetter,
+    status: Exclude<SyncDeadLetterStatus, "PENDING">,
+  ): Promise<SyncDeadLetter> {
+    deadLetter.status = status;
+    deadLetter.resolvedAt = new Date();
+    return this.connection.getRepository(ctx, SyncDeadLetter).save(deadLetter);
+  }
+}
@@ -0,0 +1,129 @@
+import { Injectable } from "@nestjs/common";
+import {
+  ID,
+  ListQueryBuilder,
+  ListQueryOptions,
+  Logger,
+  PaginatedList,
+  RequestContext,
+  TransactionalConnection,
+} from "@vendure/core";
+import { Integration } from "../entities/integration.entity";
+import {
+  SyncLogEntry,
+  SyncLogOperation,
+} from "../entities/sync-log-entry.entity";
+
+const MAX_SUMMARY_LENGTH = 1000;
+
+/**
+ * Producto e integración a los que pertenecen las entradas registradas.
+ */
+export interface SyncLogTarget {
+  integration: Integration;
+  productId: ID;
+  channelId?: ID | null;
+}
+
+interface SyncCallResult {
+  success: boolean;
+  error?: string;
+  status?: number;
+}
+
+@Injectable()
+export class SyncLogService {
+  private static readonly loggerCtx = "SyncLogService";
+
+  constructor(
+    private connection: TransactionalConnection,
+    private listQueryBuilder: ListQueryBuilder,
+  ) {}
+
+  async findAll(
+    ctx: RequestContext,
+    options?: ListQueryOptions<SyncLogEntry>,
+  ): Promise<PaginatedList<SyncLogEntry>> {
+    return this.listQueryBuilder
+      .build(SyncLogEntry, options, {
+        ctx,
+        orderBy: { createdAt: "DESC" },
+      })
+      .getManyAndCount()
+      .then(([items, totalItems]) => ({
+        items,
+        totalItems,
+      }));
+  }
+
+  /**
+   * Ejecuta la llamada a la plataforma externa y registra su resultado y duración.
+   * Devuelve el resultado sin modificarlo.
+   */
+  async track<T extends SyncCallResult>(
+    ctx: RequestContext,
+    target: SyncLogTarget,
+    operation: SyncLogOperation,
+    requestSummary: Record<string, unknown>,
+    call: () => Promise<T>,
+    getExternalId?: (result: T) => string | number | null | undefined,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const result = await call();
+    await this.record(ctx, target, {
+      operation,
+      requestSummary,
+      success: result.success,
+      responseStatus: result.success ? null : (result.status ?? null),
+      error: result.success ? null : (result.error ?? "Unknown error"),
+      externalId: getExternalId?.(result),
+      durationMs: Date.now() - startedAt,
+    });
+    return result;
+  }
+
+  /**
+   * Registra una entrada. Un fallo al guardar el historial no debe interrumpir la
+   * sincronización, por lo que solo se informa en el log.
+   */
+  async record(
+    ctx: RequestContext,
+    target: SyncLogTarget,
+    entry: {
+      operation: SyncLogOperation;
+      requestSummary: Record<string, unknown>;
+      success: boolean;
+      responseStatus?: number | null;
+      error?: string | null;
+      externalId?: string | number | null;
+      durationMs: number;
+    },
+  ): Promise<void> {
+    try {
+      await this.connection.getRepository(ctx, SyncLogEntry).save(
+        new SyncLogEntry({
+          integrationId: String(target.integration.id),
+          productId: String(target.productId),
+          channelId:
+            target.channelId != null ? String(target.channelId) : null,
+          operation: entry.operation,
+          externalId:
+            entry.externalId != null ? String(entry.externalId) : null,
+          requestSummary: JSON.stringify(entry.requestSummary).slice(
+            0,
+            MAX_SUMMARY_LENGTH,
+          ),
+          success: entry.success,
+          responseStatus: entry.responseStatus ?? null,
+          error: entry.error ?? null,
+          durationMs: entry.durationMs,
+        }),
+      );
+    } catch (error) {
+      Logger.error(
+        `Could not save sync log entry operation=${entry.operation} productId=${target.productId}: ${error instanceof Error ? error.message : String(error)}`,
+        SyncLogService.loggerCtx,
+      );
+    }
+  }
+}
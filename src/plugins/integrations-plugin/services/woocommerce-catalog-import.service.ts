@@ -0,0 +1,540 @@
+import { Injectable } from "@nestjs/common";
+import {
+  AssetService,
+  Facet,
+  FacetService,
+  FacetValueService,
+  ID,
+  isGraphQlErrorResult,
+  LanguageCode,
+  Logger,
+  ProductOptionGroupService,
+  ProductOptionService,
+  ProductService,
+  ProductVariant,
+  ProductVariantService,
+  RequestContext,
+  RequestContextService,
+  TransactionalConnection,
+} from "@vendure/core";
+import { Readable } from "stream";
+import { In, IsNull } from "typeorm";
+import { Integration } from "../entities/integration.entity";
+import { IntegrationService } from "./integration.service";
+import {
+  MappingRebuildResult,
+  ProductMappingService,
+} from "./product-mapping.service";
+import {
+  WordPressProduct,
+  WordPressProductVariation,
+  WordPressService,
+} from "./wordpress.service";
+
+const IMPORT_PAGE_SIZE = 20;
+
+/**
+ * Facets en los que se importan las categorías y etiquetas de WooCommerce. El código
+ * de la de categorías la hace reconocible por `WordPressService.isCategoryFacet`, así
+ * que al sincronizar de vuelta cada valor vuelve a su taxonomía de origen.
+ */
+const CATEGORY_FACET = { code: "categoria", name: "Categoría" };
+const TAG_FACET = { code: "etiqueta", name: "Etiqueta" };
+
+type ProductImportOutcome = "imported" | "linked" | "skipped";
+
+type ImageAssetCache = Map<string, ID | undefined>;
+
+/**
+ * Importa a Vendure el catálogo de una tienda WooCommerce existente: productos,
+ * grupos de opciones, variantes, facets (desde categorías y etiquetas) y assets, en el
+ * canal de la integración. Cada producto importado queda vinculado con
+ * `ProductIntegrationMapping` (y sus variaciones con `VariantIntegrationMapping`), de
+ * modo que la sincronización saliente lo actualiza en lugar de duplicarlo.
+ */
+@Injectable()
+export class WooCommerceCatalogImportService {
+  private static readonly loggerCtx = "WooCommerceCatalogImportService";
+
+  constructor(
+    private connection: TransactionalConnection,
+    private integrationService: IntegrationService,
+    private wordPressService: WordPressService,
+    private productMappingService: ProductMappingService,
+    private productService: ProductService,
+    private productVariantService: ProductVariantService,
+    private productOptionGroupService: ProductOptionGroupService,
+    private productOptionService: ProductOptionService,
+    private facetService: FacetService,
+    private facetValueService: FacetValueService,
+    private assetService: AssetService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  /**
+   * Recorre el catálogo por páginas. Los productos ya vinculados se omiten y los que
+   * coinciden por SKU con una variante existente solo se vinculan. Un producto que
+   * falla se informa en `errors` sin interrumpir la importación.
+   */
+  async importCatalog(
+    ctx: RequestContext,
+    integrationId: ID,
+    onProgress?: (processed: number, total: number) => Promise<void>,
+  ): Promise<MappingRebuildResult> {
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration) {
+      throw new Error(`Integration ${integrationId} not found`);
+    }
+    if (integration.type !== "wordpress") {
+      throw new Error("Catalog import only supported for WordPress integrations");
+    }
+
+    const channels = await this.integrationService.findChannelsForIntegration(
+      ctx,
+      integration.id,
+      "sync_products",
+    );
+    if (channels.length === 0) {
+      throw new Error(
+        `Integration ${integrationId} is not linked to any channel`,
+      );
+    }
+    const channelCtx = await this.requestContextService.create({
+      apiType: "admin",
+      channelOrToken: channels[0].token,
+    });
+
+    const result: MappingRebuildResult = { success: 0, failed: 0, errors: [] };
+    const facetValueCache = new Map<string, ID>();
+    let processed = 0;
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const pageResult = await this.wordPressService.listProducts(integration, {
+        page,
+        perPage: IMPORT_PAGE_SIZE,
+      });
+      if (!pageResult.success || !pageResult.data) {
+        throw new Error(
+          `Could not list WooCommerce products page ${page}: ${pageResult.error}`,
+        );
+      }
+
+      for (const product of pageResult.data.products) {
+        try {
+          const outcome = await this.importProduct(
+            channelCtx,
+            integration,
+            product,
+            facetValueCache,
+          );
+          if (outcome !== "skipped") {
+            result.success++;
+          }
+        } catch (error) {
+          result.failed++;
+          result.errors.push(
+            `Product ${product.id} (${product.name}): ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+        processed++;
+      }
+
+      totalPages = pageResult.data.totalPages;
+      await onProgress?.(processed, Math.max(pageResult.data.total, processed));
+      page++;
+    } while (page <= totalPages);
+
+    Logger.info(
+      `Catalog import finished integration=${integration.id} imported=${result.success} failed=${result.failed}`,
+      WooCommerceCatalogImportService.loggerCtx,
+    );
+    return result;
+  }
+
+  private async importProduct(
+    ctx: RequestContext,
+    integration: Integration,
+    product: WordPressProduct,
+    facetValueCache: Map<string, ID>,
+  ): Promise<ProductImportOutcome> {
+    const integrationId = integration.id;
+    const externalProductId = String(product.id);
+
+    const mapping = await this.productMappingService.getMappingByExternalId(
+      ctx,
+      integrationId,
+      externalProductId,
+    );
+    if (mapping) {
+      return "skipped";
+    }
+    if (product.type !== "simple" && product.type !== "variable") {
+      throw new Error(`Unsupported product type "${product.type}"`);
+    }
+
+    let variations: WordPressProductVariation[] = [];
+    if (product.type === "variable") {
+      const variationsResult = await this.wordPressService.getProductVariations(
+        integration,
+        Number(product.id),
+      );
+      if (!variationsResult.success) {
+        throw new Error(
+          `Could not read variations: ${variationsResult.error}`,
+        );
+      }
+      variations = variationsResult.data ?? [];
+      if (variations.length === 0) {
+        throw new Error("Variable product has no variations");
+      }
+    }
+
+    const existing = await this.findVariantBySkus(ctx, [
+      product.sku,
+      ...variations.map((variation) => variation.sku),
+    ]);
+    if (existing) {
+      await this.productMappingService.saveMapping(
+        ctx,
+        existing.productId,
+        integrationId,
+        externalProductId,
+        product.sku || undefined,
+      );
+      Logger.info(
+        `Linked WooCommerce product ${product.id} to existing product ${existing.productId} by SKU ${existing.sku}`,
+        WooCommerceCatalogImportService.loggerCtx,
+      );
+      return "linked";
+    }
+
+    // Los facets se crean fuera de la transacción del producto para poder reutilizarlos
+    // aunque la importación de este producto falle.
+    const facetValueIds = await this.getFacetValueIds(
+      ctx,
+      product,
+      facetValueCache,
+    );
+
+    await this.connection.withTransaction(ctx, (txCtx) =>
+      this.createProduct(txCtx, integration, product, variations, facetValueIds),
+    );
+    return "imported";
+  }
+
+  private async createProduct(
+    ctx: RequestContext,
+    integration: Integration,
+    product: WordPressProduct,
+    variations: WordPressProductVariation[],
+    facetValueIds: ID[],
+  ): Promise<void> {
+    const integrationId = integration.id;
+    const languageCode = ctx.channel.defaultLanguageCode;
+    const imageCache: ImageAssetCache = new Map();
+
+    const assetIds: ID[] = [];
+    for (const image of product.images ?? []) {
+      const assetId = await this.getImageAssetId(
+        ctx,
+        integration,
+        image.src,
+        imageCache,
+      );
+      if (assetId) {
+        assetIds.push(assetId);
+      }
+    }
+
+    const created = await this.productService.create(ctx, {
+      enabled: product.status === "publish",
+      featuredAssetId: assetIds[0],
+      assetIds,
+      facetValueIds,
+      translations: [
+        {
+          languageCode,
+          name: product.name,
+          slug: product.slug || product.name,
+          description: product.description || "",
+        },
+      ],
+    });
+
+    if (product.type === "simple") {
+      await this.productVariantService.create(ctx, [
+        {
+          productId: created.id,
+          sku: product.sku || `woo-${product.id}`,
+          price: this.toMinorUnits(product.regular_price),
+          stockOnHand: product.manage_stock
+            ? (product.stock_quantity ?? 0)
+            : undefined,
+          translations: [{ languageCode, name: product.name }],
+        },
+      ]);
+    } else {
+      const optionIds = await this.createOptionGroups(
+        ctx,
+        languageCode,
+        created.id,
+        product,
+      );
+
+      for (const variation of variations) {
+        const variantOptionIds = (variation.attributes ?? []).map(
+          (attribute) => {
+            const optionId = optionIds
+              .get(attribute.name.trim().toLowerCase())
+              ?.get(attribute.option.trim().toLowerCase());
+            if (!optionId) {
+              throw new Error(
+                `Variation ${variation.id} has no value for attribute "${attribute.name}"`,
+              );
+            }
+            return optionId;
+          },
+        );
+        const featuredAssetId = variation.image?.src
+          ? await this.getImageAssetId(
+              ctx,
+              integration,
+              variation.image.src,
+              imageCache,
+            )
+          : undefined;
+        const sku = variation.sku || `woo-${product.id}-${variation.id}`;
+
+        const [variant] = await this.productVariantService.create(ctx, [
+          {
+            productId: created.id,
+            sku,
+            price: this.toMinorUnits(variation.regular_price),
+            optionIds: variantOptionIds,
+            featuredAssetId,
+            stockOnHand: variation.manage_stock
+              ? (variation.stock_quantity ?? 0)
+              : undefined,
+            translations: [
+              {
+                languageCode,
+                name: [
+                  product.name,
+                  ...(variation.attributes ?? []).map((a) => a.option),
+                ].join(" "),
+              },
+            ],
+          },
+        ]);
+        await this.productMappingService.saveVariantMapping(
+          ctx,
+          variant.id,
+          integrationId,
+          String(product.id),
+          String(variation.id),
+          sku,
+        );
+      }
+    }
+
+    await this.productMappingService.saveMapping(
+      ctx,
+      created.id,
+      integrationId,
+      String(product.id),
+      product.sku || undefined,
+    );
+
+    Logger.info(
+      `Imported WooCommerce product ${product.id} as product ${created.id} (${product.type}, ${variations.length} variations)`,
+      WooCommerceCatalogImportService.loggerCtx,
+    );
+  }
+
+  /**
+   * Crea un grupo de opciones por cada atributo de variación. Devuelve los IDs de las
+   * opciones por nombre de atributo y de opción (en minúsculas).
+   */
+  private async createOptionGroups(
+    ctx: RequestContext,
+    languageCode: LanguageCode,
+    productId: ID,
+    product: WordPressProduct,
+  ): Promise<Map<string, Map<string, ID>>> {
+    const optionIds = new Map<string, Map<string, ID>>();
+    const productCode = this.toCode(product.slug || product.name);
+
+    for (const attribute of product.attributes ?? []) {
+      if (!attribute.variation) {
+        continue;
+      }
+      const group = await this.productOptionGroupService.create(ctx, {
+        code: `${productCode}-${this.toCode(attribute.name)}`,
+        translations: [{ languageCode, name: attribute.name }],
+      });
+      const options = new Map<string, ID>();
+      for (const optionName of attribute.options) {
+        const option = await this.productOptionService.create(ctx, group, {
+          code: this.toCode(optionName),
+          translations: [{ languageCode, name: optionName }],
+        });
+        options.set(optionName.trim().toLowerCase(), option.id);
+      }
+      await this.productService.addOptionGroupToProduct(
+        ctx,
+        productId,
+        group.id,
+      );
+      optionIds.set(attribute.name.trim().toLowerCase(), options);
+    }
+
+    return optionIds;
+  }
+
+  private async getFacetValueIds(
+    ctx: RequestContext,
+    product: WordPressProduct,
+    cache: Map<string, ID>,
+  ): Promise<ID[]> {
+    const ids: ID[] = [];
+    const taxonomies = [
+      { facet: CATEGORY_FACET, terms: product.categories ?? [] },
+      { facet: TAG_FACET, terms: product.tags ?? [] },
+    ];
+
+    for (const { facet, terms } of taxonomies) {
+      for (const term of terms) {
+        if (!term.name) {
+          continue;
+        }
+        const valueCode = this.toCode(term.slug || term.name);
+        const key = `${facet.code}:${valueCode}`;
+        let id = cache.get(key);
+        if (!id) {
+          id = await this.findOrCreateFacetValue(
+            ctx,
+            facet,
+            valueCode,
+            term.name,
+          );
+          cache.set(key, id);
+        }
+        ids.push(id);
+      }
+    }
+
+    return ids;
+  }
+
+  private async findOrCreateFacetValue(
+    ctx: RequestContext,
+    facetInput: { code: string; name: string },
+    valueCode: string,
+    valueName: string,
+  ): Promise<ID> {
+    const languageCode = ctx.channel.defaultLanguageCode;
+    const facet: Facet =
+      (await this.facetService.findByCode(ctx, facetInput.code, languageCode)) ??
+      (await this.facetService.create(ctx, {
+        code: facetInput.code,
+        isPrivate: false,
+        translations: [{ languageCode, name: facetInput.name }],
+      }));
+
+    const existing = (facet.values ?? []).find(
+      (value) => value.code === valueCode,
+    );
+    if (existing) {
+      return existing.id;
+    }
+
+    const value = await this.facetValueService.create(ctx, facet, {
+      code: valueCode,
+      translations: [{ languageCode, name: valueName }],
+    });
+    return value.id;
+  }
+
+  /**
+   * Descarga la imagen y la guarda como asset, una sola vez por URL dentro del
+   * producto. Una imagen que no se puede descargar se omite.
+   */
+  private async getImageAssetId(
+    ctx: RequestContext,
+    integration: Integration,
+    src: string,
+    cache: ImageAssetCache,
+  ): Promise<ID | undefined> {
+    if (cache.has(src)) {
+      return cache.get(src);
+    }
+
+    let assetId: ID | undefined;
+    const download = await this.wordPressService.downloadImage(
+      integration,
+      src,
+    );
+    if (download.success && download.data) {
+      const fileName =
+        decodeURIComponent(new URL(src).pathname.split("/").pop() || "") ||
+        "image.jpg";
+      const asset = await this.assetService.createFromFileStream(
+        Readable.from(download.data),
+        fileName,
+        ctx,
+      );
+      if (isGraphQlErrorResult(asset)) {
+        Logger.warn(
+          `Could not store image ${src} as asset: ${asset.message}`,
+          WooCommerceCatalogImportService.loggerCtx,
+        );
+      } else {
+        assetId = asset.id;
+      }
+    } else {
+      Logger.warn(
+        `Could not download image ${src}: ${download.error}`,
+        WooCommerceCatalogImportService.loggerCtx,
+      );
+    }
+
+    cache.set(src, assetId);
+    return assetId;
+  }
+
+  private async findVariantBySkus(
+    ctx: RequestContext,
+    skus: Array<string | undefined>,
+  ): Promise<ProductVariant | null> {
+    const values = skus.filter((sku): sku is string => !!sku);
+    if (values.length === 0) {
+      return null;
+    }
+    return this.connection.getRepository(ctx, ProductVariant).findOne({
+      where: { sku: In(values), deletedAt: IsNull() },
+    });
+  }
+
+  /**
+   * Los precios de WooCommerce son decimales en texto; Vendure guarda centavos.
+   */
+  private toMinorUnits(price: string | undefined): number {
+    const value = Number(price);
+    return Number.isFinite(value) ? Math.round(value * 100) : 0;
+  }
+
+  private toCode(value: string): string {
+    return value
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+  }
+}
@@ -0,0 +1,434 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  EventBus,
+  ID,
+  Job,
+  JobQueue,
+  JobQueueService,
+  Logger,
+  OrderStateTransitionEvent,
+  RequestContext,
+  RequestContextService,
+  UserInputError,
+} from "@vendure/core";
+import { filter } from "rxjs/operators";
+import { Integration } from "../entities/integration.entity";
+import { isFeatureEnabled } from "../integration-features";
+import {
+  ExternalOrderInput,
+  ExternalOrderService,
+} from "./external-order.service";
+import { IntegrationService } from "./integration.service";
+import { WooCommerceStockService } from "./woocommerce-stock.service";
+import {
+  WooCommerceOrder,
+  WooCommerceOrderAddress,
+  WordPressService,
+} from "./wordpress.service";
+
+const BACKFILL_PAGE_SIZE = 50;
+
+/**
+ * Estados de WooCommerce con el pago confirmado; solo estas órdenes se importan.
+ */
+const PAID_STATUSES = ["processing", "completed"];
+const CANCELLED_STATUSES = ["cancelled", "refunded", "failed"];
+
+/**
+ * Estados de Vendure en los que la orden se considera cumplida y se marca como
+ * `completed` en WooCommerce.
+ */
+const FULFILLED_STATES = ["Shipped", "Delivered"];
+
+interface OrderImportJobData {
+  kind: "import";
+  integrationId: string;
+  orderId: string;
+}
+
+interface OrderBackfillJobData {
+  kind: "backfill";
+  integrationId: string;
+  /** ISO 8601; `null` recorre todas las órdenes. */
+  modifiedAfter: string | null;
+}
+
+type WooCommerceOrderJobData = OrderImportJobData | OrderBackfillJobData;
+
+interface OrderStatusJobData {
+  integrationId: string;
+  externalOrderId: string;
+  status: string;
+}
+
+/**
+ * Importa las órdenes de WooCommerce (funcionalidad `sync_orders` de WordPress). Las
+ * órdenes llegan por el webhook `order.created`/`order.updated` y por la importación
+ * paginada de `startBackfill`; ambas vías encolan el mismo job, que siempre lee la
+ * orden actual desde la API. Cuando la orden se cumple en Vendure, se marca como
+ * `completed` en WooCommerce.
+ */
+@Injectable()
+export class WooCommerceOrderService implements OnModuleInit {
+  private static readonly loggerCtx = "WooCommerceOrderService";
+  private importQueue!: JobQueue<WooCommerceOrderJobData>;
+  private statusQueue!: JobQueue<OrderStatusJobData>;
+
+  constructor(
+    private eventBus: EventBus,
+    private integrationService: IntegrationService,
+    private wordPressService: WordPressService,
+    private externalOrderService: ExternalOrderService,
+    private wooCommerceStockService: WooCommerceStockService,
+    private jobQueueService: JobQueueService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async onModuleInit() {
+    this.importQueue = await this.jobQueueService.createQueue({
+      name: "woocommerce-order-import",
+      process: async (job) =>
+        job.data.kind === "backfill"
+          ? this.processBackfillJob(job as Job<OrderBackfillJobData>)
+          : this.processImportJob(job as Job<OrderImportJobData>),
+    });
+    this.statusQueue = await this.jobQueueService.createQueue({
+      name: "woocommerce-order-status",
+      process: async (job) => this.processStatusJob(job),
+    });
+
+    this.eventBus
+      .ofType(OrderStateTransitionEvent)
+      .pipe(filter((event) => FULFILLED_STATES.includes(event.toState)))
+      .subscribe(async (event) => {
+        await this.handleOrderFulfilled(event);
+      });
+  }
+
+  canImportOrders(integration: Integration): boolean {
+    return (
+      integration.type === "wordpress" &&
+      integration.enabled &&
+      isFeatureEnabled(integration.enabledFeatures, "sync_orders")
+    );
+  }
+
+  async handleOrderWebhook(
+    integration: Integration,
+    order: Pick<WooCommerceOrder, "id">,
+  ): Promise<void> {
+    if (!this.canImportOrders(integration) || !order?.id) {
+      return;
+    }
+    await this.enqueueImport(integration, String(order.id));
+  }
+
+  /**
+   * Encola la importación paginada de las órdenes modificadas desde `since` (o de
+   * todas, si no se indica). Las órdenes ya importadas sin cambios se descartan.
+   */
+  async startBackfill(
+    ctx: RequestContext,
+    integrationId: ID,
+    since?: Date | null,
+  ): Promise<boolean> {
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration) {
+      throw new UserInputError(`Integration ${integrationId} not found`);
+    }
+    if (!this.canImportOrders(integration)) {
+      throw new UserInputError(
+        `Integration ${integrationId} does not import WooCommerce orders`,
+      );
+    }
+
+    await this.importQueue.add(
+      {
+        kind: "backfill",
+        integrationId: String(integration.id),
+        modifiedAfter: since ? new Date(since).toISOString() : null,
+      },
+      { retries: 3 },
+    );
+    Logger.info(
+      `[QUEUE] Enqueued WooCommerce order backfill integrationId=${integration.id} since=${since ? new Date(since).toISOString() : "all"}`,
+      WooCommerceOrderService.loggerCtx,
+    );
+    return true;
+  }
+
+  private async enqueueImport(integration: Integration, orderId: string) {
+    await this.importQueue.add(
+      { kind: "import", integrationId: String(integration.id), orderId },
+      { retries: 3 },
+    );
+    Logger.info(
+      `[QUEUE] Enqueued WooCommerce order import orderId=${orderId} integrationId=${integration.id}`,
+      WooCommerceOrderService.loggerCtx,
+    );
+  }
+
+  private async processBackfillJob(job: Job<OrderBackfillJobData>) {
+    const { integrationId, modifiedAfter } = job.data;
+    const ctx = await this.requestContextService.create({ apiType: "admin" });
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration || !this.canImportOrders(integration)) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} unavailable for order backfill`,
+        WooCommerceOrderService.loggerCtx,
+      );
+      return;
+    }
+
+    let page = 1;
+    let totalPages = 1;
+    let enqueued = 0;
+    do {
+      const result = await this.wordPressService.listOrders(integration, {
+        page,
+        perPage: BACKFILL_PAGE_SIZE,
+        modifiedAfter: modifiedAfter ? new Date(modifiedAfter) : undefined,
+      });
+      if (!result.success || !result.data) {
+        throw new Error(
+          `Could not list WooCommerce orders page ${page}: ${result.error}`,
+        );
+      }
+
+      for (const order of result.data.orders) {
+        const mapping = await this.externalOrderService.getMapping(
+          ctx,
+          integration.id,
+          String(order.id),
+        );
+        const needsImport = mapping
+          ? mapping.externalStatus !== order.status
+          : PAID_STATUSES.includes(order.status);
+        if (needsImport) {
+          await this.enqueueImport(integration, String(order.id));
+          enqueued++;
+        }
+      }
+
+      totalPages = result.data.totalPages;
+      job.setProgress(Math.round((page / totalPages) * 100));
+      page++;
+    } while (page <= totalPages);
+
+    Logger.info(
+      `[BACKFILL] Enqueued ${enqueued} WooCommerce orders integrationId=${integrationId}`,
+      WooCommerceOrderService.loggerCtx,
+    );
+    return { enqueued };
+  }
+
+  private async processImportJob(job: Job<OrderImportJobData>) {
+    const { integrationId, orderId } = job.data;
+
+    const defaultCtx = await this.requestContextService.create({
+      apiType: "admin",
+    });
+    const integration = await this.integrationService.findOne(
+      defaultCtx,
+      integrationId,
+    );
+    if (!integration || !this.canImportOrders(integration)) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} unavailable for order import`,
+        WooCommerceOrderService.loggerCtx,
+      );
+      return;
+    }
+
+    const channels = await this.integrationService.findChannelsForIntegration(
+      defaultCtx,
+      integration.id,
+      "sync_orders",
+    );
+    if (channels.length === 0) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} is not linked to any channel; cannot import order ${orderId}`,
+        WooCommerceOrderService.loggerCtx,
+      );
+      return;
+    }
+    if (channels.length > 1) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} is linked to ${channels.length} channels; importing order ${orderId} into ${channels[0].code}`,
+        WooCommerceOrderService.loggerCtx,
+      );
+    }
+
+    const orderResult = await this.wordPressService.getOrder(
+      integration,
+      orderId,
+    );
+    if (!orderResult.success || !orderResult.data) {
+      throw new Error(
+        `Could not fetch WooCommerce order ${orderId}: ${orderResult.error}`,
+      );
+    }
+
+    const channelCtx = await this.requestContextService.create({
+      apiType: "admin",
+      channelOrToken: channels[0].token,
+    });
+    const result = await this.externalOrderService.importOrder(
+      channelCtx,
+      integration,
+      this.toExternalOrder(orderResult.data),
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    if (result.data?.status === "created") {
+      // Desde ahora el stock lo mueve la orden de Vendure: se devuelve lo que la
+      // sincronización de stock descontó antes de la importación.
+      await this.wooCommerceStockService.handleOrderWebhook(
+        integration,
+        orderResult.data,
+      );
+    }
+  }
+
+  private async handleOrderFulfilled(event: OrderStateTransitionEvent) {
+    const { ctx, order } = event;
+    try {
+      const mapping = await this.externalOrderService.getMappingForOrder(
+        ctx,
+        order.id,
+      );
+      if (!mapping || mapping.externalStatus === "completed") {
+        return;
+      }
+      const integration = await this.integrationService.findOne(
+        ctx,
+        mapping.integrationId,
+      );
+      if (!integration || !this.canImportOrders(integration)) {
+        return;
+      }
+
+      await this.statusQueue.add(
+        {
+          integrationId: String(integration.id),
+          externalOrderId: mapping.externalOrderId,
+          status: "completed",
+        },
+        { retries: 5 },
+      );
+      Logger.info(
+        `[QUEUE] Enqueued WooCommerce order ${mapping.externalOrderId} completion (order ${order.code} is ${event.toState})`,
+        WooCommerceOrderService.loggerCtx,
+      );
+    } catch (error) {
+      Logger.error(
+        `Error handling fulfilment of order ${order.code}: ${error instanceof Error ? error.message : String(error)}`,
+        WooCommerceOrderService.loggerCtx,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+
+  private async processStatusJob(job: Job<OrderStatusJobData>) {
+    const { integrationId, externalOrderId, status } = job.data;
+    const ctx = await this.requestContextService.create({ apiType: "admin" });
+    const integration = await this.integrationService.findOne(
+      ctx,
+      integrationId,
+    );
+    if (!integration || !this.canImportOrders(integration)) {
+      return;
+    }
+
+    const result = await this.wordPressService.updateOrderStatus(
+      integration,
+      externalOrderId,
+      status,
+    );
+    if (!result.success) {
+      throw new Error(
+        `Could not set WooCommerce order ${externalOrderId} to ${status}: ${result.error}`,
+      );
+    }
+
+    // El webhook `order.updated` que dispara este cambio no vuelve a tocar la orden.
+    await this.externalOrderService.updateExternalStatus(
+      ctx,
+      integration.id,
+      externalOrderId,
+      status,
+    );
+  }
+
+  private toExternalOrder(order: WooCommerceOrder): ExternalOrderInput {
+    const { billing } = order;
+    const shipping = order.shipping?.address_1 ? order.shipping : billing;
+    const fullName = (address: WooCommerceOrderAddress) =>
+      [address.first_name, address.last_name].filter(Boolean).join(" ");
+
+    return {
+      externalOrderId: String(order.id),
+      externalStatus: order.status,
+      paid: PAID_STATUSES.includes(order.status),
+      cancelled: CANCELLED_STATUSES.includes(order.status),
+      customer: {
+        emailAddress:
+          billing.email || `woo-${order.id}@orders.woocommerce.invalid`,
+        firstName: billing.first_name || `Cliente ${order.number}`,
+        lastName: billing.last_name || "",
+        phoneNumber: billing.phone || undefined,
+      },
+      shippingAddress:
+        shipping.address_1 && shipping.country
+          ? {
+              fullName: fullName(shipping) || fullName(billing),
+              streetLine1: shipping.address_1,
+              streetLine2: shipping.address_2 || undefined,
+              city: shipping.city,
+              province: shipping.state,
+              postalCode: shipping.postcode,
+              countryCode: shipping.country,
+              phoneNumber: shipping.phone || billing.phone || undefined,
+            }
+          : undefined,
+      lines: order.line_items.map((line) => ({
+        quantity: line.quantity,
+        sku: line.sku,
+        externalProductId: String(line.product_id),
+        externalVariationId: line.variation_id
+          ? String(line.variation_id)
+          : null,
+        attributes: (line.meta_data || [])
+          .filter((meta) => meta.display_key && meta.display_value)
+          .map((meta) => ({
+            name: meta.display_key as string,
+            value: String(meta.display_value),
+          })),
+        title: line.name,
+      })),
+      payment: {
+        method: "woocommerce",
+        transactionId: order.transaction_id || String(order.id),
+        metadata: {
+          wooCommerceOrderId: order.id,
+          paymentMethod: order.payment_method_title ?? order.payment_method,
+          totalAmount: order.total,
+          currency: order.currency,
+        },
+      },
+      note: [
+        `Orden de WooCommerce #${order.number}. Total en WooCommerce: ${order.total} ${order.currency}.`,
+        order.customer_note ? `Nota del cliente: ${order.customer_note}` : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    };
+  }
+}
@@ -0,0 +1,332 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import {
+  ID,
+  Job,
+  JobQueue,
+  JobQueueService,
+  Logger,
+  ProductVariant,
+  RequestContext,
+  RequestContextService,
+  StockLevelService,
+  StockLocationService,
+  StockMovementService,
+  TransactionalConnection,
+} from "@vendure/core";
+import { IsNull } from "typeorm";
+import { ExternalOrderStockSync } from "../entities/external-order-stock-sync.entity";
+import { Integration } from "../entities/integration.entity";
+import { isFeatureEnabled } from "../integration-features";
+import { ExternalOrderService } from "./external-order.service";
+import { IntegrationService } from "./integration.service";
+import { ProductMappingService } from "./product-mapping.service";
+
+/**
+ * Estados de WooCommerce en los que la orden mantiene el stock descontado. En el
+ * resto (pending, cancelled, refunded, failed...) el stock se devuelve.
+ */
+const STOCK_HOLDING_STATUSES = new Set(["processing", "on-hold", "completed"]);
+
+/**
+ * `null` si la fecha falta o no es válida.
+ */
+function parseWooCommerceGmtDate(value: string | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+  const hasZone = /(Z|[+-]\d{2}:\d{2})$/i.test(value);
+  const date = new Date(hasZone ? value : `${value}Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Campos de la orden de WooCommerce que usa la sincronización de stock. Se guarda
+ * solo esto en el job para no persistir datos del comprador en la cola.
+ */
+export type WooCommerceStockOrder = {
+  id: number;
+  status: string;
+  /** UTC, sin zona horaria (`2024-05-01T13:45:00`). */
+  date_modified_gmt?: string;
+  line_items: Array<{
+    product_id: number;
+    variation_id: number;
+    quantity: number;
+    sku?: string;
+  }>;
+};
+
+interface OrderStockJobData {
+  integrationId: string;
+  order: WooCommerceStockOrder;
+}
+
+/**
+ * Refleja en Vendure el stock vendido en WooCommerce (funcionalidad `sync_stock`).
+ * Cada orden recibida por webhook ajusta el stock de las variantes mapeadas con
+ * movimientos de stock; lo aplicado se registra por orden, así que los reintentos y
+ * los cambios de estado solo ajustan la diferencia.
+ */
+@Injectable()
+export class WooCommerceStockService implements OnModuleInit {
+  private static readonly loggerCtx = "WooCommerceStockService";
+  private stockQueue!: JobQueue<OrderStockJobData>;
+
+  constructor(
+    private connection: TransactionalConnection,
+    private integrationService: IntegrationService,
+    private externalOrderService: ExternalOrderService,
+    private productMappingService: ProductMappingService,
+    private stockMovementService: StockMovementService,
+    private stockLevelService: StockLevelService,
+    private stockLocationService: StockLocationService,
+    private jobQueueService: JobQueueService,
+    private requestContextService: RequestContextService,
+  ) {}
+
+  async onModuleInit() {
+    this.stockQueue = await this.jobQueueService.createQueue({
+      name: "woocommerce-order-stock",
+      process: async (job) => this.processStockJob(job),
+    });
+  }
+
+  canSyncStock(integration: Integration): boolean {
+    return (
+      integration.enabled &&
+      isFeatureEnabled(integration.enabledFeatures, "sync_stock")
+    );
+  }
+
+  /**
+   * También se llama al importar la orden como orden de Vendure, para devolver lo que
+   * se había descontado antes de la importación.
+   */
+  async handleOrderWebhook(
+    integration: Integration,
+    order: WooCommerceStockOrder,
+  ): Promise<void> {
+    if (!this.canSyncStock(integration)) {
+      Logger.debug(
+        `[WEBHOOK] Stock sync disabled for integration=${integration.id}`,
+        WooCommerceStockService.loggerCtx,
+      );
+      return;
+    }
+    if (!order?.id || !Array.isArray(order.line_items)) {
+      Logger.warn(
+        `[WEBHOOK] Ignoring malformed WooCommerce order payload integration=${integration.id}`,
+        WooCommerceStockService.loggerCtx,
+      );
+      return;
+    }
+
+    await this.stockQueue.add(
+      {
+        integrationId: String(integration.id),
+        order: {
+          id: order.id,
+          status: order.status,
+          date_modified_gmt: order.date_modified_gmt,
+          line_items: order.line_items.map((line) => ({
+            product_id: line.product_id,
+            variation_id: line.variation_id,
+            quantity: line.quantity,
+            sku: line.sku,
+          })),
+        },
+      },
+      { retries: 3 },
+    );
+    Logger.info(
+      `[QUEUE] Enqueued WooCommerce order stock sync orderId=${order.id} status=${order.status} integrationId=${integration.id}`,
+      WooCommerceStockService.loggerCtx,
+    );
+  }
+
+  private async processStockJob(job: Job<OrderStockJobData>) {
+    const { integrationId, order } = job.data;
+
+    const defaultCtx = await this.requestContextService.create({
+      apiType: "admin",
+    });
+    const integration = await this.integrationService.findOne(
+      defaultCtx,
+      integrationId,
+    );
+    if (!integration || !this.canSyncStock(integration)) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} unavailable for stock sync`,
+        WooCommerceStockService.loggerCtx,
+      );
+      return;
+    }
+
+    const channels = await this.integrationService.findChannelsForIntegration(
+      defaultCtx,
+      integration.id,
+      "sync_stock",
+    );
+    if (channels.length === 0) {
+      Logger.warn(
+        `[QUEUE] Integration ${integrationId} is not linked to any channel; cannot sync stock for order ${order.id}`,
+        WooCommerceStockService.loggerCtx,
+      );
+      return;
+    }
+
+    const channelCtx = await this.requestContextService.create({
+      apiType: "admin",
+      channelOrToken: channels[0].token,
+    });
+    await this.connection.withTransaction(channelCtx, (txCtx) =>
+      this.applyOrder(txCtx, integration, order),
+    );
+  }
+
+  /**
+   * Ajusta el stock según la diferencia entre lo que la orden debe descontar en su
+   * estado actual y lo que ya se descontó en recepciones anteriores. Una orden
+   * importada como orden de Vendure (con `OrderIntegrationMapping`) no descuenta nada
+   * aquí: el stock lo mueve la orden de Vendure. Una versión de la orden anterior a la
+   * ya aplicada (por `date_modified_gmt`) se ignora.
+   */
+  private async applyOrder(
+    ctx: RequestContext,
+    integration: Integration,
+    order: WooCommerceStockOrder,
+  ): Promise<void> {
+    const repository = this.connection.getRepository(
+      ctx,
+      ExternalOrderStockSync,
+    );
+    const externalOrderId = String(order.id);
+    const record =
+      (await repository.findOne({
+        where: { integrationId: String(integration.id), externalOrderId },
+      })) ??
+      new ExternalOrderStockSync({
+        integrationId: String(integration.id),
+        externalOrderId,
+        appliedQuantities: {},
+      });
+
+    const modifiedAt = parseWooCommerceGmtDate(order.date_modified_gmt);
+    if (
+      modifiedAt &&
+      record.externalModifiedAt &&
+      modifiedAt < record.externalModifiedAt
+    ) {
+      Logger.info(
+        `Ignoring stale WooCommerce order ${order.id} modified at ${modifiedAt.toISOString()}; already applied ${record.externalModifiedAt.toISOString()} integration=${integration.id}`,
+        WooCommerceStockService.loggerCtx,
+      );
+      return;
+    }
+
+    const importedAsOrder = !!(await this.externalOrderService.getMapping(
+      ctx,
+      integration.id,
+      externalOrderId,
+    ));
+    const desired =
+      !importedAsOrder && STOCK_HOLDING_STATUSES.has(order.status)
+        ? await this.getOrderQuantities(ctx, integration, order)
+        : {};
+    const applied = record.appliedQuantities ?? {};
+
+    const variantIds = new Set([
+      ...Object.keys(applied),
+      ...Object.keys(desired),
+    ]);
+    for (const variantId of variantIds) {
+      const delta = (desired[variantId] ?? 0) - (applied[variantId] ?? 0);
+      if (delta !== 0) {
+        await this.adjustStock(ctx, variantId, delta);
+      }
+    }
+
+    record.externalStatus = order.status;
+    record.externalModifiedAt = modifiedAt ?? record.externalModifiedAt;
+    record.appliedQuantities = desired;
+    await repository.save(record);
+
+    Logger.info(
+      `Synced stock for WooCommerce order ${order.id} (${order.status}) integration=${integration.id}`,
+      WooCommerceStockService.loggerCtx,
+    );
+  }
+
+  private async getOrderQuantities(
+    ctx: RequestContext,
+    integration: Integration,
+    order: WooCommerceStockOrder,
+  ): Promise<Record<string, number>> {
+    const quantities: Record<string, number> = {};
+    for (const line of order.line_items) {
+      const variantId = await this.resolveVariantId(ctx, integration, line);
+      if (!variantId) {
+        Logger.warn(
+          `No mapped variant for WooCommerce order ${order.id} product=${line.product_id} variation=${line.variation_id}`,
+          WooCommerceStockService.loggerCtx,
+        );
+        continue;
+      }
+      const key = String(variantId);
+      quantities[key] = (quantities[key] ?? 0) + line.quantity;
+    }
+    return quantities;
+  }
+
+  /**
+   * Las variaciones se resuelven con el mapping de variantes; los productos simples
+   * (sin `variation_id`), con el mapping del producto cuando tiene una sola variante.
+   */
+  private async resolveVariantId(
+    ctx: RequestContext,
+    integration: Integration,
+    line: WooCommerceStockOrder["line_items"][number],
+  ): Promise<ID | undefined> {
+    if (line.variation_id) {
+      const mappings = await this.productMappingService.getVariantMappings(
+        ctx,
+        integration.id,
+        String(line.product_id),
+      );
+      return mappings.find(
+        (m) => m.externalVariationId === String(line.variation_id),
+      )?.vendureVariantId;
+    }
+
+    const mapping = await this.productMappingService.getMappingByExternalId(
+      ctx,
+      integration.id,
+      String(line.product_id),
+    );
+    if (!mapping) {
+      return undefined;
+    }
+    const variants = await this.connection
+      .getRepository(ctx, ProductVariant)
+      .find({
+        select: ["id"],
+        where: { productId: mapping.vendureProductId, deletedAt: IsNull() },
+      });
+    return variants.length === 1 ? variants[0].id : undefined;
+  }
+
+  /**
+   * Un delta positivo descuenta stock (unidades vendidas) y uno negativo lo devuelve.
+   */
+  private async adjustStock(ctx: RequestContext, variantId: ID, delta: number) {
+    const location = await this.stockLocationService.defaultStockLocation(ctx);
+    const stockLevel = await this.stockLevelService.getStockLevel(
+      ctx,
+      variantId,
+      location.id,
+    );
+    await this.stockMovementService.adjustProductVariantStock(ctx, variantId, [
+      { stockLocationId: location.id, stockOnHand: stockLevel.stockOnHand - delta },
+    ]);
+  }
+}
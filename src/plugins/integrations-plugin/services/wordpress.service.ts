@@ -2,6 +2,10 @@ import { Injectable } from "@nestjs/common";
 import { Logger } from "@vendure/core";
 import WooCommerceRestApi from "@woocommerce/woocommerce-rest-api";
 import { Integration } from "../entities/integration.entity";
+import {
+  IntegrationRateLimiterService,
+  parseRetryAfter,
+} from "./integration-rate-limiter.service";
 
 export interface WordPressProductVariation {
   id?: number;
@@ -39,6 +43,7 @@ export interface WordPressProductAttribute {
 export interface WordPressProduct {
   id?: number;
   name: string;
+  slug?: string;
   type: "simple" | "variable";
   status: "publish" | "draft" | "pending";
   description: string;
@@ -57,9 +62,13 @@ export interface WordPressProduct {
   }>;
   categories?: Array<{
     id: number;
+    name?: string;
+    slug?: string;
   }>;
   tags?: Array<{
     id: number;
+    name?: string;
+    slug?: string;
   }>;
   attributes?: WordPressProductAttribute[];
   meta_data?: Array<{
@@ -72,6 +81,45 @@ export interface WordPressApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  /**
+   * Código HTTP de la respuesta fallida (no se informa si no hubo respuesta).
+   */
+  status?: number;
+}
+
+/**
+ * Operaciones de un endpoint `batch` de WooCommerce.
+ */
+export interface WooCommerceBatchRequest<T> {
+  create?: Array<Partial<T>>;
+  update?: Array<Partial<T> & { id: number }>;
+  delete?: number[];
+}
+
+/**
+ * Resultado de cada operación de un batch, en el mismo orden que en el request.
+ */
+export interface WooCommerceBatchResult<T> {
+  create: Array<WordPressApiResponse<T>>;
+  update: Array<WordPressApiResponse<T>>;
+  delete: Array<WordPressApiResponse<T>>;
+}
+
+/**
+ * Máximo de operaciones (create + update + delete) por request que acepta WooCommerce.
+ */
+const WOOCOMMERCE_BATCH_LIMIT = 100;
+
+export interface WordPressConnectionInfo {
+  reachable: boolean;
+  authenticated: boolean;
+  /**
+   * `null` si no se pudo determinar.
+   */
+  canWrite: boolean | null;
+  wordpressVersion?: string | null;
+  woocommerceVersion?: string | null;
+  error?: string;
 }
 
 export interface WordPressMappedFacetValue {
@@ -81,10 +129,74 @@ export interface WordPressMappedFacetValue {
   valueName: string;
 }
 
+export interface WordPressTaxonomyTerm {
+  name: string;
+  /**
+   * `null` si el término todavía no existe en WooCommerce.
+   */
+  id: number | null;
+}
+
+export interface WordPressProductPage {
+  products: WordPressProduct[];
+  total: number;
+  totalPages: number;
+}
+
+export interface WooCommerceOrderAddress {
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  address_1?: string;
+  address_2?: string;
+  city?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface WooCommerceOrder {
+  id: number;
+  number: string;
+  status: string;
+  currency: string;
+  total: string;
+  customer_note?: string;
+  payment_method?: string;
+  payment_method_title?: string;
+  transaction_id?: string;
+  date_modified_gmt?: string;
+  billing: WooCommerceOrderAddress;
+  shipping: WooCommerceOrderAddress;
+  line_items: Array<{
+    id: number;
+    name: string;
+    product_id: number;
+    variation_id: number;
+    quantity: number;
+    sku?: string;
+    meta_data?: Array<{
+      key: string;
+      value: any;
+      display_key?: string;
+      display_value?: string;
+    }>;
+  }>;
+}
+
+export interface WooCommerceOrderPage {
+  orders: WooCommerceOrder[];
+  totalPages: number;
+}
+
 @Injectable()
 export class WordPressService {
   private static readonly loggerCtx = "WordPressService";
 
+  constructor(private rateLimiter: IntegrationRateLimiterService) {}
+
   private getIntegrationLabel(integration: Integration): string {
     return `${integration.id}:${integration.name}`;
   }
@@ -108,11 +220,51 @@ export class WordPressService {
       return null;
     }
 
-    return new WooCommerceRestApi({
-      url: this.normalizeUrl(siteUrl),
-      consumerKey: apiKey,
-      consumerSecret: apiSecret,
-      version: "wc/v3",
+    return this.withRateLimit(
+      integration,
+      new WooCommerceRestApi({
+        url: this.normalizeUrl(siteUrl),
+        consumerKey: apiKey,
+        consumerSecret: apiSecret,
+        version: "wc/v3",
+      }),
+    );
+  }
+
+  /**
+   * Las llamadas del cliente pasan por el rate limiter de la integración. Un 429 se
+   * reintenta después del `Retry-After`; si persiste, se lanza como cualquier error.
+   */
+  private withRateLimit(
+    integration: Integration,
+    api: WooCommerceRestApi,
+  ): WooCommerceRestApi {
+    const limited =
+      (method: (...args: any[]) => Promise<any>) =>
+      async (...args: any[]) => {
+        const outcome = await this.rateLimiter.run(
+          integration,
+          () =>
+            method.apply(api, args).then(
+              (response) => ({ response, error: undefined }),
+              (error) => ({ response: undefined, error }),
+            ),
+          ({ error }) =>
+            error?.response?.status === 429
+              ? parseRetryAfter(error.response.headers?.["retry-after"])
+              : null,
+        );
+        if (outcome.error) {
+          throw outcome.error;
+        }
+        return outcome.response;
+      };
+
+    return Object.assign(Object.create(api), {
+      get: limited(api.get),
+      post: limited(api.post),
+      put: limited(api.put),
+      delete: limited(api.delete),
     });
   }
 
@@ -190,6 +342,76 @@ export class WordPressService {
       );
       return {
         success: false,
+        status: error?.response?.status,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Como `mapFacetValuesToTaxonomies`, pero sin crear los términos que no existen.
+   */
+  async resolveFacetValueTaxonomies(
+    integration: Integration,
+    facetValues: WordPressMappedFacetValue[],
+  ): Promise<
+    WordPressApiResponse<{
+      categories: WordPressTaxonomyTerm[];
+      tags: WordPressTaxonomyTerm[];
+    }>
+  > {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        success: false,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
+
+    try {
+      const categories: WordPressTaxonomyTerm[] = [];
+      const tags: WordPressTaxonomyTerm[] = [];
+
+      for (const facetValue of facetValues) {
+        const termName = facetValue.valueName || facetValue.valueCode;
+        if (!termName) {
+          continue;
+        }
+        const isCategoryFacet = this.isCategoryFacet(
+          facetValue.facetCode,
+          facetValue.facetName,
+        );
+        const terms = isCategoryFacet ? categories : tags;
+        if (terms.some((term) => term.name === termName)) {
+          continue;
+        }
+        const existing = await this.findTermByName(
+          api,
+          isCategoryFacet ? "products/categories" : "products/tags",
+          termName,
+        );
+        terms.push({ name: termName, id: existing?.id ?? null });
+      }
+
+      return {
+        success: true,
+        data: {
+          categories,
+          tags,
+        },
+      };
+    } catch (error: any) {
+      const errorMessage = this.formatApiError(error);
+      Logger.error(
+        `Error resolving WooCommerce taxonomies integration=${this.getIntegrationLabel(integration)} ${errorMessage}`,
+        WordPressService.loggerCtx,
+        error.stack,
+      );
+      return {
+        success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -237,6 +459,7 @@ export class WordPressService {
       );
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -285,6 +508,7 @@ export class WordPressService {
       );
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -329,6 +553,7 @@ export class WordPressService {
       );
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -359,6 +584,7 @@ export class WordPressService {
         error.response?.data?.message || error.message || String(error);
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -399,14 +625,20 @@ export class WordPressService {
       );
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
   }
 
-  async testConnection(
+  /**
+   * Busca varios productos en una sola request (`sku` acepta una lista separada por
+   * comas). Devuelve los productos encontrados indexados por SKU.
+   */
+  async findProductsBySkus(
     integration: Integration,
-  ): Promise<WordPressApiResponse> {
+    skus: string[],
+  ): Promise<WordPressApiResponse<Map<string, WordPressProduct>>> {
     const api = this.getApiClient(integration);
 
     if (!api) {
@@ -418,27 +650,124 @@ export class WordPressService {
     }
 
     try {
-      await api.get("system_status");
-
       Logger.info(
-        `WordPress connection test successful for ${integration.config.siteUrl}`,
+        `[HTTP] GET products?sku=(${skus.length} skus) integration=${this.getIntegrationLabel(integration)}`,
         WordPressService.loggerCtx,
       );
+      const response = await api.get("products", {
+        sku: skus.join(","),
+        per_page: Math.min(Math.max(skus.length, 1), 100),
+      });
+      const products: WordPressProduct[] = response.data || [];
 
       return {
         success: true,
-        data: { message: "Connection successful" },
+        data: new Map(
+          products
+            .filter((product) => product.sku)
+            .map((product) => [product.sku as string, product]),
+        ),
       };
     } catch (error: any) {
-      const errorMessage =
-        error.response?.data?.message || error.message || String(error);
+      const errorMessage = this.formatApiError(error);
+      Logger.error(
+        `Error finding products by SKU in WordPress integration=${this.getIntegrationLabel(integration)} skus=${skus.length} ${errorMessage}`,
+        WordPressService.loggerCtx,
+        error.stack,
+      );
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
   }
 
+  /**
+   * URL de edición del producto en el admin de WordPress.
+   */
+  getProductAdminUrl(
+    integration: Integration,
+    wordpressProductId: string | number,
+  ): string | null {
+    const { siteUrl } = integration.config;
+    if (!siteUrl) {
+      return null;
+    }
+    return `${this.normalizeUrl(siteUrl)}/wp-admin/post.php?post=${wordpressProductId}&action=edit`;
+  }
+
+  /**
+   * Verifica la conexión con la tienda: `system_status` confirma las credenciales y
+   * devuelve las versiones; un batch vacío de productos indica si la API key tiene
+   * permiso de escritura sin modificar nada.
+   */
+  async testConnection(
+    integration: Integration,
+  ): Promise<WordPressConnectionInfo> {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        reachable: false,
+        authenticated: false,
+        canWrite: null,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
+
+    let status: any;
+    try {
+      const response = await api.get("system_status");
+      status = response.data;
+    } catch (error: any) {
+      const httpStatus = error?.response?.status;
+      Logger.warn(
+        `WordPress connection test failed for ${this.getIntegrationLabel(integration)}: ${this.formatApiError(error)}`,
+        WordPressService.loggerCtx,
+      );
+      return {
+        reachable: httpStatus !== undefined,
+        authenticated: httpStatus !== undefined && httpStatus < 400,
+        canWrite: null,
+        error:
+          httpStatus === 404
+            ? "WooCommerce REST API not found on this site"
+            : error.response?.data?.message || error.message || String(error),
+      };
+    }
+
+    let canWrite: boolean | null = null;
+    try {
+      await api.post("products/batch", {});
+      canWrite = true;
+    } catch (error: any) {
+      const httpStatus = error?.response?.status;
+      if (httpStatus === 401 || httpStatus === 403) {
+        canWrite = false;
+      } else {
+        Logger.warn(
+          `Could not check write permission for ${this.getIntegrationLabel(integration)}: ${this.formatApiError(error)}`,
+          WordPressService.loggerCtx,
+        );
+      }
+    }
+
+    Logger.info(
+      `WordPress connection test successful for ${integration.config.siteUrl} canWrite=${canWrite ?? "unknown"}`,
+      WordPressService.loggerCtx,
+    );
+
+    return {
+      reachable: true,
+      authenticated: true,
+      canWrite,
+      wordpressVersion: status?.environment?.wp_version ?? null,
+      woocommerceVersion: status?.environment?.version ?? null,
+    };
+  }
+
   async createProductVariation(
     integration: Integration,
     productId: number,
@@ -485,6 +814,7 @@ export class WordPressService {
       );
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -537,6 +867,51 @@ export class WordPressService {
       );
       return {
         success: false,
+        status: error?.response?.status,
+        error: errorMessage,
+      };
+    }
+  }
+
+  async deleteProductVariation(
+    integration: Integration,
+    productId: number,
+    variationId: number,
+  ): Promise<WordPressApiResponse> {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        success: false,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
+
+    try {
+      Logger.info(
+        `[HTTP] DELETE products/${productId}/variations/${variationId} integration=${this.getIntegrationLabel(integration)}`,
+        WordPressService.loggerCtx,
+      );
+      const response = await api.delete(
+        `products/${productId}/variations/${variationId}`,
+        { force: true },
+      );
+
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error: any) {
+      const errorMessage = this.formatApiError(error);
+      Logger.error(
+        `Error deleting variation in WordPress integration=${this.getIntegrationLabel(integration)} productId=${productId} variationId=${variationId} ${errorMessage}`,
+        WordPressService.loggerCtx,
+        error.stack,
+      );
+      return {
+        success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -561,15 +936,401 @@ export class WordPressService {
         `[HTTP] GET products/${productId}/variations integration=${this.getIntegrationLabel(integration)}`,
         WordPressService.loggerCtx,
       );
-      const response = await api.get(`products/${productId}/variations`, {
-        per_page: 100,
+      const variations: WordPressProductVariation[] = [];
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const response = await api.get(`products/${productId}/variations`, {
+          per_page: 100,
+          page,
+        });
+        variations.push(...(Array.isArray(response.data) ? response.data : []));
+        totalPages = Number(response.headers?.["x-wp-totalpages"]) || 1;
+        page++;
+      } while (page <= totalPages);
+
+      Logger.info(
+        `[HTTP] GET products/${productId}/variations OK integration=${this.getIntegrationLabel(integration)} count=${variations.length}`,
+        WordPressService.loggerCtx,
+      );
+
+      return {
+        success: true,
+        data: variations,
+      };
+    } catch (error: any) {
+      const errorMessage = this.formatApiError(error);
+      Logger.error(
+        `Error reading variations in WordPress integration=${this.getIntegrationLabel(integration)} productId=${productId} ${errorMessage}`,
+        WordPressService.loggerCtx,
+        error.stack,
+      );
+      return {
+        success: false,
+        status: error?.response?.status,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Crea, actualiza y elimina productos con `products/batch`, en requests de hasta
+   * `WOOCOMMERCE_BATCH_LIMIT` operaciones.
+   */
+  async batchProducts(
+    integration: Integration,
+    request: WooCommerceBatchRequest<WordPressProduct>,
+  ): Promise<WordPressApiResponse<WooCommerceBatchResult<WordPressProduct>>> {
+    return this.runBatch(integration, "products/batch", {
+      create: request.create?.map((payload) =>
+        this.sanitizeProductPayload(payload),
+      ),
+      update: request.update?.map((payload) =>
+        this.sanitizeProductPayload(payload),
+      ),
+      delete: request.delete,
+    });
+  }
+
+  /**
+   * Igual que `batchProducts`, con `products/{id}/variations/batch`.
+   */
+  async batchProductVariations(
+    integration: Integration,
+    productId: number,
+    request: WooCommerceBatchRequest<WordPressProductVariation>,
+  ): Promise<
+    WordPressApiResponse<WooCommerceBatchResult<WordPressProductVariation>>
+  > {
+    return this.runBatch(integration, `products/${productId}/variations/batch`, {
+      create: request.create?.map((payload) =>
+        this.sanitizeVariationPayload(payload),
+      ),
+      update: request.update?.map((payload) =>
+        this.sanitizeVariationPayload(payload),
+      ),
+      delete: request.delete,
+    });
+  }
+
+  /**
+   * Divide las operaciones en requests de `WOOCOMMERCE_BATCH_LIMIT`. WooCommerce
+   * informa los errores por operación (`{ id, error: { code, message, data } }`); si
+   * falla el request entero, el error se asigna a todas sus operaciones. Solo se
+   * devuelve `success: false` si falta la configuración.
+   */
+  private async runBatch<T>(
+    integration: Integration,
+    endpoint: string,
+    request: WooCommerceBatchRequest<T>,
+  ): Promise<WordPressApiResponse<WooCommerceBatchResult<T>>> {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        success: false,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
+
+    type Kind = keyof WooCommerceBatchResult<T>;
+    const operations: Array<{ kind: Kind; index: number; payload: unknown }> =
+      [
+        ...(request.create ?? []).map((payload, index) => ({
+          kind: "create" as const,
+          index,
+          payload,
+        })),
+        ...(request.update ?? []).map((payload, index) => ({
+          kind: "update" as const,
+          index,
+          payload,
+        })),
+        ...(request.delete ?? []).map((id, index) => ({
+          kind: "delete" as const,
+          index,
+          payload: id,
+        })),
+      ];
+    const result: WooCommerceBatchResult<T> = {
+      create: [],
+      update: [],
+      delete: [],
+    };
+
+    for (let i = 0; i < operations.length; i += WOOCOMMERCE_BATCH_LIMIT) {
+      const chunk = operations.slice(i, i + WOOCOMMERCE_BATCH_LIMIT);
+      const body: Partial<Record<Kind, unknown[]>> = {};
+      for (const operation of chunk) {
+        (body[operation.kind] ??= []).push(operation.payload);
+      }
+
+      try {
+        Logger.info(
+          `[HTTP] POST ${endpoint} integration=${this.getIntegrationLabel(integration)} create=${body.create?.length ?? 0} update=${body.update?.length ?? 0} delete=${body.delete?.length ?? 0}`,
+          WordPressService.loggerCtx,
+        );
+        const response = await api.post(endpoint, body);
+        const positions: Record<Kind, number> = {
+          create: 0,
+          update: 0,
+          delete: 0,
+        };
+        for (const operation of chunk) {
+          const item =
+            response.data?.[operation.kind]?.[positions[operation.kind]++];
+          result[operation.kind][operation.index] =
+            this.toBatchItemResult<T>(item);
+        }
+      } catch (error: any) {
+        const errorMessage = this.formatApiError(error);
+        Logger.error(
+          `Error in WordPress batch ${endpoint} integration=${this.getIntegrationLabel(integration)} ${errorMessage}`,
+          WordPressService.loggerCtx,
+          error.stack,
+        );
+        for (const operation of chunk) {
+          result[operation.kind][operation.index] = {
+            success: false,
+            status: error?.response?.status,
+            error: errorMessage,
+          };
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  private toBatchItemResult<T>(item: any): WordPressApiResponse<T> {
+    if (!item) {
+      return {
+        success: false,
+        error: "Missing item in WooCommerce batch response",
+      };
+    }
+    if (item.error) {
+      const status = item.error.data?.status;
+      return {
+        success: false,
+        status,
+        error: `status=${status ?? "n/a"} code=${item.error.code ?? "n/a"} message=${item.error.message ?? "n/a"}`,
+      };
+    }
+    return {
+      success: true,
+      data: item,
+    };
+  }
+
+  /**
+   * Página del catálogo de WooCommerce (todos los estados). El total de productos y de
+   * páginas se lee de las cabeceras `X-WP-Total` y `X-WP-TotalPages`.
+   */
+  async listProducts(
+    integration: Integration,
+    options: { page: number; perPage: number },
+  ): Promise<WordPressApiResponse<WordPressProductPage>> {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        success: false,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
+
+    try {
+      Logger.info(
+        `[HTTP] GET products?page=${options.page} integration=${this.getIntegrationLabel(integration)}`,
+        WordPressService.loggerCtx,
+      );
+      const response = await api.get("products", {
+        page: options.page,
+        per_page: options.perPage,
+        orderby: "id",
+        order: "asc",
       });
+      const products: WordPressProduct[] = response.data || [];
+
+      return {
+        success: true,
+        data: {
+          products,
+          total: Number(response.headers?.["x-wp-total"]) || products.length,
+          totalPages: Number(response.headers?.["x-wp-totalpages"]) || 1,
+        },
+      };
+    } catch (error: any) {
+      const errorMessage = this.formatApiError(error);
+      Logger.error(
+        `Error listing products in WordPress integration=${this.getIntegrationLabel(integration)} page=${options.page} ${errorMessage}`,
+        WordPressService.loggerCtx,
+        error.stack,
+      );
+      return {
+        success: false,
+        status: error?.response?.status,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Descarga una imagen del catálogo (las URLs de WooCommerce son públicas).
+   */
+  async downloadImage(
+    integration: Integration,
+    url: string,
+  ): Promise<WordPressApiResponse<Buffer>> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        return {
+          success: false,
+          status: response.status,
+          error: `status=${response.status} url=${url}`,
+        };
+      }
+      return {
+        success: true,
+        data: Buffer.from(await response.arrayBuffer()),
+      };
+    } catch (error: any) {
+      Logger.warn(
+        `Error downloading image integration=${this.getIntegrationLabel(integration)} url=${url} ${error?.message ?? String(error)}`,
+        WordPressService.loggerCtx,
+      );
+      return {
+        success: false,
+        error: error?.message ?? String(error),
+      };
+    }
+  }
+
+  async getOrder(
+    integration: Integration,
+    orderId: number | string,
+  ): Promise<WordPressApiResponse<WooCommerceOrder>> {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        success: false,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
 
+    try {
       Logger.info(
-        `[HTTP] GET products/${productId}/variations OK integration=${this.getIntegrationLabel(integration)} count=${Array.isArray(response.data) ? response.data.length : 0}`,
+        `[HTTP] GET orders/${orderId} integration=${this.getIntegrationLabel(integration)}`,
+        WordPressService.loggerCtx,
+      );
+      const response = await api.get(`orders/${orderId}`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error: any) {
+      const errorMessage = this.formatApiError(error);
+      Logger.error(
+        `Error reading order in WordPress integration=${this.getIntegrationLabel(integration)} orderId=${orderId} ${errorMessage}`,
         WordPressService.loggerCtx,
+        error.stack,
       );
+      return {
+        success: false,
+        status: error?.response?.status,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Página de órdenes ordenadas por fecha de modificación. El total de páginas se lee
+   * de la cabecera `X-WP-TotalPages`.
+   */
+  async listOrders(
+    integration: Integration,
+    options: { page: number; perPage: number; modifiedAfter?: Date },
+  ): Promise<WordPressApiResponse<WooCommerceOrderPage>> {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        success: false,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
+
+    try {
+      Logger.info(
+        `[HTTP] GET orders?page=${options.page} integration=${this.getIntegrationLabel(integration)}`,
+        WordPressService.loggerCtx,
+      );
+      const response = await api.get("orders", {
+        page: options.page,
+        per_page: options.perPage,
+        orderby: "modified",
+        order: "asc",
+        ...(options.modifiedAfter
+          ? {
+              modified_after: options.modifiedAfter.toISOString(),
+              dates_are_gmt: true,
+            }
+          : {}),
+      });
 
+      return {
+        success: true,
+        data: {
+          orders: response.data || [],
+          totalPages: Number(response.headers?.["x-wp-totalpages"]) || 1,
+        },
+      };
+    } catch (error: any) {
+      const errorMessage = this.formatApiError(error);
+      Logger.error(
+        `Error listing orders in WordPress integration=${this.getIntegrationLabel(integration)} page=${options.page} ${errorMessage}`,
+        WordPressService.loggerCtx,
+        error.stack,
+      );
+      return {
+        success: false,
+        status: error?.response?.status,
+        error: errorMessage,
+      };
+    }
+  }
+
+  async updateOrderStatus(
+    integration: Integration,
+    orderId: number | string,
+    status: string,
+  ): Promise<WordPressApiResponse<WooCommerceOrder>> {
+    const api = this.getApiClient(integration);
+
+    if (!api) {
+      return {
+        success: false,
+        error:
+          "Missing WordPress configuration (siteUrl, apiKey, or apiSecret)",
+      };
+    }
+
+    try {
+      Logger.info(
+        `[HTTP] PUT orders/${orderId} status=${status} integration=${this.getIntegrationLabel(integration)}`,
+        WordPressService.loggerCtx,
+      );
+      const response = await api.put(`orders/${orderId}`, { status });
       return {
         success: true,
         data: response.data,
@@ -577,12 +1338,13 @@ export class WordPressService {
     } catch (error: any) {
       const errorMessage = this.formatApiError(error);
       Logger.error(
-        `Error reading variations in WordPress integration=${this.getIntegrationLabel(integration)} productId=${productId} ${errorMessage}`,
+        `Error updating order status in WordPress integration=${this.getIntegrationLabel(integration)} orderId=${orderId} status=${status} ${errorMessage}`,
         WordPressService.loggerCtx,
         error.stack,
       );
       return {
         success: false,
+        status: error?.response?.status,
         error: errorMessage,
       };
     }
@@ -592,7 +1354,11 @@ export class WordPressService {
     return url.replace(/\/$/, "");
   }
 
-  private sanitizeProductPayload<T extends Partial<WordPressProduct>>(
+  /**
+   * Payload del producto tal como se envía a WooCommerce (también se usa en la vista
+   * previa).
+   */
+  sanitizeProductPayload<T extends Partial<WordPressProduct>>(
     payload: T,
   ): T {
     const sanitized = { ...payload } as T;
@@ -641,7 +1407,7 @@ export class WordPressService {
     return sanitized;
   }
 
-  private sanitizeVariationPayload<
+  sanitizeVariationPayload<
     T extends Partial<WordPressProductVariation>,
   >(payload: T): T {
     const sanitized = { ...payload } as T;
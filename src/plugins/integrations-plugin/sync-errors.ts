@@ -0,0 +1,70 @@
+import { BackoffStrategy } from '@vendure/core';
+
+/**
+ * Clasificación de los errores al llamar a una plataforma externa:
+ * - `transient`: sin respuesta (red/timeout), 408, 429 o 5xx. Se relanza para que el
+ *   job se reintente.
+ * - `permanent`: cualquier otro 4xx o un error de configuración. Reintentar no
+ *   cambia el resultado, así que el job se aparca como dead letter.
+ */
+export type SyncErrorKind = 'transient' | 'permanent';
+
+export function classifyHttpStatus(status: number | undefined): SyncErrorKind {
+    if (status === undefined || status === 408 || status === 429 || status >= 500) {
+        return 'transient';
+    }
+    return 'permanent';
+}
+
+export class SyncError extends Error {
+    constructor(
+        message: string,
+        readonly kind: SyncErrorKind,
+        readonly status?: number,
+    ) {
+        super(message);
+        this.name = 'SyncError';
+    }
+
+    /**
+     * Crea el error a partir de un resultado fallido de `WordPressService` o
+     * `MercadoLibreService`, clasificándolo por su código HTTP.
+     */
+    static fromResult(message: string, result: { error?: string; status?: number }): SyncError {
+        return new SyncError(`${message}: ${result.error ?? 'Unknown error'}`, classifyHttpStatus(result.status), result.status);
+    }
+}
+
+/**
+ * Los errores no clasificados (excepciones inesperadas) se tratan como transitorios.
+ */
+export function getSyncErrorKind(error: unknown): SyncErrorKind {
+    return error instanceof SyncError ? error.kind : 'transient';
+}
+
+/**
+ * Colas que llaman a plataformas externas y usan backoff exponencial.
+ */
+export const INTEGRATION_JOB_QUEUES = [
+    'integration-product-sync',
+    'integration-channel-change',
+    'mercadolibre-order-import',
+    'woocommerce-order-import',
+    'woocommerce-order-status',
+    'mercadolibre-question-sync',
+    'mercadolibre-message-sync',
+];
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+
+/**
+ * `backoffStrategy` para `DefaultJobQueuePlugin`: 5s, 10s, 20s... (máximo 10 minutos)
+ * para las colas de integraciones y 1s para el resto, como el valor por defecto.
+ */
+export const integrationJobBackoffStrategy: BackoffStrategy = (queueName, attemptsMade) => {
+    if (!INTEGRATION_JOB_QUEUES.includes(queueName)) {
+        return 1000;
+    }
+    return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attemptsMade - 1, 0), BACKOFF_MAX_MS);
+};
@@ -0,0 +1,18 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Verifica la cabecera `X-WC-Webhook-Signature` que envía WooCommerce: el HMAC-SHA256
+ * en base64 del cuerpo crudo de la petición, firmado con el secreto del webhook.
+ */
+export function verifyWooCommerceSignature(
+    rawBody: Buffer | undefined,
+    secret: string | undefined,
+    signature: string | undefined,
+): boolean {
+    if (!rawBody || !secret || !signature) {
+        return false;
+    }
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    const received = Buffer.from(signature, 'base64');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+}
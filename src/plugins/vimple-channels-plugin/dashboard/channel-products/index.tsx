@@ -13,7 +13,12 @@ import {
   api,
 } from "@vendure/dashboard";
 import { graphql } from "@/gql";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQueries,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { LayersIcon } from "lucide-react";
 import { useState, useEffect } from "react";
 
@@ -23,20 +28,15 @@ const channelsQuery = graphql(`
       items {
         id
         code
-        customFields {
-          integrationId
-        }
       }
     }
   }
 `);
 
-const integrationsQuery = graphql(`
-  query GetIntegrationsForChannelProducts {
-    integrations {
-      items {
-        id
-      }
+const channelIntegrationsQuery = graphql(`
+  query GetChannelIntegrationsForChannelProducts($channelId: ID!) {
+    channelIntegrations(channelId: $channelId) {
+      id
     }
   }
 `);
@@ -103,30 +103,29 @@ function ChannelProductsPage() {
     },
   });
 
-  const { data: integrationsData, isLoading: integrationsLoading } = useQuery({
-    queryKey: ["integrations-for-channel-products"],
-    queryFn: async () => {
-      const result = await api.query(integrationsQuery);
-      return result;
-    },
-  });
-
   const allChannels = (channelsData as any)?.channels?.items || [];
-  const integrationIds = new Set(
-    ((integrationsData as any)?.integrations?.items || []).map(
-      (integration: any) => String(integration.id),
-    ),
-  );
   const defaultChannel = allChannels.find(
     (ch: any) => ch.code === "__default_channel__",
   );
   const channels = allChannels.filter(
     (ch: any) => ch.code !== "__default_channel__",
   );
+
+  // Un canal puede estar vinculado a varias integraciones (`ChannelIntegration`)
+  const channelIntegrationsResults = useQueries({
+    queries: channels.map((channel: any) => ({
+      queryKey: ["channel-integrations", channel.id],
+      queryFn: () =>
+        api.query(channelIntegrationsQuery, { channelId: channel.id } as any),
+    })),
+  });
+  const integrationsLoading = channelIntegrationsResults.some(
+    (result) => result.isLoading,
+  );
   const channelsWithIntegration = channels.filter(
-    (ch: any) =>
-      ch?.customFields?.integrationId != null &&
-      integrationIds.has(String(ch.customFields.integrationId)),
+    (_: any, index: number) =>
+      ((channelIntegrationsResults[index]?.data as any)?.channelIntegrations
+        ?.length ?? 0) > 0,
   );
   const [activeTab, setActiveTab] = useState("");
 
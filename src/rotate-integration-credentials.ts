@@ -0,0 +1,69 @@
+import { bootstrapWorker, TransactionalConnection } from "@vendure/core";
+import { config } from "./vendure-config";
+import { Integration } from "./plugins/integrations-plugin/entities/integration.entity";
+import {
+  getSecretConfigKeys,
+  isEncryptedSecret,
+} from "./plugins/integrations-plugin/integration-credentials";
+
+/**
+ * Recifra las credenciales de todas las integraciones con la clave actual.
+ *
+ * 1. Mueve la clave vigente a INTEGRATION_CREDENTIALS_PREVIOUS_KEYS.
+ * 2. Define la nueva clave en INTEGRATION_CREDENTIALS_KEY.
+ * 3. Ejecuta este comando; al terminar, la clave anterior ya no es necesaria.
+ *
+ * También cifra los valores guardados en texto plano antes de activar el cifrado.
+ */
+async function rotateIntegrationCredentials() {
+  if (!process.env.INTEGRATION_CREDENTIALS_KEY) {
+    throw new Error("INTEGRATION_CREDENTIALS_KEY must be set");
+  }
+
+  const { app } = await bootstrapWorker(config);
+  const repository = app
+    .get(TransactionalConnection)
+    .rawConnection.getRepository(Integration);
+  const secretKeys = getSecretConfigKeys();
+
+  let rotated = 0;
+  const failed: string[] = [];
+  for (const integration of await repository.find()) {
+    // Los valores que siguen cifrados tras la lectura usan una clave que no está
+    // configurada: se dejan como están para no perderlos.
+    const undecryptable = [
+      ...Object.entries(integration.config || {})
+        .filter(([key, value]) => secretKeys.has(key) && isEncryptedSecret(value))
+        .map(([key]) => key),
+      ...(isEncryptedSecret(integration.refreshToken) ? ["refreshToken"] : []),
+    ];
+    if (undecryptable.length > 0) {
+      failed.push(`${integration.id} (${integration.name}): ${undecryptable.join(", ")}`);
+      continue;
+    }
+
+    await repository.update(
+      { id: integration.id },
+      { config: integration.config, refreshToken: integration.refreshToken },
+    );
+    rotated++;
+  }
+
+  console.log(`Re-encrypted credentials of ${rotated} integration(s)`);
+  if (failed.length > 0) {
+    console.error(
+      `Could not decrypt credentials of ${failed.length} integration(s); add the missing key to INTEGRATION_CREDENTIALS_PREVIOUS_KEYS and run again:\n  ${failed.join("\n  ")}`,
+    );
+  }
+  await app.close();
+  return failed.length === 0;
+}
+
+rotateIntegrationCredentials()
+  .then((ok) => {
+    process.exit(ok ? 0 : 1);
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -16,7 +16,10 @@ import { AssetServerPlugin } from "@vendure/asset-server-plugin";
 import { configureCustomS3AssetStorage } from "./custom-s3-storage.strategy";
 import { DashboardPlugin } from "@vendure/dashboard/plugin";
 import { GraphiqlPlugin } from "@vendure/graphiql-plugin";
-import { IntegrationsPlugin } from "./plugins/integrations-plugin";
+import {
+  IntegrationsPlugin,
+  integrationJobBackoffStrategy,
+} from "./plugins/integrations-plugin";
 import {
   ChannelMarkupPriceStrategy,
   VimpleChannelsPlugin,
@@ -156,7 +159,10 @@ export const config: VendureConfig = {
         : undefined,
     }),
     DefaultSchedulerPlugin.init(),
-    DefaultJobQueuePlugin.init({ useDatabaseForBuffer: true }),
+    DefaultJobQueuePlugin.init({
+      useDatabaseForBuffer: true,
+      backoffStrategy: integrationJobBackoffStrategy,
+    }),
     DefaultSearchPlugin.init({ bufferUpdates: false, indexStockStatus: true }),
     IS_DEV
       ? EmailPlugin.init({